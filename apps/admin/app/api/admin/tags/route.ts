@@ -14,5 +14,6 @@ export async function GET(req: NextRequest) {
   const rows = await TagModel.findAll();
   return NextResponse.json(rows.map((t) => ({
     id: t.id, value: t.value, display: t.display, sort_order: t.sort_order,
+    parent_tag_id: t.parent_tag_id,
   })));
 }
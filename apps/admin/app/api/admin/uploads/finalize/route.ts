@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { UploadModel } from '@eve/db';
+import { storage, UploadRejectedError } from '@eve/storage';
+import { adminErrorResponse, requireAdminRequest } from '../../../../../lib/security';
+import { finalizeStagedUpload } from '../../../../../lib/uploads';
+
+export const runtime = 'nodejs';
+
+/**
+ * Turn a direct upload into a stored photo (see finalizeStagedUpload) and
+ * record it. Answers like POST /api/admin/uploads.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await requireAdminRequest(req, { mutation: true });
+  } catch (err) {
+    return adminErrorResponse(err) ?? NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let key: unknown;
+  try {
+    ({ key } = await req.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const { contentType, ...result } = await finalizeStagedUpload(storage, key);
+    await UploadModel.record({ ...result, contentType });
+    return NextResponse.json(result);
+  } catch (err) {
+    if (err instanceof UploadRejectedError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('admin upload: storage write failed', err);
+    return NextResponse.json({ error: 'Storage write failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { storage, UploadRejectedError } from '@eve/storage';
+import { adminErrorResponse, requireAdminRequest } from '../../../../../../lib/security';
+import { MAX_UPLOAD_BYTES, readBodyWithLimit } from '../../../../../../lib/uploads';
+
+export const runtime = 'nodejs';
+
+/**
+ * Upload target for the local backend — the stand-in for a presigned S3
+ * PUT. The signed query string from /api/admin/uploads/presign fixes the
+ * key, content type, size and expiry; the body is staged, not served.
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ key: string[] }> }) {
+  try {
+    await requireAdminRequest(req, { mutation: true });
+  } catch (err) {
+    return adminErrorResponse(err) ?? NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { key } = await params;
+  const body = await readBodyWithLimit(req.body, MAX_UPLOAD_BYTES);
+  if (!body) {
+    return NextResponse.json({ error: 'File too large (max 10MB).' }, { status: 413 });
+  }
+
+  try {
+    await storage.receiveUpload(key.join('/'), req.nextUrl.searchParams, body, req.headers.get('content-type') ?? '');
+  } catch (err) {
+    if (err instanceof UploadRejectedError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('admin upload: local direct upload failed', err);
+    return NextResponse.json({ error: 'Storage write failed' }, { status: 500 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
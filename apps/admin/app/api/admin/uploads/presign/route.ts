@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { storage } from '@eve/storage';
+import { adminErrorResponse, requireAdminRequest } from '../../../../../lib/security';
+import { DIRECT_UPLOAD_TYPES, MAX_UPLOAD_BYTES, stagingKey, uploadPrefix } from '../../../../../lib/uploads';
+
+export const runtime = 'nodejs';
+
+/**
+ * Issue an upload target for one file: the browser PUTs the bytes there
+ * (straight to S3, or to the local upload route), then POSTs the returned
+ * key to /api/admin/uploads/finalize.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await requireAdminRequest(req, { mutation: true });
+  } catch (err) {
+    return adminErrorResponse(err) ?? NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { prefix?: unknown; contentType?: unknown; size?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const contentType = String(body.contentType ?? '');
+  if (!DIRECT_UPLOAD_TYPES.includes(contentType)) {
+    return NextResponse.json(
+      { error: 'Unsupported file type: upload a JPEG, PNG, WebP or GIF image' },
+      { status: 415 }
+    );
+  }
+
+  const size = Number(body.size);
+  if (!Number.isInteger(size) || size <= 0) {
+    return NextResponse.json({ error: 'size must be the file size in bytes' }, { status: 400 });
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ error: 'File too large (max 10MB).' }, { status: 413 });
+  }
+
+  const key = stagingKey(uploadPrefix(body.prefix));
+  try {
+    const target = await storage.createUploadTarget(key, { contentType, size });
+    return NextResponse.json({ key, ...target });
+  } catch (err) {
+    console.error('admin upload: could not create upload target', err);
+    return NextResponse.json({ error: 'Could not create upload target' }, { status: 500 });
+  }
+}
@@ -1,13 +1,12 @@
 import { NextResponse, type NextRequest } from 'next/server';
 import { randomUUID } from 'node:crypto';
-import { putObject } from '@eve/storage';
+import { UploadModel } from '@eve/db';
+import { putObject, UploadRejectedError, validateImageUpload, type ValidatedImage } from '@eve/storage';
 import { adminErrorResponse, requireAdminRequest } from '../../../../lib/security';
+import { MAX_UPLOAD_BYTES, uploadPrefix } from '../../../../lib/uploads';
 
 export const runtime = 'nodejs';
 
-const MAX_BYTES = 10 * 1024 * 1024;
-const ALLOWED_MIME = new Set(['image/jpeg', 'image/png', 'image/webp', 'image/gif']);
-
 export async function POST(req: NextRequest) {
   try {
     await requireAdminRequest(req, { mutation: true });
@@ -27,25 +26,26 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'No file uploaded under field "file"' }, { status: 400 });
   }
 
-  if (file.size > MAX_BYTES) {
+  if (file.size > MAX_UPLOAD_BYTES) {
     return NextResponse.json({ error: 'File too large (max 10MB).' }, { status: 413 });
   }
-  if (!ALLOWED_MIME.has(file.type)) {
-    return NextResponse.json({ error: `Unsupported MIME type: ${file.type}` }, { status: 415 });
-  }
-
-  const prefixRaw = String(fd.get('prefix') ?? 'misc');
-  const prefix = prefixRaw.replace(/[^a-z0-9_-]/gi, '').toLowerCase().slice(0, 16) || 'misc';
 
-  const ext = file.name.includes('.')
-    ? file.name.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 8)
-    : (file.type.split('/')[1] ?? 'bin');
+  // The declared type and name are the client's claim; the stored format,
+  // extension and content type come from the bytes.
+  const buf = Buffer.from(await file.arrayBuffer());
+  let image: ValidatedImage;
+  try {
+    image = await validateImageUpload(buf);
+  } catch (err) {
+    const status = err instanceof UploadRejectedError ? err.status : 400;
+    return NextResponse.json({ error: (err as Error).message }, { status });
+  }
 
-  const key = `${prefix}/${randomUUID()}.${ext}`;
+  const key = `${uploadPrefix(fd.get('prefix'))}/${randomUUID()}.${image.extension}`;
 
   try {
-    const buf = Buffer.from(await file.arrayBuffer());
-    const result = await putObject(buf, { key, contentType: file.type });
+    const result = await putObject(buf, { key, contentType: image.contentType });
+    await UploadModel.record({ ...result, contentType: image.contentType });
     return NextResponse.json(result);
   } catch (err) {
     console.error('admin upload: storage write failed', err);
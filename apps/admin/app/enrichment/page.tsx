@@ -0,0 +1,118 @@
+import Link from 'next/link';
+import { EnrichmentProposalModel } from '@eve/db';
+import { acceptProposal, rejectProposal, rematchPlace } from '../../lib/actions/enrichment';
+
+function formatPriceLevel(level: number | null): string {
+  if (level === null) return '—';
+  return level === 0 ? 'Free' : '$'.repeat(level);
+}
+
+function RematchForm({ placeId, defaultQuery }: { placeId: string; defaultQuery: string }) {
+  return (
+    <form action={rematchPlace} className="flex items-center gap-2">
+      <input type="hidden" name="place_id" value={placeId} />
+      <input
+        name="search_query"
+        defaultValue={defaultQuery}
+        aria-label="Search query"
+        className="flex-1 min-w-0 p-2 rounded-input bg-paper border border-hairline focus:outline-none focus:border-accent ui text-sm"
+      />
+      <button type="submit" className="ui text-sm uppercase text-ink3 hover:text-ink">Re-match</button>
+    </form>
+  );
+}
+
+export default async function EnrichmentPage() {
+  const [proposals, rejected] = await Promise.all([
+    EnrichmentProposalModel.findPending(),
+    EnrichmentProposalModel.findRejectedPlaces(),
+  ]);
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <h1 className="text-3xl">Enrichment</h1>
+        <p className="ui text-sm text-ink3">
+          Google matches from the enrichment script. Nothing reaches a place until it is accepted.
+          Re-match sends the place back to the next run with a different search.
+        </p>
+      </div>
+
+      <section className="space-y-4">
+        <h2 className="ui text-xs uppercase text-ink3">Awaiting review ({proposals.length})</h2>
+        {proposals.length === 0 && (
+          <p className="ui text-sm text-ink3">Nothing to review.</p>
+        )}
+        <ul className="divide-y divide-hairline">
+          {proposals.map((p) => (
+            <li key={p.id} className="py-4 space-y-3">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="min-w-0">
+                  <span className="ui text-xs uppercase text-ink3 block">Ours</span>
+                  <Link href={`/places/${p.place_id}/edit`} className="block truncate hover:text-accent">{p.place_name}</Link>
+                  <span className="ui text-xs text-ink3 block truncate">{p.place_address ?? 'no address'}</span>
+                </div>
+                <div className="min-w-0">
+                  <span className="ui text-xs uppercase text-ink3 block">Google</span>
+                  <span className="block truncate">{p.matched_name ?? 'unnamed'}</span>
+                  <span className="ui text-xs text-ink3 block truncate">{p.matched_address ?? 'no address'}</span>
+                </div>
+              </div>
+
+              <div className="ui text-xs text-ink3 space-y-1">
+                <div>Price: {formatPriceLevel(p.google_price_level)}</div>
+                {p.hours_json?.weekdayDescriptions?.length ? (
+                  <ul>
+                    {p.hours_json.weekdayDescriptions.map((line) => <li key={line}>{line}</li>)}
+                  </ul>
+                ) : (
+                  <div>No hours</div>
+                )}
+                <div>Searched: {p.search_query}</div>
+              </div>
+
+              {p.conflicting_place_name && (
+                <p className="ui text-xs" style={{ color: '#C44' }}>
+                  This Google place is already linked to {p.conflicting_place_name}. Reject or re-match it.
+                </p>
+              )}
+
+              <div className="flex items-center gap-4">
+                {!p.conflicting_place_name && (
+                  <form action={acceptProposal}>
+                    <input type="hidden" name="id" value={p.id} />
+                    <button type="submit" className="ui text-sm uppercase bg-ink text-paper px-4 py-2 rounded-input">Accept</button>
+                  </form>
+                )}
+                <form action={rejectProposal}>
+                  <input type="hidden" name="id" value={p.id} />
+                  <button type="submit" className="ui text-sm uppercase" style={{ color: '#C44' }}>Reject</button>
+                </form>
+                <div className="flex-1">
+                  <RematchForm placeId={p.place_id} defaultQuery={p.search_query} />
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      {rejected.length > 0 && (
+        <section className="space-y-4">
+          <h2 className="ui text-xs uppercase text-ink3">Rejected ({rejected.length})</h2>
+          <ul className="divide-y divide-hairline">
+            {rejected.map((place) => (
+              <li key={place.id} className="py-3 space-y-2">
+                <Link href={`/places/${place.id}/edit`} className="block truncate hover:text-accent">{place.name}</Link>
+                <RematchForm
+                  placeId={place.id}
+                  defaultQuery={place.enrichment_query ?? [place.name, place.address].filter(Boolean).join(', ')}
+                />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
+import Link from 'next/link';
 import { notFound } from 'next/navigation';
-import { PlaceForm } from '../../../../components/PlaceForm';
+import { EditPlaceForm } from '../../../../components/EditPlaceForm';
 import { PrevNextNav } from '../../../../components/PrevNextNav';
 import { DeleteButton } from '../../../../components/DeleteButton';
-import { PlaceModel, TagModel, NeighborhoodModel } from '@eve/db';
-import { updatePlace, deletePlace } from '../../../../lib/actions/places';
+import { PlaceModel, TagModel, NeighborhoodModel, trashRetentionDays } from '@eve/db';
+import { updatePlace, deletePlace, discardPlaceDraft, applyStatusProposal, dismissStatusProposal } from '../../../../lib/actions/places';
+import { toEasternInputValue } from '../../../../lib/easternTime';
+import { publishStatus, withDraft } from '../../../../lib/placeDraft';
+import { PLACE_STATUS_LABELS } from '../../../../lib/placeStatus';
 
 export default async function EditPlacePage({
   params,
@@ -28,29 +32,37 @@ export default async function EditPlacePage({
   const prev = idx > 0 ? allPlaces[idx - 1] : null;
   const next = idx >= 0 && idx < allPlaces.length - 1 ? allPlaces[idx + 1] : null;
 
+  // The form edits the pending draft when there is one.
+  const editing = withDraft(place);
   const tagValueToTag = new Map(tags.map((t) => [t.value, t]));
-  const selectedTags = (place.tags ?? [])
+  const selectedTags = (editing.tags ?? [])
     .map((v: string) => tagValueToTag.get(v))
     .filter((t): t is (typeof tags)[number] => Boolean(t));
 
   const update = updatePlace.bind(null, place.id);
 
   const defaultValues = {
-    name: place.name,
-    address: place.address ?? '',
-    cross_street: place.cross_street ?? '',
-    phone: place.phone ?? '',
-    url: place.url ?? '',
-    neighborhood_id: place.neighborhood_id,
-    photo_url: place.photo_url ?? '',
-    photo_credit: place.photo_credit ?? '',
-    specials: place.specials ?? '',
-    notes: place.notes ?? '',
-    pitch: place.pitch ?? '',
-    perfect: place.perfect ?? '',
-    insider: place.insider ?? '',
-    vibe: place.vibe ?? '',
-    crowd: place.crowd ?? '',
+    name: editing.name,
+    slug: editing.slug,
+    address: editing.address ?? '',
+    cross_street: editing.cross_street ?? '',
+    phone: editing.phone ?? '',
+    url: editing.url ?? '',
+    neighborhood_id: editing.neighborhood_id,
+    photo_url: editing.photo_url ?? '',
+    photo_credit: editing.photo_credit ?? '',
+    specials: editing.specials ?? '',
+    notes: editing.notes ?? '',
+    pitch: editing.pitch ?? '',
+    perfect: editing.perfect ?? '',
+    insider: editing.insider ?? '',
+    vibe: editing.vibe ?? '',
+    crowd: editing.crowd ?? '',
+    lat: editing.lat != null ? String(editing.lat) : '',
+    lng: editing.lng != null ? String(editing.lng) : '',
+    location_source: editing.location_source ?? null,
+    status: editing.status ?? 'open',
+    reopens_on: editing.reopens_on ?? '',
   };
 
   return (
@@ -61,14 +73,55 @@ export default async function EditPlacePage({
         position={`${idx + 1} of ${allPlaces.length}`}
       />
       <div className="flex items-center justify-between">
-        <h1 className="text-3xl">{place.name}</h1>
-        <DeleteButton action={deletePlace} id={place.id} confirmText="Delete this place? This cannot be undone." />
+        <div>
+          <h1 className="text-3xl">{place.name}</h1>
+          <p className="ui text-xs uppercase text-ink3">{publishStatus(place)}</p>
+        </div>
+        <div className="flex items-center gap-4">
+          {place.published_at && (place.draft || place.publish_at) && (
+            <DeleteButton
+              action={discardPlaceDraft}
+              id={place.id}
+              label="Discard draft"
+              confirmText="Discard the unpublished changes? The live version stays as it is."
+            />
+          )}
+          <Link href={`/places/${place.id}/events`} className="ui text-sm uppercase text-ink3 hover:text-ink">Events</Link>
+          <Link href={`/places/${place.id}/history`} className="ui text-sm uppercase text-ink3 hover:text-ink">History</Link>
+          <DeleteButton action={deletePlace} id={place.id} confirmText={`Move this place to the trash? It can be restored for ${trashRetentionDays()} days.`} />
+        </div>
       </div>
-      <PlaceForm
+      {place.proposed_status && (
+        <section className="rounded-card border border-hairline bg-paper2 p-4 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-ink2">
+            Google now lists this place as <strong>{PLACE_STATUS_LABELS[place.proposed_status].toLowerCase()}</strong>.
+            It is marked {PLACE_STATUS_LABELS[place.status ?? 'open'].toLowerCase()} here.
+          </p>
+          <div className="flex items-center gap-4">
+            <form action={applyStatusProposal}>
+              <input type="hidden" name="id" value={place.id} />
+              <button type="submit" className="ui text-sm uppercase bg-ink text-paper px-4 py-2 rounded-input">
+                Mark {PLACE_STATUS_LABELS[place.proposed_status].toLowerCase()}
+              </button>
+            </form>
+            <form action={dismissStatusProposal}>
+              <input type="hidden" name="id" value={place.id} />
+              <button type="submit" className="ui text-sm uppercase text-ink3 hover:text-ink">Dismiss</button>
+            </form>
+          </div>
+        </section>
+      )}
+      <EditPlaceForm
         action={update}
+        version={place.version ?? 1}
+        published={Boolean(place.published_at)}
+        publishAt={place.publish_at ? toEasternInputValue(place.publish_at) : ''}
         defaultValues={defaultValues}
         allTags={tags.map((t) => ({ id: t.id, value: t.value, display: t.display }))}
         selectedTags={selectedTags.map((t) => ({ id: t.id, value: t.value, display: t.display }))}
+        specials={editing.specials_schedule ?? []}
+        hoursOverrides={editing.hours_overrides ?? []}
+        googleHoursOverrides={place.hours_json?.overrides ?? []}
         neighborhoods={neighborhoods.map((n) => ({ id: n.id, value: n.value, display: n.display }))}
         showEditorial={showEditorial}
       />
@@ -0,0 +1,39 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { EventModel } from '@eve/db';
+import { EventForm } from '../../../../../../components/EventForm';
+import { DeleteButton } from '../../../../../../components/DeleteButton';
+import { updateEvent, deleteEvent } from '../../../../../../lib/actions/events';
+import { toEasternInputValue } from '../../../../../../lib/easternTime';
+
+export default async function EditEventPage({
+  params,
+}: {
+  params: Promise<{ id: string; eventId: string }>;
+}) {
+  const { id, eventId } = await params;
+  const event = await EventModel.findById(eventId);
+  if (!event || event.place_id !== id) notFound();
+  const update = updateEvent.bind(null, event.id);
+  return (
+    <div className="space-y-4">
+      <Link href={`/places/${id}/events`} className="ui text-sm text-ink3 hover:text-ink">← Events</Link>
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl">{event.title}</h1>
+        <DeleteButton action={deleteEvent} id={event.id} confirmText={`Delete ${event.title}? This cannot be undone.`} />
+      </div>
+      <EventForm
+        action={update}
+        defaultValues={{
+          title: event.title,
+          description: event.description ?? '',
+          starts_at: toEasternInputValue(event.starts_at),
+          ends_at: event.ends_at ? toEasternInputValue(event.ends_at) : '',
+          weekly: event.recurrence === 'weekly',
+          recurrence_until: event.recurrence_until ? toEasternInputValue(event.recurrence_until).slice(0, 10) : '',
+          tags: event.tags,
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { PlaceModel } from '@eve/db';
+import { EventForm } from '../../../../../components/EventForm';
+import { createEvent } from '../../../../../lib/actions/events';
+
+export default async function NewEventPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const place = await PlaceModel.findById(id);
+  if (!place) notFound();
+  const create = createEvent.bind(null, place.id);
+  return (
+    <div className="space-y-4">
+      <Link href={`/places/${place.id}/events`} className="ui text-sm text-ink3 hover:text-ink">← {place.name} events</Link>
+      <h1 className="text-3xl">New event</h1>
+      <EventForm action={create} />
+    </div>
+  );
+}
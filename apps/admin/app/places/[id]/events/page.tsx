@@ -0,0 +1,62 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { PlaceModel, EventModel } from '@eve/db';
+import { EVE_TIMEZONE } from '@eve/shared-types';
+import { DeleteButton } from '../../../../components/DeleteButton';
+import { deleteEvent } from '../../../../lib/actions/events';
+import { EVENT_TAGS } from '../../../../lib/events';
+
+const TAG_LABELS = new Map(EVENT_TAGS.map((t) => [t.value, t.label]));
+
+function formatTimestamp(date: Date): string {
+  return date.toLocaleString('en-US', {
+    timeZone: EVE_TIMEZONE,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { timeZone: EVE_TIMEZONE, dateStyle: 'medium' });
+}
+
+export default async function PlaceEventsPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const [place, events] = await Promise.all([
+    PlaceModel.findById(id),
+    EventModel.findForPlace(id),
+  ]);
+  if (!place) notFound();
+
+  return (
+    <div className="space-y-4">
+      <Link href={`/places/${place.id}/edit`} className="ui text-sm text-ink3 hover:text-ink">← {place.name}</Link>
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl">Events</h1>
+        <Link href={`/places/${place.id}/events/new`} className="ui text-sm uppercase bg-ink text-paper px-4 py-2 rounded-input">+ New</Link>
+      </div>
+      {events.length === 0 && (
+        <p className="ui text-sm text-ink3">No events yet.</p>
+      )}
+      <ul className="divide-y divide-hairline">
+        {events.map((e) => (
+          <li key={e.id} className="py-3 flex items-center gap-3">
+            <Link href={`/places/${place.id}/events/${e.id}/edit`} className="flex-1 min-w-0 block">
+              <span className="block truncate">{e.title}</span>
+              <span className="ui text-xs text-ink3 block">
+                {e.recurrence === 'weekly' ? 'Weekly from ' : ''}{formatTimestamp(e.starts_at)}
+                {e.recurrence_until && ` until ${formatDate(e.recurrence_until)}`}
+                {e.tags.length > 0 && ` · ${e.tags.map((t) => TAG_LABELS.get(t) ?? t).join(', ')}`}
+              </span>
+            </Link>
+            <DeleteButton action={deleteEvent} id={e.id} confirmText={`Delete ${e.title}? This cannot be undone.`} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { PlaceModel, NeighborhoodModel, RevisionModel, type Revision } from '@eve/db';
+import { EVE_TIMEZONE } from '@eve/shared-types';
+import { revertPlace } from '../../../../lib/actions/places';
+import { describeSpecial } from '../../../../lib/specials';
+import { describeHoursOverride } from '../../../../lib/hoursOverrides';
+import { PLACE_STATUS_LABELS } from '../../../../lib/placeStatus';
+
+const ACTION_LABELS: Record<Revision['action'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  delete: 'Moved to trash',
+  revert: 'Reverted',
+  restore: 'Restored from trash',
+  publish: 'Published',
+};
+
+function formatTimestamp(date: Date): string {
+  return date.toLocaleString('en-US', {
+    timeZone: EVE_TIMEZONE,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+export default async function PlaceHistoryPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const [place, revisions, neighborhoods] = await Promise.all([
+    PlaceModel.findById(id),
+    RevisionModel.findForEntity('place', id),
+    NeighborhoodModel.findAll(),
+  ]);
+  if (!place) notFound();
+
+  const neighborhoodNames = new Map(neighborhoods.map((n) => [n.id, n.display]));
+  const revisionTimes = new Map(revisions.map((r) => [r.id, r.created_at]));
+
+  function formatValue(field: string, value: unknown): string {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'neighborhood_id') return neighborhoodNames.get(String(value)) ?? String(value);
+    if (field === 'status') return PLACE_STATUS_LABELS[value as keyof typeof PLACE_STATUS_LABELS] ?? String(value);
+    if (field === 'specials_schedule' && Array.isArray(value)) {
+      return value.length ? value.map(describeSpecial).join('\n') : '—';
+    }
+    if (field === 'hours_overrides' && Array.isArray(value)) {
+      return value.length ? value.map(describeHoursOverride).join('\n') : '—';
+    }
+    if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+    return String(value);
+  }
+
+  return (
+    <div className="space-y-4">
+      <Link href={`/places/${place.id}/edit`} className="ui text-sm text-ink3 hover:text-ink">← {place.name}</Link>
+      <h1 className="text-3xl">History</h1>
+      {revisions.length === 0 && (
+        <p className="ui text-sm text-ink3">No recorded changes yet.</p>
+      )}
+      <ul className="divide-y divide-hairline">
+        {revisions.map((r, i) => {
+          const revertedFrom = r.reverted_revision_id ? revisionTimes.get(r.reverted_revision_id) : undefined;
+          return (
+            <li key={r.id} className="py-4 space-y-2">
+              <div className="flex items-center gap-3">
+                <span className="flex-1 ui text-sm">
+                  {ACTION_LABELS[r.action]} by {r.actor_name ?? 'a script'} · {formatTimestamp(r.created_at)}
+                  {revertedFrom && <span className="text-ink3"> (to {formatTimestamp(revertedFrom)})</span>}
+                </span>
+                {i > 0 && r.action !== 'delete' && r.action !== 'restore' && r.action !== 'publish' && (
+                  <form action={revertPlace}>
+                    <input type="hidden" name="revision_id" value={r.id} />
+                    <button type="submit" className="ui text-xs uppercase text-ink3 hover:text-ink">Revert to this</button>
+                  </form>
+                )}
+              </div>
+              <dl className="ui text-xs grid grid-cols-[8rem_1fr] gap-x-3 gap-y-1">
+                {Object.entries(r.changes).map(([field, change]) => (
+                  <div key={field} className="contents">
+                    <dt className="uppercase text-ink3">{field.replace(/_/g, ' ')}</dt>
+                    <dd className="whitespace-pre-wrap break-words">
+                      {r.action !== 'create' && (
+                        <span className="line-through text-ink3">{formatValue(field, change.before)}</span>
+                      )}
+                      {r.action !== 'create' && ' → '}
+                      {formatValue(field, change.after)}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
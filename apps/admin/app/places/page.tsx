@@ -1,8 +1,10 @@
 import Link from 'next/link';
-import { PlaceModel, NeighborhoodModel } from '@eve/db';
+import { PlaceModel, NeighborhoodModel, trashRetentionDays } from '@eve/db';
 import { SearchInput } from '../../components/SearchInput';
 import { DeleteButton } from '../../components/DeleteButton';
 import { deletePlace } from '../../lib/actions/places';
+import { publishStatus } from '../../lib/placeDraft';
+import { PLACE_STATUS_LABELS } from '../../lib/placeStatus';
 
 export default async function PlacesPage({
   searchParams,
@@ -18,12 +20,16 @@ export default async function PlacesPage({
     NeighborhoodModel.findAll(),
   ]);
   const nameById = new Map(neighborhoods.map((n) => [n.id, n.display]));
+  const retentionDays = trashRetentionDays();
 
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl">Places</h1>
-        <Link href="/places/new" className="ui text-sm uppercase bg-ink text-paper px-4 py-2 rounded-input">+ New</Link>
+        <div className="flex items-center gap-4">
+          <Link href="/places/trash" className="ui text-sm uppercase text-ink3 hover:text-ink">Trash</Link>
+          <Link href="/places/new" className="ui text-sm uppercase bg-ink text-paper px-4 py-2 rounded-input">+ New</Link>
+        </div>
       </div>
       <SearchInput initialValue={q} />
       <ul className="divide-y divide-hairline">
@@ -32,14 +38,16 @@ export default async function PlacesPage({
             <Link href={`/places/${p.id}/edit`} className="flex-1 min-w-0 block">
               <span className="block truncate">{p.name}</span>
               <span className="ui text-xs text-ink3 truncate block">
-                {p.address ?? 'no address'} · {nameById.get(p.neighborhood_id) ?? '—'}
+                {p.address ?? 'no address'} · {nameById.get(p.neighborhood_id) ?? '—'} · {publishStatus(p)}
+                {p.status && p.status !== 'open' && ` · ${PLACE_STATUS_LABELS[p.status]}`}
+                {p.proposed_status && ' · status change to review'}
               </span>
             </Link>
             <DeleteButton
               action={deletePlace}
               id={p.id}
               label="Delete"
-              confirmText={`Delete ${p.name}? This cannot be undone.`}
+              confirmText={`Move ${p.name} to the trash? It can be restored for ${retentionDays} days.`}
             />
           </li>
         ))}
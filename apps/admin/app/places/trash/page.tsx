@@ -0,0 +1,54 @@
+import Link from 'next/link';
+import { PlaceModel, trashRetentionDays } from '@eve/db';
+import { DeleteButton } from '../../../components/DeleteButton';
+import { purgePlace, restorePlace } from '../../../lib/actions/places';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default async function TrashPage() {
+  const places = await PlaceModel.findTrashed();
+  const retentionDays = trashRetentionDays();
+  const now = Date.now();
+
+  function daysLeft(deletedAt: Date): number {
+    return Math.max(0, Math.ceil((deletedAt.getTime() + retentionDays * DAY_MS - now) / DAY_MS));
+  }
+
+  return (
+    <div className="space-y-4">
+      <Link href="/places" className="ui text-sm text-ink3 hover:text-ink">← Places</Link>
+      <div className="space-y-1">
+        <h1 className="text-3xl">Trash</h1>
+        <p className="ui text-sm text-ink3">
+          Deleted places are kept for {retentionDays} days, then removed for good. Restoring brings back their tags too.
+        </p>
+      </div>
+      <ul className="divide-y divide-hairline">
+        {places.map((p) => (
+          <li key={p.id} className="py-3 flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <span className="block truncate">{p.name}</span>
+              <span className="ui text-xs text-ink3 truncate block">
+                {p.tags.length > 0 ? p.tags.join(', ') : 'no tags'}
+                {p.deleted_at && ` · ${daysLeft(p.deleted_at)} day(s) left`}
+              </span>
+            </div>
+            <form action={restorePlace}>
+              <input type="hidden" name="id" value={p.id} />
+              <button type="submit" className="ui text-sm uppercase text-ink3 hover:text-ink">Restore</button>
+            </form>
+            <DeleteButton
+              action={purgePlace}
+              id={p.id}
+              label="Delete forever"
+              confirmText={`Permanently delete ${p.name}? This cannot be undone.`}
+            />
+          </li>
+        ))}
+      </ul>
+      {places.length === 0 && (
+        <p className="ui text-sm text-ink3">The trash is empty.</p>
+      )}
+    </div>
+  );
+}
@@ -8,14 +8,25 @@ export default async function EditTagPage({ params }: { params: Promise<{ id: st
   const { id } = await params;
   const tag = await TagModel.findById(id);
   if (!tag) notFound();
+  const parents = await TagModel.getPotentialParents(tag.id);
   const update = updateTag.bind(null, tag.id);
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl">{tag.display}</h1>
-        <DeleteButton action={deleteTag} id={tag.id} confirmText="Delete this tag? Places tagged with it lose the tag." />
+        <DeleteButton
+          action={deleteTag}
+          id={tag.id}
+          confirmText={tag.has_children
+            ? 'Delete this group? Places tagged with it lose the tag; its child tags become standalone.'
+            : 'Delete this tag? Places tagged with it lose the tag.'}
+        />
       </div>
-      <TagForm action={update} defaultValues={{ display: tag.display, value: tag.value }} />
+      <TagForm
+        action={update}
+        defaultValues={{ display: tag.display, value: tag.value, parent_tag_id: tag.parent_tag_id }}
+        parentOptions={parents.map((p) => ({ id: p.id, display: p.display }))}
+      />
     </div>
   );
 }
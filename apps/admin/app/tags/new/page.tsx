@@ -1,11 +1,13 @@
+import { TagModel } from '@eve/db';
 import { TagForm } from '../../../components/TagForm';
 import { createTag } from '../../../lib/actions/tags';
 
-export default function NewTagPage() {
+export default async function NewTagPage() {
+  const parents = await TagModel.getPotentialParents();
   return (
     <div className="space-y-4">
       <h1 className="text-3xl">New tag</h1>
-      <TagForm action={createTag} />
+      <TagForm action={createTag} parentOptions={parents.map((p) => ({ id: p.id, display: p.display }))} />
     </div>
   );
 }
@@ -5,7 +5,7 @@ import Link from 'next/link';
 import { SortableList } from '../../components/SortableList';
 import { reorderTags } from '../../lib/actions/tags';
 
-interface Tag { id: string; value: string; display: string; sort_order: number; }
+interface Tag { id: string; value: string; display: string; sort_order: number; parent_tag_id: string | null; }
 
 const basePath = process.env.NEXT_PUBLIC_BASE_PATH ?? '';
 
@@ -19,6 +19,8 @@ export default function TagsPage() {
       .then((rows: Tag[]) => setTags(rows));
   }, []);
 
+  const displayById = new Map(tags.map((t) => [t.id, t.display]));
+
   const onReorder = (next: Tag[]) => {
     setTags(next);
     startTransition(() => { void reorderTags(next.map((t) => t.id)); });
@@ -38,6 +40,9 @@ export default function TagsPage() {
             <span {...handle} className="ui text-ink3 cursor-grab select-none px-2">⋮⋮</span>
             <Link href={`/tags/${t.id}/edit`} className="flex-1 hover:text-accent">
               {t.display} <span className="ui text-xs text-ink3">{t.value}</span>
+              {t.parent_tag_id && (
+                <span className="ui text-xs text-ink3"> · in {displayById.get(t.parent_tag_id) ?? 'group'}</span>
+              )}
             </Link>
           </>
         )}
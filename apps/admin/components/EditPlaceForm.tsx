@@ -0,0 +1,78 @@
+'use client';
+
+import { useActionState, type ComponentProps } from 'react';
+import { PlaceForm } from './PlaceForm';
+import type { UpdatePlaceState } from '../lib/placeConflict';
+
+type PlaceFormProps = ComponentProps<typeof PlaceForm>;
+
+interface Props extends Omit<PlaceFormProps, 'action' | 'version'> {
+  action: (state: UpdatePlaceState, formData: FormData) => Promise<UpdatePlaceState>;
+  version: number;
+}
+
+/**
+ * PlaceForm for an existing place. When someone else saved the place after
+ * this form was loaded, the save is refused and the form comes back with the
+ * editor's own values, a diff against the newer version, and that version as
+ * the new baseline, so saving again is a deliberate overwrite.
+ */
+export function EditPlaceForm({ action, version, defaultValues, selectedTags, ...rest }: Props) {
+  const [state, formAction] = useActionState(action, null);
+  const conflict = state?.conflict;
+
+  if (!conflict) {
+    return (
+      <PlaceForm
+        {...rest}
+        action={formAction}
+        version={version}
+        defaultValues={defaultValues}
+        selectedTags={selectedTags}
+      />
+    );
+  }
+
+  const tagsById = new Map(rest.allTags.map((t) => [t.id, t]));
+  return (
+    <div className="space-y-4">
+      <section className="rounded-card border border-hairline bg-paper2 p-4 space-y-3">
+        <div>
+          <h2 className="text-2xl">Someone else saved this place</h2>
+          <p className="mt-1 text-sm text-ink2">
+            {conflict.savedBy ?? 'Someone'} saved a newer version{conflict.savedAt && ` on ${conflict.savedAt}`}. Nothing of yours was saved.
+            Your edits are still in the form below; saving again replaces the newer version with them.
+          </p>
+        </div>
+        {conflict.fields.length === 0 ? (
+          <p className="ui text-sm text-ink3">Your edits match the newer version.</p>
+        ) : (
+          <dl className="ui text-xs grid grid-cols-[8rem_1fr_1fr] gap-x-3 gap-y-1">
+            <dt className="uppercase text-ink3">Field</dt>
+            <dd className="uppercase text-ink3">Yours</dd>
+            <dd className="uppercase text-ink3">Saved</dd>
+            {conflict.fields.map((f) => (
+              <div key={f.field} className="contents">
+                <dt className="uppercase text-ink3">{f.label}</dt>
+                <dd className="whitespace-pre-wrap break-words">{f.mine || '—'}</dd>
+                <dd className="whitespace-pre-wrap break-words text-ink3">{f.saved || '—'}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </section>
+      <PlaceForm
+        {...rest}
+        key={conflict.version}
+        action={formAction}
+        version={conflict.version}
+        defaultValues={{ ...conflict.values, location_source: defaultValues?.location_source ?? null }}
+        specials={conflict.specials}
+        hoursOverrides={conflict.hoursOverrides}
+        selectedTags={conflict.tagIds
+          .map((id) => tagsById.get(id))
+          .filter((t): t is (typeof rest.allTags)[number] => Boolean(t))}
+      />
+    </div>
+  );
+}
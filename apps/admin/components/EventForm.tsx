@@ -0,0 +1,71 @@
+import type { EventTag } from '@eve/shared-types';
+import { EVENT_TAGS } from '../lib/events';
+
+interface Props {
+  action: (fd: FormData) => void;
+  /** Datetimes are Eastern Time datetime-local values; recurrence_until is a date. */
+  defaultValues?: {
+    title: string;
+    description: string;
+    starts_at: string;
+    ends_at: string;
+    weekly: boolean;
+    recurrence_until: string;
+    tags: EventTag[];
+  };
+}
+
+const inputClass = 'w-full mt-1 p-3 rounded-input bg-paper border border-hairline focus:outline-none focus:border-accent';
+
+const EMPTY = { title: '', description: '', starts_at: '', ends_at: '', weekly: false, recurrence_until: '', tags: [] };
+
+export function EventForm({ action, defaultValues = EMPTY }: Props) {
+  const v = defaultValues;
+  return (
+    <form action={action} className="space-y-4">
+      <label className="block">
+        <span className="ui text-xs uppercase text-ink3">Title</span>
+        <input name="title" required defaultValue={v.title} placeholder="Jazz trio" className={inputClass} />
+      </label>
+      <label className="block">
+        <span className="ui text-xs uppercase text-ink3">Description</span>
+        <textarea name="description" rows={3} defaultValue={v.description} className={inputClass} />
+      </label>
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="block">
+          <span className="ui text-xs uppercase text-ink3">Starts (Eastern)</span>
+          <input type="datetime-local" name="starts_at" required defaultValue={v.starts_at} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="ui text-xs uppercase text-ink3">Ends (Eastern, optional)</span>
+          <input type="datetime-local" name="ends_at" defaultValue={v.ends_at} className={inputClass} />
+        </label>
+      </div>
+      <div className="grid gap-4 md:grid-cols-2 items-end">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" name="weekly" defaultChecked={v.weekly} />
+          <span className="ui text-sm">Repeats weekly</span>
+        </label>
+        <label className="block">
+          <span className="ui text-xs uppercase text-ink3">Weekly until (optional)</span>
+          <input type="date" name="recurrence_until" defaultValue={v.recurrence_until} className={inputClass} />
+        </label>
+      </div>
+      <fieldset>
+        <legend className="ui text-xs uppercase text-ink3">Tags</legend>
+        <div className="mt-1 flex flex-wrap gap-3">
+          {EVENT_TAGS.map((t) => (
+            <label key={t.value} className="flex items-center gap-1">
+              <input type="checkbox" name="tags" value={t.value} defaultChecked={v.tags.includes(t.value)} />
+              <span className="ui text-sm">{t.label}</span>
+            </label>
+          ))}
+        </div>
+        <p className="ui text-xs text-ink3 mt-1">Live music and DJ events drive the app&rsquo;s music signal.</p>
+      </fieldset>
+      <div className="pt-2 border-t border-hairline">
+        <button type="submit" className="ui text-sm uppercase bg-ink text-paper px-4 py-2 rounded-input">Save</button>
+      </div>
+    </form>
+  );
+}
@@ -13,6 +13,7 @@ export function Header() {
           <Link href="/places" className="hover:text-accent">Places</Link>
           <Link href="/tags" className="hover:text-accent">Tags</Link>
           <Link href="/neighborhoods" className="hover:text-accent">Neighborhoods</Link>
+          <Link href="/enrichment" className="hover:text-accent">Enrichment</Link>
         </nav>
         <form action={logoutAction} className="ml-auto">
           <button type="submit" className="ui text-xs uppercase text-ink3 hover:text-ink">
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import type { HoursOverride } from '@eve/shared-types';
+import { describeHoursOverride } from '../lib/hoursOverrides';
+
+interface Props {
+  name: string;
+  initial: HoursOverride[];
+  /** Google's special days from enrichment, shown for reference. */
+  fromGoogle?: HoursOverride[];
+}
+
+// Editing state: times as typed, kept while "closed" is ticked so unticking
+// it brings them back.
+interface Row {
+  key: number;
+  date: string;
+  closed: boolean;
+  open_time: string;
+  close_time: string;
+  note: string;
+}
+
+const inputClass = 'p-2 rounded-input bg-paper border border-hairline focus:outline-none focus:border-accent';
+
+let nextKey = 0;
+
+function toRow(override: HoursOverride): Row {
+  return {
+    key: nextKey++,
+    date: override.date,
+    closed: override.closed,
+    open_time: override.open_time ?? '',
+    close_time: override.close_time ?? '',
+    note: override.note ?? '',
+  };
+}
+
+/**
+ * Date-specific hours (holiday closures, late nights) for a place. Posts them
+ * as JSON in a hidden input; lib/hoursOverrides.ts readHoursOverrides
+ * validates them.
+ */
+export function HoursOverridesEditor({ name, initial, fromGoogle = [] }: Props) {
+  const [rows, setRows] = useState<Row[]>(() => initial.map(toRow));
+
+  function update(key: number, patch: Partial<Row>) {
+    setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+  }
+
+  const payload = rows.map(({ key: _key, ...row }) => ({
+    ...row,
+    open_time: row.closed ? null : row.open_time,
+    close_time: row.closed ? null : row.close_time,
+  }));
+
+  return (
+    <div className="space-y-3">
+      <input type="hidden" name={name} value={JSON.stringify(payload)} />
+      {rows.map((row) => (
+        <div key={row.key} className="rounded-input border border-hairline bg-paper p-3 flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            aria-label="Date"
+            value={row.date}
+            onChange={(e) => update(row.key, { date: e.target.value })}
+            className={inputClass}
+          />
+          <label className="ui text-xs uppercase text-ink3 flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={row.closed}
+              onChange={(e) => update(row.key, { closed: e.target.checked })}
+            />
+            Closed
+          </label>
+          <input
+            type="time"
+            aria-label="Opens"
+            value={row.open_time}
+            disabled={row.closed}
+            onChange={(e) => update(row.key, { open_time: e.target.value })}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+          <span className="ui text-xs text-ink3">to</span>
+          <input
+            type="time"
+            aria-label="Closes"
+            value={row.close_time}
+            disabled={row.closed}
+            onChange={(e) => update(row.key, { close_time: e.target.value })}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+          <input
+            value={row.note}
+            placeholder="Thanksgiving"
+            aria-label="Note"
+            onChange={(e) => update(row.key, { note: e.target.value })}
+            className={`${inputClass} flex-1 min-w-[8rem]`}
+          />
+          <button
+            type="button"
+            onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+            className="ui text-xs text-ink3 hover:text-ink px-2"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => setRows((prev) => [...prev, toRow({
+          date: '',
+          closed: true,
+          open_time: null,
+          close_time: null,
+          note: null,
+        })])}
+        className="ui text-xs uppercase text-ink3 hover:text-ink"
+      >
+        + Add date
+      </button>
+      {fromGoogle.length > 0 && (
+        <div className="ui text-xs text-ink3">
+          <p className="uppercase">From Google</p>
+          <ul>
+            {fromGoogle.map((o) => <li key={o.date}>{describeHoursOverride(o)}</li>)}
+          </ul>
+        </div>
+      )}
+      <p className="ui text-xs text-ink3">
+        Eastern Time. Each date replaces the weekly hours for that day; a close before the open runs past midnight.
+        These win over Google&rsquo;s special days on the same date.
+      </p>
+    </div>
+  );
+}
@@ -12,33 +12,85 @@ interface Props {
   help?: string;
 }
 
+interface UploadTarget {
+  key: string;
+  url: string;
+  method: 'PUT';
+  headers: Record<string, string>;
+}
+
+async function errorMessage(res: Response): Promise<string> {
+  const body = await res.json().catch(() => ({ error: `Upload failed (${res.status})` }));
+  return body.error ?? 'Upload failed';
+}
+
+function postJson(path: string, body: unknown): Promise<Response> {
+  return fetch(`${basePath}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    credentials: 'same-origin',
+  });
+}
+
+// XMLHttpRequest rather than fetch: fetch reports no upload progress.
+function sendFile(target: UploadTarget, file: File, onProgress: (fraction: number) => void): Promise<void> {
+  // The local backend's target is a route in this app; S3's is absolute.
+  const url = target.url.startsWith('/') ? `${basePath}${target.url}` : target.url;
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(target.method, url);
+    for (const [header, value] of Object.entries(target.headers)) xhr.setRequestHeader(header, value);
+    xhr.upload.onprogress = (e) => { if (e.lengthComputable) onProgress(e.loaded / e.total); };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) { resolve(); return; }
+      let message = `Upload failed (${xhr.status})`;
+      try { message = JSON.parse(xhr.responseText).error ?? message; } catch { /* S3 answers in XML */ }
+      reject(new Error(message));
+    };
+    xhr.onerror = () => reject(new Error('Upload failed: network error'));
+    xhr.send(file);
+  });
+}
+
 export function PhotoUpload({ name, prefix, initialUrl, label, help }: Props) {
   const [url, setUrl] = useState(initialUrl ?? '');
   const [error, setError] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
+  // Fraction of the file sent; null once it is all sent and the server is processing it.
+  const [progress, setProgress] = useState<number | null>(null);
   const fileRef = useRef<HTMLInputElement>(null);
 
+  // The file goes straight to storage: ask for an upload target, PUT the
+  // bytes there, then have the server validate and process them.
   const onPick = async (file: File) => {
     if (file.size > 10 * 1024 * 1024) { setError('File too large (max 10MB).'); return; }
     setError(null);
     setUploading(true);
+    setProgress(0);
     try {
-      const fd = new FormData();
-      fd.append('file', file);
-      fd.append('prefix', prefix);
-      const res = await fetch(`${basePath}/api/admin/uploads`, { method: 'POST', body: fd, credentials: 'same-origin' });
-      if (!res.ok) {
-        const body = await res.json().catch(() => ({ error: `Upload failed (${res.status})` }));
-        setError(body.error ?? 'Upload failed');
-        return;
-      }
+      const presign = await postJson('/api/admin/uploads/presign', { prefix, contentType: file.type, size: file.size });
+      if (!presign.ok) { setError(await errorMessage(presign)); return; }
+      const target: UploadTarget = await presign.json();
+
+      await sendFile(target, file, setProgress);
+      setProgress(null);
+
+      const res = await postJson('/api/admin/uploads/finalize', { key: target.key });
+      if (!res.ok) { setError(await errorMessage(res)); return; }
       const { url: newUrl } = await res.json();
       setUrl(newUrl);
+    } catch (err) {
+      setError((err as Error).message);
     } finally {
       setUploading(false);
+      setProgress(null);
     }
   };
 
+  const percent = progress === null ? null : Math.round(progress * 100);
+  const status = percent === null ? 'Processing…' : `Uploading… ${percent}%`;
+
   return (
     <div className="space-y-2">
       {label && <span className="ui text-xs uppercase text-ink3">{label}</span>}
@@ -55,11 +107,26 @@ export function PhotoUpload({ name, prefix, initialUrl, label, help }: Props) {
           // eslint-disable-next-line @next/next/no-img-element
           <img src={url} alt="" className="max-h-40 mx-auto rounded" />
         ) : (
-          <div className="ui text-sm text-ink3">{uploading ? 'Uploading…' : 'Drop image, tap to browse, or choose from photos (max 10MB)'}</div>
+          <div className="ui text-sm text-ink3">{uploading ? status : 'Drop image, tap to browse, or choose from photos (max 10MB)'}</div>
         )}
         <input ref={fileRef} type="file" accept="image/jpeg,image/png,image/webp,image/gif" hidden
                onChange={(e) => { if (e.target.files?.[0]) onPick(e.target.files[0]); }} />
       </div>
+      {uploading && (
+        <div>
+          <div
+            role="progressbar"
+            aria-label={status}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent ?? 100}
+            className="h-1 bg-hairline rounded overflow-hidden"
+          >
+            <div className="h-full bg-accent transition-[width]" style={{ width: `${percent ?? 100}%` }} />
+          </div>
+          {url && <p className="ui text-xs text-ink3 mt-1">{status}</p>}
+        </div>
+      )}
       <div className="flex flex-wrap gap-2">
         <button type="button" onClick={() => fileRef.current?.click()} className="ui text-xs uppercase bg-ink text-paper px-3 py-2 rounded-input">
           Take / choose photo
@@ -3,6 +3,10 @@
 import { PhotoUpload } from './PhotoUpload';
 import { TagPicker } from './TagPicker';
 import { NeighborhoodPicker } from './NeighborhoodPicker';
+import { SpecialsEditor } from './SpecialsEditor';
+import { HoursOverridesEditor } from './HoursOverridesEditor';
+import type { HoursOverride, PlaceSpecial, PlaceStatus } from '@eve/shared-types';
+import { PLACE_STATUS_LABELS } from '../lib/placeStatus';
 
 interface Tag { id: string; value: string; display: string; }
 interface Neighborhood { id: string; value: string; display: string; }
@@ -10,18 +14,32 @@ interface Neighborhood { id: string; value: string; display: string; }
 interface Props {
   action: (formData: FormData) => void;
   defaultValues?: Partial<{
-    name: string; address: string; cross_street: string; phone: string; url: string;
+    name: string; slug: string; address: string; cross_street: string; phone: string; url: string;
     neighborhood_id: string; photo_url: string; photo_credit: string;
     specials: string; notes: string;
     pitch: string; perfect: string; insider: string; vibe: string; crowd: string;
+    lat: string; lng: string; location_source: 'google' | 'manual' | null;
+    status: PlaceStatus; reopens_on: string;
   }>;
   allTags: Tag[];
   selectedTags: Tag[];
+  /** Structured specials the editor starts with. */
+  specials?: PlaceSpecial[];
+  /** Admin hours overrides the editor starts with. */
+  hoursOverrides?: HoursOverride[];
+  /** Google's special days, shown next to the editor. */
+  googleHoursOverrides?: HoursOverride[];
   neighborhoods: Neighborhood[];
   showEditorial?: boolean;
+  /** The place version the form was loaded at; sent back so stale saves are refused. */
+  version?: number;
+  /** Whether the place is already live, so saving a draft leaves the public version alone. */
+  published?: boolean;
+  /** The scheduled publish time as an Eastern Time datetime-local value. */
+  publishAt?: string;
 }
 
-export function PlaceForm({ action, defaultValues = {}, allTags, selectedTags, neighborhoods }: Props) {
+export function PlaceForm({ action, defaultValues = {}, allTags, selectedTags, specials = [], hoursOverrides = [], googleHoursOverrides = [], neighborhoods, version, published = false, publishAt = '' }: Props) {
   const v = defaultValues;
   const defaultNeighborhood =
     v.neighborhood_id ||
@@ -43,6 +61,7 @@ export function PlaceForm({ action, defaultValues = {}, allTags, selectedTags, n
 
   return (
     <form action={action} className="space-y-5">
+      {version !== undefined && <input type="hidden" name="expected_version" value={version} />}
       <div className="grid gap-5 lg:grid-cols-[minmax(0,1fr)_18rem] lg:items-start">
         <div className="space-y-5">
           <section className="rounded-card border border-hairline bg-paper2 p-4 md:p-5">
@@ -53,10 +72,48 @@ export function PlaceForm({ action, defaultValues = {}, allTags, selectedTags, n
             <div className="grid gap-3 md:grid-cols-2">
               <Field label="Name" name="name" defaultValue={v.name ?? ''} required />
               <NeighborhoodPicker name="neighborhood_id" options={neighborhoods} initialId={defaultNeighborhood} />
+              <Field
+                label="Slug"
+                name="slug"
+                defaultValue={v.slug ?? ''}
+                hint={v.slug ? 'Changing it keeps the old URL working as a redirect.' : 'Blank: made from the name and cross street.'}
+              />
               <Field label="Address" name="address" defaultValue={v.address ?? ''} />
               <Field label="Cross street" name="cross_street" defaultValue={v.cross_street ?? ''} />
               <Field label="Phone" name="phone" defaultValue={v.phone ?? ''} />
               <Field label="Website" name="url" defaultValue={v.url ?? ''} />
+              <Field label="Latitude" name="lat" defaultValue={v.lat ?? ''} hint={locationHint(v.location_source)} />
+              <Field label="Longitude" name="lng" defaultValue={v.lng ?? ''} />
+            </div>
+          </section>
+
+          <section className="rounded-card border border-hairline bg-paper2 p-4 md:p-5">
+            <SectionHeader
+              title="Status"
+              description="Closed places stay listed with a banner in the app instead of being deleted."
+            />
+            <div className="grid gap-3 md:grid-cols-2">
+              <label className="block">
+                <span className="ui text-xs uppercase text-ink3">Status</span>
+                <select
+                  name="status" defaultValue={v.status ?? 'open'}
+                  className="w-full mt-1 p-3 rounded-input bg-paper border border-hairline focus:outline-none focus:border-accent"
+                >
+                  {(Object.keys(PLACE_STATUS_LABELS) as PlaceStatus[]).map((status) => (
+                    <option key={status} value={status}>{PLACE_STATUS_LABELS[status]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="ui text-xs uppercase text-ink3">Reopens</span>
+                <input
+                  type="date"
+                  name="reopens_on"
+                  defaultValue={v.reopens_on ?? ''}
+                  className="w-full mt-1 p-3 rounded-input bg-paper border border-hairline focus:outline-none focus:border-accent"
+                />
+                <span className="ui text-xs text-ink3 block mt-1">Only kept while temporarily closed. Blank: unknown.</span>
+              </label>
             </div>
           </section>
 
@@ -79,11 +136,27 @@ export function PlaceForm({ action, defaultValues = {}, allTags, selectedTags, n
             </div>
           </section>
 
+          <section className="rounded-card border border-hairline bg-paper2 p-4 md:p-5">
+            <SectionHeader
+              title="Specials schedule"
+              description="Days and times for happy hours and recurring deals, so the app can tell when they are on."
+            />
+            <SpecialsEditor name="specials_schedule" initial={specials} />
+          </section>
+
+          <section className="rounded-card border border-hairline bg-paper2 p-4 md:p-5">
+            <SectionHeader
+              title="Holiday hours"
+              description="Closures and special hours on specific dates, so the app does not call the place open on Thanksgiving."
+            />
+            <HoursOverridesEditor name="hours_overrides" initial={hoursOverrides} fromGoogle={googleHoursOverrides} />
+          </section>
+
           <section className="rounded-card border border-hairline bg-paper2 p-4 md:p-5">
             <SectionHeader
               title="Photo"
               description="Nicholas adds images from camera, photo library, or file upload. No pasted image URLs."
-              badge="Crop/resize planned"
+              badge="Crop planned"
             />
             <div className="grid gap-4 md:grid-cols-[minmax(0,18rem)_1fr]">
               <PhotoUpload
@@ -91,14 +164,14 @@ export function PlaceForm({ action, defaultValues = {}, allTags, selectedTags, n
                 prefix="place"
                 initialUrl={v.photo_url ?? null}
                 label="Place image"
-                help="Next phase: save app-ready crops for list thumbnails and detail hero images."
+                help="Uploads are turned upright, stripped of location data and resized for the app, with WebP copies."
               />
               <div className="space-y-3">
                 <Field label="Photo credit" name="photo_credit" defaultValue={v.photo_credit ?? ''} />
                 <div className="rounded-input border border-hairline bg-paper p-3">
                   <p className="ui text-xs uppercase text-ink3">Tracked next</p>
                   <p className="mt-1 text-sm text-ink2">
-                    Automatic resize, crop presets, and focal-point adjustment will be added after the safe upload-only flow is in place.
+                    Crop presets and focal-point adjustment for list thumbnails and detail hero images.
                   </p>
                 </div>
               </div>
@@ -144,14 +217,40 @@ export function PlaceForm({ action, defaultValues = {}, allTags, selectedTags, n
         </aside>
       </div>
 
-      <div className="sticky bottom-0 -mx-4 flex items-center gap-3 border-t border-hairline bg-paper/95 px-4 py-3 md:static md:mx-0 md:bg-transparent md:px-0 md:pt-4">
-        <button type="submit" className="ui text-sm uppercase bg-ink text-paper px-4 py-2 rounded-input">Save</button>
-        <span className="ui text-xs uppercase text-ink3">Safe for old web and mobile fallbacks</span>
+      <div className="sticky bottom-0 -mx-4 flex flex-wrap items-center gap-3 border-t border-hairline bg-paper/95 px-4 py-3 md:static md:mx-0 md:bg-transparent md:px-0 md:pt-4">
+        {/* First in order, so pressing Enter in a field saves a draft rather than publishing. */}
+        <button type="submit" name="intent" value="draft" className="ui text-sm uppercase border border-hairline px-4 py-2 rounded-input">
+          Save draft
+        </button>
+        <button type="submit" name="intent" value="publish" className="ui text-sm uppercase bg-ink text-paper px-4 py-2 rounded-input">
+          {published ? 'Publish changes' : 'Publish'}
+        </button>
+        <label className="flex items-center gap-2">
+          <span className="ui text-xs uppercase text-ink3">Publish at (ET)</span>
+          <input
+            type="datetime-local"
+            name="publish_at"
+            defaultValue={publishAt}
+            className="ui text-sm border border-hairline bg-paper px-2 py-1 rounded-input"
+          />
+        </label>
+        <button type="submit" name="intent" value="schedule" className="ui text-sm uppercase text-ink3 hover:text-ink">
+          Schedule
+        </button>
+        <span className="ui text-xs uppercase text-ink3">
+          {published ? 'Drafts stay off the live listing' : 'Not public until published'}
+        </span>
       </div>
     </form>
   );
 }
 
+function locationHint(source: 'google' | 'manual' | null | undefined): string {
+  if (source === 'google') return 'From Google. Editing makes it manual.';
+  if (source === 'manual') return 'Set manually. The geocoder leaves it alone.';
+  return 'Blank: filled by the geocoder.';
+}
+
 function SectionHeader({ title, description, badge }: { title: string; description: string; badge?: string }) {
   return (
     <div className="mb-4 flex flex-col gap-2 md:flex-row md:items-start md:justify-between">
@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import type { PlaceSpecial } from '@eve/shared-types';
+import { DAY_NAMES } from '../lib/specials';
+
+interface Props {
+  name: string;
+  initial: PlaceSpecial[];
+}
+
+// Editing state: price as typed, so a half-typed "4." survives re-renders.
+interface Row extends Omit<PlaceSpecial, 'price' | 'end_time'> {
+  key: number;
+  end_time: string;
+  price: string;
+}
+
+const inputClass = 'p-2 rounded-input bg-paper border border-hairline focus:outline-none focus:border-accent';
+
+let nextKey = 0;
+
+function toRow(special: PlaceSpecial): Row {
+  return {
+    ...special,
+    key: nextKey++,
+    end_time: special.end_time ?? '',
+    price: special.price !== null ? String(special.price) : '',
+  };
+}
+
+/**
+ * Structured specials (happy hours, weekly deals) for a place. Posts them as
+ * JSON in a hidden input; lib/specials.ts readSpecials validates them.
+ */
+export function SpecialsEditor({ name, initial }: Props) {
+  const [rows, setRows] = useState<Row[]>(() => initial.map(toRow));
+
+  function update(key: number, patch: Partial<Row>) {
+    setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+  }
+
+  const payload = rows.map(({ key: _key, price, ...row }) => ({
+    ...row,
+    price: price.trim() === '' ? null : Number(price),
+  }));
+
+  return (
+    <div className="space-y-3">
+      <input type="hidden" name={name} value={JSON.stringify(payload)} />
+      {rows.map((row) => (
+        <div key={row.key} className="rounded-input border border-hairline bg-paper p-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-1">
+            {DAY_NAMES.map((day, i) => {
+              const on = row.days.includes(i);
+              return (
+                <button
+                  key={day}
+                  type="button"
+                  aria-pressed={on}
+                  onClick={() => update(row.key, { days: on ? row.days.filter((d) => d !== i) : [...row.days, i].sort((a, b) => a - b) })}
+                  className={`ui text-xs uppercase px-2 py-1 rounded-chip ${on ? 'bg-ink text-paper' : 'text-ink3 hover:text-ink'}`}
+                >
+                  {day}
+                </button>
+              );
+            })}
+            <button
+              type="button"
+              onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+              className="ui text-xs text-ink3 hover:text-ink px-2 ml-auto"
+            >
+              ×
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="time"
+              aria-label="Starts"
+              value={row.start_time}
+              onChange={(e) => update(row.key, { start_time: e.target.value })}
+              className={inputClass}
+            />
+            <span className="ui text-xs text-ink3">to</span>
+            <input
+              type="time"
+              aria-label="Ends"
+              value={row.end_time}
+              disabled={row.until_close}
+              onChange={(e) => update(row.key, { end_time: e.target.value })}
+              className={`${inputClass} disabled:opacity-50`}
+            />
+            <label className="ui text-xs uppercase text-ink3 flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={row.until_close}
+                onChange={(e) => update(row.key, { until_close: e.target.checked })}
+              />
+              Until close
+            </label>
+          </div>
+          <div className="grid gap-2 md:grid-cols-[minmax(0,1fr)_7rem]">
+            <input
+              value={row.description}
+              placeholder="Half-price drafts"
+              aria-label="Description"
+              onChange={(e) => update(row.key, { description: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              value={row.price}
+              inputMode="decimal"
+              placeholder="Price ($)"
+              aria-label="Price in dollars"
+              onChange={(e) => update(row.key, { price: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => setRows((prev) => [...prev, toRow({
+          days: [1, 2, 3, 4, 5],
+          start_time: '16:00',
+          end_time: '19:00',
+          until_close: false,
+          description: '',
+          price: null,
+        })])}
+        className="ui text-xs uppercase text-ink3 hover:text-ink"
+      >
+        + Add special
+      </button>
+      <p className="ui text-xs text-ink3">
+        Eastern Time. An end before the start runs past midnight. The mobile app uses these for happy-hour signals and
+        only falls back to the Specials text when there are none.
+      </p>
+    </div>
+  );
+}
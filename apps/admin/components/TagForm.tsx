@@ -1,9 +1,13 @@
+interface ParentOption { id: string; display: string; }
+
 interface Props {
   action: (fd: FormData) => void;
-  defaultValues?: { display: string; value: string };
+  defaultValues?: { display: string; value: string; parent_tag_id?: string | null };
+  /** Top-level tags this one may be grouped under. The picker is hidden when empty. */
+  parentOptions?: ParentOption[];
 }
 
-export function TagForm({ action, defaultValues = { display: '', value: '' } }: Props) {
+export function TagForm({ action, defaultValues = { display: '', value: '' }, parentOptions = [] }: Props) {
   return (
     <form action={action} className="space-y-4">
       <label className="block">
@@ -22,6 +26,20 @@ export function TagForm({ action, defaultValues = { display: '', value: '' } }:
           className="w-full mt-1 p-3 rounded-input bg-paper border border-hairline focus:outline-none focus:border-accent"
         />
       </label>
+      {parentOptions.length > 0 && (
+        <label className="block">
+          <span className="ui text-xs uppercase text-ink3">Group</span>
+          <select
+            name="parent_tag_id" defaultValue={defaultValues.parent_tag_id ?? ''}
+            className="w-full mt-1 p-3 rounded-input bg-paper border border-hairline focus:outline-none focus:border-accent"
+          >
+            <option value="">None (top-level tag)</option>
+            {parentOptions.map((p) => (
+              <option key={p.id} value={p.id}>{p.display}</option>
+            ))}
+          </select>
+        </label>
+      )}
       <div className="pt-2 border-t border-hairline">
         <button type="submit" className="ui text-sm uppercase bg-ink text-paper px-4 py-2 rounded-input">Save</button>
       </div>
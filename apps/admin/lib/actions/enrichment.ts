@@ -0,0 +1,57 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { EnrichmentProposalModel } from '@eve/db';
+import { requireAdminMutation } from '../security';
+
+// Another admin got there first, or the match is already linked elsewhere
+// (the queue flags that case); the refreshed page shows the current state.
+function isStaleReviewError(err: unknown): boolean {
+  return err instanceof Error && (
+    err.message.startsWith('Proposal not found') ||
+    err.message.startsWith('Place not found') ||
+    err.message.startsWith('Google place already linked')
+  );
+}
+
+function refresh() {
+  revalidatePath('/enrichment');
+  revalidatePath('/places');
+}
+
+export async function acceptProposal(formData: FormData) {
+  const session = await requireAdminMutation();
+  const id = String(formData.get('id') ?? '');
+  if (!id) return;
+  try {
+    await EnrichmentProposalModel.accept(id, session.userId);
+  } catch (err) {
+    if (!isStaleReviewError(err)) throw err;
+  }
+  refresh();
+}
+
+export async function rejectProposal(formData: FormData) {
+  const session = await requireAdminMutation();
+  const id = String(formData.get('id') ?? '');
+  if (!id) return;
+  try {
+    await EnrichmentProposalModel.reject(id, session.userId);
+  } catch (err) {
+    if (!isStaleReviewError(err)) throw err;
+  }
+  refresh();
+}
+
+export async function rematchPlace(formData: FormData) {
+  const session = await requireAdminMutation();
+  const placeId = String(formData.get('place_id') ?? '');
+  const searchQuery = String(formData.get('search_query') ?? '').trim() || null;
+  if (!placeId) return;
+  try {
+    await EnrichmentProposalModel.rematch(placeId, searchQuery, session.userId);
+  } catch (err) {
+    if (!isStaleReviewError(err)) throw err;
+  }
+  refresh();
+}
@@ -0,0 +1,37 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import { EventModel } from '@eve/db';
+import { requireAdminMutation } from '../security';
+import { readEventForm } from '../events';
+
+export async function createEvent(placeId: string, formData: FormData) {
+  await requireAdminMutation();
+  const data = readEventForm(formData);
+  if (!data) return;
+  await EventModel.create({ ...data, place_id: placeId });
+  revalidatePath(`/places/${placeId}/events`);
+  redirect(`/places/${placeId}/events`);
+}
+
+export async function updateEvent(id: string, formData: FormData) {
+  await requireAdminMutation();
+  const data = readEventForm(formData);
+  if (!data) return;
+  const event = await EventModel.update(id, data);
+  if (!event) return;
+  revalidatePath(`/places/${event.place_id}/events`);
+  redirect(`/places/${event.place_id}/events`);
+}
+
+export async function deleteEvent(formData: FormData) {
+  await requireAdminMutation();
+  const id = String(formData.get('id') ?? '');
+  if (!id) return;
+  const event = await EventModel.findById(id);
+  if (!event) return;
+  await EventModel.delete(id);
+  revalidatePath(`/places/${event.place_id}/events`);
+  redirect(`/places/${event.place_id}/events`);
+}
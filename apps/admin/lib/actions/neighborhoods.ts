@@ -19,42 +19,52 @@ async function uniqueSlug(base: string): Promise<string> {
 }
 
 export async function createNeighborhood(formData: FormData) {
-  await requireAdminMutation();
+  const session = await requireAdminMutation();
   const display = String(formData.get('display') ?? '').trim();
   const valueRaw = String(formData.get('value') ?? '').trim();
   const isDefault = formData.get('is_default') === 'on';
   if (!display) return;
   const value = await uniqueSlug(valueRaw ? slugify(valueRaw) : slugify(display));
-  await NeighborhoodModel.create({ value, display, is_default: isDefault });
+  await NeighborhoodModel.create(
+    { value, display, is_default: isDefault },
+    { actorId: session.userId },
+  );
   revalidatePath('/neighborhoods');
   redirect('/neighborhoods');
 }
 
 export async function updateNeighborhood(id: string, formData: FormData) {
-  await requireAdminMutation();
+  const session = await requireAdminMutation();
   const display = String(formData.get('display') ?? '').trim();
   const value = String(formData.get('value') ?? '').trim();
   const isDefault = formData.get('is_default') === 'on';
-  await NeighborhoodModel.update(id, { display, value, is_default: isDefault });
+  await NeighborhoodModel.update(
+    id,
+    { display, value, is_default: isDefault },
+    { actorId: session.userId },
+  );
   revalidatePath('/neighborhoods');
   redirect('/neighborhoods');
 }
 
 export async function deleteNeighborhood(formData: FormData) {
-  await requireAdminMutation();
+  const session = await requireAdminMutation();
   const id = String(formData.get('id') ?? '');
   if (!id) return;
-  await NeighborhoodModel.delete(id);
+  await NeighborhoodModel.delete(id, { actorId: session.userId });
   revalidatePath('/neighborhoods');
   redirect('/neighborhoods');
 }
 
 export async function createNeighborhoodInline(display: string): Promise<{ id: string; value: string; display: string } | null> {
-  await requireAdminMutation();
+  const session = await requireAdminMutation();
   const trimmed = display.trim();
   if (!trimmed) return null;
   const value = await uniqueSlug(slugify(trimmed));
-  const n = await NeighborhoodModel.create({ value, display: trimmed });
+  const n = await NeighborhoodModel.create(
+    { value, display: trimmed },
+    { actorId: session.userId },
+  );
   revalidatePath('/neighborhoods');
   return { id: n.id, value: n.value, display: n.display };
 }
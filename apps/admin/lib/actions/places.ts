@@ -2,7 +2,14 @@
 
 import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
-import { PlaceModel, TagModel } from '@eve/db';
+import { NeighborhoodModel, PlaceModel, RevisionModel, TagModel, type HoursOverride, type PlaceSpecial } from '@eve/db';
+import { EVE_TIMEZONE } from '@eve/shared-types';
+import { fromEasternInputValue } from '../easternTime';
+import { diffPlaceForm, PLACE_FORM_FIELDS, type PlaceConflict, type UpdatePlaceState } from '../placeConflict';
+import { withDraft } from '../placeDraft';
+import { readSpecials } from '../specials';
+import { readHoursOverrides } from '../hoursOverrides';
+import { readPlaceStatus } from '../placeStatus';
 import { requireAdminMutation } from '../security';
 
 function readTagIds(formData: FormData): string[] {
@@ -23,9 +30,25 @@ async function tagValuesForIds(ids: string[]): Promise<string[]> {
     .filter((v): v is string => Boolean(v));
 }
 
+// Blank clears the coordinate; anything unparseable or out of range is
+// undefined so the stored value is left alone rather than wiped.
+function readCoordinate(formData: FormData, name: string, limit: number): number | null | undefined {
+  const raw = String(formData.get(name) ?? '').trim();
+  if (!raw) return null;
+  const value = Number(raw);
+  return Number.isFinite(value) && Math.abs(value) <= limit ? value : undefined;
+}
+
+function readLocation(formData: FormData): { lat?: number | null; lng?: number | null } {
+  const lat = readCoordinate(formData, 'lat', 90);
+  const lng = readCoordinate(formData, 'lng', 180);
+  return lat === undefined || lng === undefined ? {} : { lat, lng };
+}
+
 function readForm(formData: FormData) {
   return {
     name: String(formData.get('name') ?? '').trim(),
+    slug: String(formData.get('slug') ?? '').trim() || undefined,
     address: String(formData.get('address') ?? '').trim() || undefined,
     cross_street: String(formData.get('cross_street') ?? '').trim() || undefined,
     phone: String(formData.get('phone') ?? '').trim() || undefined,
@@ -40,34 +63,181 @@ function readForm(formData: FormData) {
     insider: String(formData.get('insider') ?? '') || undefined,
     vibe: String(formData.get('vibe') ?? '') || undefined,
     crowd: String(formData.get('crowd') ?? '') || undefined,
+    specials_schedule: formData.has('specials_schedule')
+      ? readSpecials(String(formData.get('specials_schedule')))
+      : undefined,
+    hours_overrides: formData.has('hours_overrides')
+      ? readHoursOverrides(String(formData.get('hours_overrides')))
+      : undefined,
+    ...readLocation(formData),
+    ...readPlaceStatus(formData),
+  };
+}
+
+// Which submit button was used: keep as a draft, schedule, or publish now.
+// `publishAt` is the Eastern Time schedule for 'schedule', otherwise null; a
+// schedule without a valid time saves as a plain draft.
+function readPublishIntent(formData: FormData): { publishNow: boolean; publishAt: Date | null } {
+  const intent = String(formData.get('intent') ?? '');
+  return {
+    publishNow: intent === 'publish',
+    publishAt: intent === 'schedule' ? fromEasternInputValue(String(formData.get('publish_at') ?? '')) : null,
   };
 }
 
 export async function createPlace(formData: FormData) {
-  await requireAdminMutation();
+  const session = await requireAdminMutation();
   const f = readForm(formData);
   if (!f.name) return;
   const tags = await tagValuesForIds(readTagIds(formData));
-  await PlaceModel.create({ ...f, tags });
+  const { publishNow, publishAt } = readPublishIntent(formData);
+  const context = { actorId: session.userId };
+  const place = await PlaceModel.create({ ...f, tags }, context);
+  if (publishNow) {
+    await PlaceModel.publish(place.id, undefined, context);
+  } else if (publishAt) {
+    await PlaceModel.saveDraft(place.id, {}, { ...context, publishAt });
+  }
   revalidatePath('/places');
   redirect('/places');
 }
 
-export async function updatePlace(id: string, formData: FormData) {
-  await requireAdminMutation();
+function readVersion(formData: FormData): number | undefined {
+  const version = Number(formData.get('expected_version'));
+  return Number.isInteger(version) && version > 0 ? version : undefined;
+}
+
+// The place changed after the form was loaded: describe what this save would
+// overwrite so the editor can merge and resubmit against the new version.
+async function loadConflict(
+  id: string,
+  formData: FormData,
+  tagIds: string[],
+  tags: string[],
+  specials: PlaceSpecial[],
+  hoursOverrides: HoursOverride[]
+): Promise<PlaceConflict | null> {
+  const [saved, revisions, neighborhoods, allTags] = await Promise.all([
+    PlaceModel.findById(id),
+    RevisionModel.findForEntity('place', id),
+    NeighborhoodModel.findAll(),
+    TagModel.findAll(),
+  ]);
+  if (!saved) return null;
+
+  const values: Record<string, string> = {};
+  for (const [field] of PLACE_FORM_FIELDS) {
+    values[field] = String(formData.get(field) ?? '');
+  }
+  return {
+    version: saved.version ?? 1,
+    // Draft saves on a live place touch neither updated_at nor the
+    // revisions, so those only describe the newer version without a draft.
+    savedAt: saved.draft
+      ? null
+      : saved.updated_at.toLocaleString('en-US', { timeZone: EVE_TIMEZONE, dateStyle: 'medium', timeStyle: 'short' }),
+    savedBy: saved.draft ? null : revisions[0]?.actor_name ?? null,
+    fields: diffPlaceForm(withDraft(saved), values, tags, specials, hoursOverrides, {
+      neighborhoods: new Map(neighborhoods.map((n) => [n.id, n.display])),
+      tags: new Map(allTags.map((t) => [t.value, t.display])),
+    }),
+    values,
+    tagIds,
+    specials,
+    hoursOverrides,
+  };
+}
+
+export async function updatePlace(id: string, _state: UpdatePlaceState, formData: FormData): Promise<UpdatePlaceState> {
+  const session = await requireAdminMutation();
   const f = readForm(formData);
-  const tags = await tagValuesForIds(readTagIds(formData));
-  await PlaceModel.update(id, { ...f, tags });
+  const tagIds = readTagIds(formData);
+  const tags = await tagValuesForIds(tagIds);
+  const { publishNow, publishAt } = readPublishIntent(formData);
+  const options = { actorId: session.userId, expectedVersion: readVersion(formData) };
+  try {
+    if (publishNow) {
+      await PlaceModel.publish(id, { ...f, tags }, options);
+    } else {
+      await PlaceModel.saveDraft(id, { ...f, tags }, { ...options, publishAt });
+    }
+  } catch (err) {
+    if (!(err instanceof Error) || !err.message.startsWith('Edit conflict')) throw err;
+    const conflict = await loadConflict(id, formData, tagIds, tags, f.specials_schedule ?? [], f.hours_overrides ?? []);
+    if (conflict) return { conflict };
+  }
   revalidatePath('/places');
   revalidatePath(`/places/${id}/edit`);
   redirect('/places');
 }
 
-export async function deletePlace(formData: FormData) {
+export async function discardPlaceDraft(formData: FormData) {
   await requireAdminMutation();
   const id = String(formData.get('id') ?? '');
   if (!id) return;
-  await PlaceModel.delete(id);
+  await PlaceModel.discardDraft(id);
+  revalidatePath('/places');
+  redirect(`/places/${id}/edit`);
+}
+
+export async function deletePlace(formData: FormData) {
+  const session = await requireAdminMutation();
+  const id = String(formData.get('id') ?? '');
+  if (!id) return;
+  await PlaceModel.delete(id, { actorId: session.userId });
   revalidatePath('/places');
   redirect('/places');
 }
+
+export async function restorePlace(formData: FormData) {
+  const session = await requireAdminMutation();
+  const id = String(formData.get('id') ?? '');
+  if (!id) return;
+  await PlaceModel.restore(id, { actorId: session.userId });
+  revalidatePath('/places');
+  revalidatePath('/places/trash');
+}
+
+export async function purgePlace(formData: FormData) {
+  await requireAdminMutation();
+  const id = String(formData.get('id') ?? '');
+  if (!id) return;
+  await PlaceModel.purge(id);
+  revalidatePath('/places/trash');
+}
+
+export async function revertPlace(formData: FormData) {
+  const session = await requireAdminMutation();
+  const revisionId = String(formData.get('revision_id') ?? '');
+  if (!revisionId) return;
+  let place;
+  try {
+    place = await PlaceModel.revert(revisionId, { actorId: session.userId });
+  } catch (err) {
+    if (err instanceof Error && (err.message === 'Revision not found' || err.message === 'Place not found')) return;
+    throw err;
+  }
+  revalidatePath('/places');
+  revalidatePath(`/places/${place.id}/edit`);
+  redirect(`/places/${place.id}/history`);
+}
+
+export async function applyStatusProposal(formData: FormData) {
+  const session = await requireAdminMutation();
+  await resolveStatusProposal(formData, true, session.userId);
+}
+
+export async function dismissStatusProposal(formData: FormData) {
+  const session = await requireAdminMutation();
+  await resolveStatusProposal(formData, false, session.userId);
+}
+
+// Apply or drop the status an enrichment run proposed for a place.
+async function resolveStatusProposal(formData: FormData, accept: boolean, actorId: string) {
+  const id = String(formData.get('id') ?? '');
+  if (!id) return;
+  await PlaceModel.resolveStatusProposal(id, accept, { actorId });
+  revalidatePath('/places');
+  revalidatePath(`/places/${id}/edit`);
+  revalidatePath('/enrichment');
+}
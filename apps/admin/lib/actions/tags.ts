@@ -2,7 +2,7 @@
 
 import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
-import { TagModel } from '@eve/db';
+import { TagModel, TagParentError } from '@eve/db';
 import { requireAdminMutation } from '../security';
 
 function slugify(s: string): string {
@@ -13,6 +13,10 @@ function isValidSlug(value: string): boolean {
   return /^[a-z0-9-]+$/.test(value);
 }
 
+function readParentId(formData: FormData): string | null {
+  return String(formData.get('parent_tag_id') ?? '').trim() || null;
+}
+
 async function uniqueSlug(base: string): Promise<string> {
   let candidate = base;
   let i = 2;
@@ -23,51 +27,71 @@ async function uniqueSlug(base: string): Promise<string> {
 }
 
 export async function createTag(formData: FormData) {
-  await requireAdminMutation();
+  const session = await requireAdminMutation();
   const display = String(formData.get('display') ?? '').trim();
   const value = String(formData.get('value') ?? '').trim();
   if (!display || !value || !isValidSlug(value)) return;
   if (await TagModel.findByValue(value)) return;
-  await TagModel.create({ value, display, sort_order: 0 });
+  try {
+    await TagModel.create(
+      { value, display, sort_order: 0, parent_tag_id: readParentId(formData) },
+      { actorId: session.userId },
+    );
+  } catch (err) {
+    if (err instanceof TagParentError) return;
+    throw err;
+  }
   revalidatePath('/tags');
   redirect('/tags');
 }
 
 export async function updateTag(id: string, formData: FormData) {
-  await requireAdminMutation();
+  const session = await requireAdminMutation();
   const display = String(formData.get('display') ?? '').trim();
   const value = String(formData.get('value') ?? '').trim();
   if (!display || !value || !isValidSlug(value)) return;
   const existing = await TagModel.findByValue(value);
   if (existing && existing.id !== id) return;
-  await TagModel.update(id, { display, value });
+  try {
+    await TagModel.update(
+      id,
+      { display, value, parent_tag_id: readParentId(formData) },
+      { actorId: session.userId },
+    );
+  } catch (err) {
+    if (err instanceof TagParentError) return;
+    throw err;
+  }
   revalidatePath('/tags');
   redirect('/tags');
 }
 
 export async function deleteTag(formData: FormData) {
-  await requireAdminMutation();
+  const session = await requireAdminMutation();
   const id = String(formData.get('id') ?? '');
   if (!id) return;
-  await TagModel.delete(id);
+  await TagModel.delete(id, { actorId: session.userId });
   revalidatePath('/tags');
   redirect('/tags');
 }
 
 export async function reorderTags(orderedIds: string[]) {
-  await requireAdminMutation();
+  const session = await requireAdminMutation();
   for (let i = 0; i < orderedIds.length; i++) {
-    await TagModel.update(orderedIds[i]!, { sort_order: i });
+    await TagModel.update(orderedIds[i]!, { sort_order: i }, { actorId: session.userId });
   }
   revalidatePath('/tags');
 }
 
 export async function createTagInline(display: string): Promise<{ id: string; value: string; display: string } | null> {
-  await requireAdminMutation();
+  const session = await requireAdminMutation();
   const trimmed = display.trim();
   if (!trimmed) return null;
   const value = await uniqueSlug(slugify(trimmed));
-  const tag = await TagModel.create({ value, display: trimmed, sort_order: 9999 });
+  const tag = await TagModel.create(
+    { value, display: trimmed, sort_order: 9999 },
+    { actorId: session.userId },
+  );
   revalidatePath('/tags');
   return { id: tag.id, value: tag.value, display: tag.display };
 }
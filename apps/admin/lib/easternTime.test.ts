@@ -0,0 +1,79 @@
+/**
+ * Eastern Time datetime-local values — what the schedule and event forms
+ * post — to and from instants, across the DST switches.
+ *
+ * Test framework: Node built-in `node:test` + `node:assert`, loaded through
+ * tsx. Pure functions, no database.
+ *
+ * Run:
+ *   npm run test:lib -w @eve/admin
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fromEasternInputValue, toEasternInputValue } from './easternTime';
+
+function iso(value: string): string | undefined {
+  return fromEasternInputValue(value)?.toISOString();
+}
+
+describe('toEasternInputValue', () => {
+  it('formats an instant in Eastern Time', () => {
+    assert.equal(toEasternInputValue(new Date('2026-07-04T16:00:00Z')), '2026-07-04T12:00');
+    assert.equal(toEasternInputValue(new Date('2026-01-15T05:30:00Z')), '2026-01-15T00:30');
+  });
+
+  it('shows both occurrences of the repeated fall-back hour as 1 AM', () => {
+    assert.equal(toEasternInputValue(new Date('2026-11-01T05:30:00Z')), '2026-11-01T01:30');
+    assert.equal(toEasternInputValue(new Date('2026-11-01T06:30:00Z')), '2026-11-01T01:30');
+  });
+});
+
+describe('fromEasternInputValue', () => {
+  it('reads EDT in summer and EST in winter', () => {
+    assert.equal(iso('2026-07-04T12:00'), '2026-07-04T16:00:00.000Z');
+    assert.equal(iso('2026-01-15T00:30'), '2026-01-15T05:30:00.000Z');
+  });
+
+  it('round-trips with toEasternInputValue', () => {
+    for (const value of ['2026-03-08T01:59', '2026-03-08T03:00', '2026-11-01T00:59', '2026-11-01T02:00', '2028-02-29T23:59']) {
+      assert.equal(toEasternInputValue(fromEasternInputValue(value)!), value);
+    }
+  });
+
+  it('moves a time in the spring-forward gap an hour later', () => {
+    assert.equal(iso('2026-03-08T02:30'), '2026-03-08T07:30:00.000Z');
+    assert.equal(toEasternInputValue(fromEasternInputValue('2026-03-08T02:30')!), '2026-03-08T03:30');
+  });
+
+  it('reads a repeated fall-back time as its first (EDT) occurrence', () => {
+    assert.equal(iso('2026-11-01T01:30'), '2026-11-01T05:30:00.000Z');
+    assert.equal(iso('2026-11-01T02:00'), '2026-11-01T07:00:00.000Z');
+  });
+
+  it('does not depend on the server time zone', () => {
+    const tz = process.env.TZ;
+    process.env.TZ = 'Australia/Sydney';
+    try {
+      assert.equal(iso('2026-07-04T12:00'), '2026-07-04T16:00:00.000Z');
+    } finally {
+      if (tz === undefined) delete process.env.TZ;
+      else process.env.TZ = tz;
+    }
+  });
+
+  it('trims surrounding whitespace', () => {
+    assert.equal(iso(' 2026-07-04T12:00 '), '2026-07-04T16:00:00.000Z');
+  });
+
+  it('rejects malformed values', () => {
+    for (const value of ['', '2026-07-04', '2026-07-04 12:00', '2026-07-04T12:00:00', '7/4/2026 12:00']) {
+      assert.equal(fromEasternInputValue(value), null, value);
+    }
+  });
+
+  it('rejects days and times that do not exist instead of rolling them over', () => {
+    for (const value of ['2026-02-30T10:00', '2026-02-29T10:00', '2026-04-31T10:00', '2026-13-01T10:00', '2026-00-10T10:00', '2026-07-04T24:00', '2026-07-04T12:60']) {
+      assert.equal(fromEasternInputValue(value), null, value);
+    }
+  });
+});
@@ -0,0 +1,56 @@
+import { EVE_TIMEZONE } from '@eve/shared-types';
+
+const DATETIME_LOCAL_RE = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+const formatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: EVE_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+/** `date` as a datetime-local input value ("2025-03-09T09:00") in Eastern Time. */
+export function toEasternInputValue(date: Date): string {
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((p) => [p.type, p.value]));
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}`;
+}
+
+// Milliseconds Eastern Time is ahead of UTC at `time` (negative: -4h or -5h).
+function easternOffset(time: number): number {
+  const [date, clock] = toEasternInputValue(new Date(time)).split('T');
+  const [y, m, d] = date.split('-').map(Number);
+  const [h, min] = clock.split(':').map(Number);
+  return Date.UTC(y, m - 1, d, h, min) - Math.floor(time / 60_000) * 60_000;
+}
+
+/**
+ * The instant a datetime-local input value means in Eastern Time, whatever
+ * zone the server runs in; null when the value is malformed or names a day
+ * or time that does not exist ("2026-02-30T10:00", "T24:00"). A time in the
+ * spring-forward gap lands an hour later, and a repeated fall-back time
+ * means its first (EDT) occurrence.
+ */
+export function fromEasternInputValue(value: string): Date | null {
+  const match = DATETIME_LOCAL_RE.exec(value.trim());
+  if (!match) return null;
+  const [, y, m, d, h, min] = match.map(Number);
+  const wall = Date.UTC(y, m - 1, d, h, min);
+  // Date.UTC rolls out-of-range fields over (February 30 becomes March 2),
+  // so only accept the value if its fields survive the round trip.
+  const fields = new Date(wall);
+  if (
+    fields.getUTCFullYear() !== y || fields.getUTCMonth() !== m - 1 || fields.getUTCDate() !== d ||
+    fields.getUTCHours() !== h || fields.getUTCMinutes() !== min
+  ) {
+    return null;
+  }
+
+  // The offset at a first guess, then at the corrected time in case the
+  // guess fell on the other side of a DST switch.
+  const guess = wall - easternOffset(wall);
+  const corrected = wall - easternOffset(guess);
+  return new Date(toEasternInputValue(new Date(corrected)) === value.trim() ? corrected : guess);
+}
@@ -0,0 +1,43 @@
+import type { EventTag } from '@eve/shared-types';
+import type { EventInput } from '@eve/db';
+import { fromEasternInputValue } from './easternTime';
+
+export const EVENT_TAGS: { value: EventTag; label: string }[] = [
+  { value: 'live-music', label: 'Live music' },
+  { value: 'dj', label: 'DJ' },
+  { value: 'trivia', label: 'Trivia' },
+  { value: 'karaoke', label: 'Karaoke' },
+  { value: 'comedy', label: 'Comedy' },
+  { value: 'open-mic', label: 'Open mic' },
+  { value: 'sports', label: 'Sports' },
+  { value: 'other', label: 'Other' },
+];
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The fields EventForm posts, validated; null without a title or a valid
+ * start. Times are Eastern. An end at or before the start is dropped, and a
+ * weekly event's "until" date includes that whole day.
+ */
+export function readEventForm(formData: FormData): Omit<EventInput, 'place_id'> | null {
+  const title = String(formData.get('title') ?? '').trim();
+  const startsAt = fromEasternInputValue(String(formData.get('starts_at') ?? ''));
+  if (!title || !startsAt) return null;
+
+  const endsAt = fromEasternInputValue(String(formData.get('ends_at') ?? ''));
+  const weekly = formData.get('weekly') === 'on';
+  const until = String(formData.get('recurrence_until') ?? '').trim();
+  const untilAt = weekly && DATE_RE.test(until) ? fromEasternInputValue(`${until}T23:59`) : null;
+  const known = new Set<string>(EVENT_TAGS.map((t) => t.value));
+
+  return {
+    title,
+    description: String(formData.get('description') ?? '').trim() || null,
+    starts_at: startsAt,
+    ends_at: endsAt && endsAt > startsAt ? endsAt : null,
+    recurrence: weekly ? 'weekly' : null,
+    recurrence_until: untilAt && untilAt >= startsAt ? untilAt : null,
+    tags: formData.getAll('tags').map(String).filter((t): t is EventTag => known.has(t)),
+  };
+}
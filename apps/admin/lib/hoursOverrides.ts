@@ -0,0 +1,59 @@
+import type { HoursOverride } from '@eve/shared-types';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const CLOCK_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * The hours overrides posted by HoursOverridesEditor, validated and sorted by
+ * date. Rows without a valid date, or open rows without both times, are
+ * dropped rather than failing the whole save; a later row for the same date
+ * wins.
+ */
+export function readHoursOverrides(raw: string): HoursOverride[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  const byDate = new Map<string, HoursOverride>();
+  for (const row of parsed) {
+    if (!row || typeof row !== 'object') continue;
+    const r = row as Record<string, unknown>;
+
+    const date = typeof r.date === 'string' ? r.date : '';
+    const closed = r.closed === true;
+    const open = typeof r.open_time === 'string' ? r.open_time : '';
+    const close = typeof r.close_time === 'string' ? r.close_time : '';
+    const note = typeof r.note === 'string' ? r.note.trim() : '';
+
+    if (!DATE_RE.test(date) || Number.isNaN(Date.parse(date))) continue;
+    if (!closed && (!CLOCK_RE.test(open) || !CLOCK_RE.test(close))) continue;
+
+    byDate.set(date, {
+      date,
+      closed,
+      open_time: closed ? null : open,
+      close_time: closed ? null : close,
+      note: note || null,
+    });
+  }
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function formatClock(value: string): string {
+  const [h, m] = value.split(':').map(Number);
+  const suffix = h >= 12 ? 'PM' : 'AM';
+  const hour = h % 12 === 0 ? 12 : h % 12;
+  return m === 0 ? `${hour} ${suffix}` : `${hour}:${String(m).padStart(2, '0')} ${suffix}`;
+}
+
+/** One line per override, e.g. "2026-11-26 Closed · Thanksgiving". */
+export function describeHoursOverride(override: HoursOverride): string {
+  const hours = override.closed || !override.open_time || !override.close_time
+    ? 'Closed'
+    : `${formatClock(override.open_time)}–${formatClock(override.close_time)}`;
+  return `${override.date} ${hours}${override.note ? ` · ${override.note}` : ''}`;
+}
@@ -0,0 +1,140 @@
+/**
+ * diffPlaceForm — what the edit-conflict notice lists when a place changed
+ * after its form was loaded.
+ *
+ * Test framework: Node built-in `node:test` + `node:assert`, loaded through
+ * tsx. Pure function, no database.
+ *
+ * Run:
+ *   npm run test:lib -w @eve/admin
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { HoursOverride, Place, PlaceSpecial } from '@eve/db';
+import { diffPlaceForm } from './placeConflict';
+
+const NAMES = {
+  neighborhoods: new Map([['n1', 'East Village'], ['n2', 'West Village']]),
+  tags: new Map([['t1', 'Natural wine'], ['t2', 'Patio']]),
+};
+
+const HAPPY_HOUR: PlaceSpecial = {
+  days: [1, 2, 3, 4, 5],
+  start_time: '16:00',
+  end_time: '18:00',
+  until_close: false,
+  description: 'Half-price wine',
+  price: null,
+};
+
+const THANKSGIVING: HoursOverride = {
+  date: '2026-11-26',
+  closed: true,
+  open_time: null,
+  close_time: null,
+  note: 'Thanksgiving',
+};
+
+function savedPlace(overrides: Partial<Place> = {}): Place {
+  return {
+    id: 'p1',
+    name: 'Ruffian',
+    slug: 'ruffian',
+    status: 'open',
+    reopens_on: null,
+    neighborhood_id: 'n1',
+    address: '125 E 7th St',
+    cross_street: null,
+    phone: '2125550100',
+    url: null,
+    lat: 40.7261,
+    lng: -73.9839,
+    notes: null,
+    tags: ['t1'],
+    specials_schedule: [HAPPY_HOUR],
+    hours_overrides: [],
+    ...overrides,
+  } as unknown as Place;
+}
+
+// The form as it was loaded from savedPlace(), before any typing.
+function formValues(overrides: Record<string, string> = {}): Record<string, string> {
+  return {
+    name: 'Ruffian',
+    slug: 'ruffian',
+    status: 'open',
+    reopens_on: '',
+    neighborhood_id: 'n1',
+    address: '125 E 7th St',
+    phone: '2125550100',
+    lat: '40.7261',
+    lng: '-73.9839',
+    ...overrides,
+  };
+}
+
+function diff(
+  saved: Place,
+  values: Record<string, string>,
+  tags: string[] = ['t1'],
+  specials: PlaceSpecial[] = [HAPPY_HOUR],
+  hoursOverrides: HoursOverride[] = []
+) {
+  return diffPlaceForm(saved, values, tags, specials, hoursOverrides, NAMES);
+}
+
+describe('diffPlaceForm', () => {
+  it('reports nothing when the form matches the saved place', () => {
+    assert.deepEqual(diff(savedPlace(), formValues()), []);
+  });
+
+  it('compares values the way PlaceModel stores them', () => {
+    const values = formValues({ phone: '(212) 555-0100', slug: 'Ruffian', lat: '40.72610', lng: ' -73.9839 ' });
+    assert.deepEqual(diff(savedPlace(), values), []);
+  });
+
+  it('lists changed fields in form order with both values', () => {
+    const fields = diff(savedPlace({ name: 'Ruffian Wine Bar' }), formValues({ address: '125 East 7th St' }));
+    assert.deepEqual(fields, [
+      { field: 'name', label: 'Name', mine: 'Ruffian', saved: 'Ruffian Wine Bar' },
+      { field: 'address', label: 'Address', mine: '125 East 7th St', saved: '125 E 7th St' },
+    ]);
+  });
+
+  it('skips blank text fields, which a save leaves alone', () => {
+    assert.deepEqual(diff(savedPlace({ notes: 'Cash only' }), formValues({ notes: '', name: '  ' })), []);
+  });
+
+  it('reports a cleared location or reopening date', () => {
+    const saved = savedPlace({ status: 'temporarily_closed', reopens_on: '2026-12-01' });
+    const fields = diff(saved, formValues({ status: 'temporarily_closed', lat: '' }));
+    assert.deepEqual(fields.map((f) => f.field), ['reopens_on', 'lat']);
+    assert.equal(fields[0].saved, '2026-12-01');
+    assert.equal(fields[1].mine, '');
+  });
+
+  it('shows neighborhoods and statuses by name', () => {
+    const fields = diff(savedPlace({ status: 'permanently_closed' }), formValues({ neighborhood_id: 'n2' }));
+    assert.deepEqual(fields, [
+      { field: 'status', label: 'Status', mine: 'Open', saved: 'Permanently closed' },
+      { field: 'neighborhood_id', label: 'Neighborhood', mine: 'West Village', saved: 'East Village' },
+    ]);
+  });
+
+  it('reports tags by name, order included', () => {
+    const saved = savedPlace({ tags: ['t1', 't2'] });
+    assert.deepEqual(diff(saved, formValues(), ['t1', 't2']), []);
+    assert.deepEqual(diff(saved, formValues(), ['t2', 't1']), [
+      { field: 'tags', label: 'Tags', mine: 'Patio, Natural wine', saved: 'Natural wine, Patio' },
+    ]);
+  });
+
+  it('describes changed specials and holiday hours', () => {
+    const fields = diff(savedPlace(), formValues(), ['t1'], [], [THANKSGIVING]);
+    assert.deepEqual(fields.map((f) => f.field), ['specials_schedule', 'hours_overrides']);
+    assert.equal(fields[0].mine, '');
+    assert.match(fields[0].saved, /Half-price wine/);
+    assert.match(fields[1].mine, /^2026-11-26 Closed · Thanksgiving$/);
+    assert.equal(fields[1].saved, '');
+  });
+});
@@ -0,0 +1,116 @@
+import type { HoursOverride, Place, PlaceSpecial } from '@eve/db';
+import { describeSpecial } from './specials';
+import { describeHoursOverride } from './hoursOverrides';
+import { PLACE_STATUS_LABELS } from './placeStatus';
+
+/** One form field where the admin's submission and the newer saved place disagree. */
+export interface PlaceConflictField {
+  field: string;
+  label: string;
+  mine: string;
+  saved: string;
+}
+
+/**
+ * Returned by updatePlace when the place changed after the form was loaded.
+ * The form is re-rendered from `values` so no typing is lost, with `version`
+ * as the new baseline: saving again overwrites the newer version on purpose.
+ */
+export interface PlaceConflict {
+  version: number;
+  /** When the newer version was saved, formatted for display; null when unknown. */
+  savedAt: string | null;
+  savedBy: string | null;
+  fields: PlaceConflictField[];
+  values: Record<string, string>;
+  tagIds: string[];
+  specials: PlaceSpecial[];
+  hoursOverrides: HoursOverride[];
+}
+
+export type UpdatePlaceState = { conflict: PlaceConflict } | null;
+
+/** Edit-form fields in form order, with their labels. */
+export const PLACE_FORM_FIELDS = [
+  ['name', 'Name'],
+  ['slug', 'Slug'],
+  ['status', 'Status'],
+  ['reopens_on', 'Reopens'],
+  ['neighborhood_id', 'Neighborhood'],
+  ['address', 'Address'],
+  ['cross_street', 'Cross street'],
+  ['phone', 'Phone'],
+  ['url', 'Website'],
+  ['lat', 'Latitude'],
+  ['lng', 'Longitude'],
+  ['specials', 'Specials'],
+  ['notes', 'Notes'],
+  ['photo_url', 'Place image'],
+  ['photo_credit', 'Photo credit'],
+  ['pitch', 'Pitch'],
+  ['perfect', 'Perfect when…'],
+  ['insider', 'Insider tip'],
+  ['vibe', 'Vibe'],
+  ['crowd', 'Crowd'],
+] as const;
+
+// Compare the way PlaceModel stores values, so "(212) 555-0100" and the
+// stored "2125550100" are not reported as a difference.
+function normalize(field: string, value: string): string {
+  const trimmed = value.trim();
+  if (field === 'phone') return trimmed.replace(/\D/g, '');
+  if (field === 'slug') return trimmed.toLowerCase();
+  if ((field === 'lat' || field === 'lng') && trimmed) return String(Number(trimmed));
+  return trimmed;
+}
+
+/**
+ * Fields where saving the submitted form would change the saved place. Tags,
+ * specials and hours overrides compare as ordered lists; neighborhoods and tags are shown by
+ * name.
+ */
+export function diffPlaceForm(
+  saved: Place,
+  values: Record<string, string>,
+  tagValues: string[],
+  specials: PlaceSpecial[],
+  hoursOverrides: HoursOverride[],
+  names: { neighborhoods: Map<string, string>; tags: Map<string, string> }
+): PlaceConflictField[] {
+  const savedRecord = saved as unknown as Record<string, unknown>;
+  const fields: PlaceConflictField[] = [];
+
+  for (const [field, label] of PLACE_FORM_FIELDS) {
+    const savedValue = savedRecord[field] == null ? '' : String(savedRecord[field]);
+    const mineValue = values[field] ?? '';
+    // updatePlace leaves blank text fields alone, so they never overwrite.
+    if (!mineValue.trim() && field !== 'lat' && field !== 'lng' && field !== 'reopens_on') continue;
+    if (normalize(field, mineValue) === normalize(field, savedValue)) continue;
+
+    const display = (value: string) =>
+      field === 'neighborhood_id' ? names.neighborhoods.get(value) ?? value
+      : field === 'status' ? PLACE_STATUS_LABELS[value as keyof typeof PLACE_STATUS_LABELS] ?? value
+      : value;
+    fields.push({ field, label, mine: display(mineValue), saved: display(savedValue) });
+  }
+
+  const savedTags = saved.tags ?? [];
+  if (savedTags.join('\n') !== tagValues.join('\n')) {
+    const display = (list: string[]) => list.map((v) => names.tags.get(v) ?? v).join(', ');
+    fields.push({ field: 'tags', label: 'Tags', mine: display(tagValues), saved: display(savedTags) });
+  }
+
+  const savedSpecials = (saved.specials_schedule ?? []).map(describeSpecial).join('\n');
+  const mineSpecials = specials.map(describeSpecial).join('\n');
+  if (savedSpecials !== mineSpecials) {
+    fields.push({ field: 'specials_schedule', label: 'Specials schedule', mine: mineSpecials, saved: savedSpecials });
+  }
+
+  const savedOverrides = (saved.hours_overrides ?? []).map(describeHoursOverride).join('\n');
+  const mineOverrides = hoursOverrides.map(describeHoursOverride).join('\n');
+  if (savedOverrides !== mineOverrides) {
+    fields.push({ field: 'hours_overrides', label: 'Holiday hours', mine: mineOverrides, saved: savedOverrides });
+  }
+
+  return fields;
+}
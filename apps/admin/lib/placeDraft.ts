@@ -0,0 +1,26 @@
+import type { Place } from '@eve/db';
+import { EVE_TIMEZONE } from '@eve/shared-types';
+
+/**
+ * The place as the edit form shows it: a published place with a pending
+ * draft shows the draft's values, since saving edits the draft.
+ */
+export function withDraft(place: Place): Place {
+  return place.draft ? ({ ...place, ...place.draft } as Place) : place;
+}
+
+function formatEastern(date: Date): string {
+  return date.toLocaleString('en-US', {
+    timeZone: EVE_TIMEZONE,
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+/** Where a place stands in the draft/publish workflow, for lists and the edit page. */
+export function publishStatus(place: Place): string {
+  const scheduled = place.publish_at ? ` · publishes ${formatEastern(place.publish_at)} ET` : '';
+  if (!place.published_at) return `Draft${scheduled}`;
+  if (place.draft || place.publish_at) return `Live · unpublished changes${scheduled}`;
+  return 'Live';
+}
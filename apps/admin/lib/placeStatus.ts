@@ -0,0 +1,25 @@
+import type { PlaceStatus } from '@eve/shared-types';
+
+export const PLACE_STATUS_LABELS: Record<PlaceStatus, string> = {
+  open: 'Open',
+  temporarily_closed: 'Temporarily closed',
+  permanently_closed: 'Permanently closed',
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The status fields posted by PlaceForm. Both are undefined when the form
+ * has no status select, so the stored values are left alone; the reopening
+ * date is dropped unless the place is temporarily closed.
+ */
+export function readPlaceStatus(formData: FormData): { status?: PlaceStatus; reopens_on?: string | null } {
+  const raw = String(formData.get('status') ?? '');
+  if (!(raw in PLACE_STATUS_LABELS)) return {};
+  const status = raw as PlaceStatus;
+  const reopensOn = String(formData.get('reopens_on') ?? '').trim();
+  return {
+    status,
+    reopens_on: status === 'temporarily_closed' && DATE_RE.test(reopensOn) ? reopensOn : null,
+  };
+}
@@ -7,14 +7,14 @@ function src(path) {
 }
 
 function assertGuarded(source, functionName, guardName) {
-  const pattern = new RegExp(`export async function ${functionName}[^]*?{\\n\\s*await ${guardName}\\(`);
+  const pattern = new RegExp(`export async function ${functionName}[^]*?{\\n\\s*(?:const \\w+ = )?await ${guardName}\\(`);
   assert.match(source, pattern, `${functionName} must call ${guardName} before doing work`);
 }
 
 describe('admin security guards', () => {
   it('guards every mutating place action', () => {
     const places = src('./actions/places.ts');
-    for (const name of ['createPlace', 'updatePlace', 'deletePlace']) {
+    for (const name of ['createPlace', 'updatePlace', 'discardPlaceDraft', 'deletePlace', 'restorePlace', 'purgePlace', 'revertPlace', 'applyStatusProposal', 'dismissStatusProposal']) {
       assertGuarded(places, name, 'requireAdminMutation');
     }
   });
@@ -33,6 +33,20 @@ describe('admin security guards', () => {
     }
   });
 
+  it('guards every mutating event action', () => {
+    const events = src('./actions/events.ts');
+    for (const name of ['createEvent', 'updateEvent', 'deleteEvent']) {
+      assertGuarded(events, name, 'requireAdminMutation');
+    }
+  });
+
+  it('guards every enrichment review action', () => {
+    const enrichment = src('./actions/enrichment.ts');
+    for (const name of ['acceptProposal', 'rejectProposal', 'rematchPlace']) {
+      assertGuarded(enrichment, name, 'requireAdminMutation');
+    }
+  });
+
   it('guards login and logout against cross-origin form posts', () => {
     const login = src('./actions/login.ts');
     assertGuarded(login, 'loginAction', 'assertSameOriginAction');
@@ -45,5 +59,12 @@ describe('admin security guards', () => {
     const uploadsRoute = src('../app/api/admin/uploads/route.ts');
     assert.match(tagsRoute, /requireAdminRequest\(req\)/, 'tags API must require an admin session');
     assert.match(uploadsRoute, /requireAdminRequest\(req, \{ mutation: true \}\)/, 'upload API must require admin session and origin check');
+    for (const route of ['presign', 'finalize', 'local/[...key]']) {
+      assert.match(
+        src(`../app/api/admin/uploads/${route}/route.ts`),
+        /requireAdminRequest\(req, \{ mutation: true \}\)/,
+        `uploads/${route} API must require admin session and origin check`
+      );
+    }
   });
 });
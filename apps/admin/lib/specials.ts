@@ -0,0 +1,76 @@
+import type { PlaceSpecial } from '@eve/shared-types';
+
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+const CLOCK_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * The structured specials posted by SpecialsEditor, validated. Rows without
+ * a day, a valid start time, an end (time or "until close") or a description
+ * are dropped rather than failing the whole save.
+ */
+export function readSpecials(raw: string): PlaceSpecial[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  const specials: PlaceSpecial[] = [];
+  for (const row of parsed) {
+    if (!row || typeof row !== 'object') continue;
+    const r = row as Record<string, unknown>;
+
+    const days = Array.isArray(r.days)
+      ? [...new Set(r.days.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6))].sort((a, b) => a - b)
+      : [];
+    const start = typeof r.start_time === 'string' ? r.start_time : '';
+    const untilClose = r.until_close === true;
+    const end = typeof r.end_time === 'string' ? r.end_time : '';
+    const description = typeof r.description === 'string' ? r.description.trim() : '';
+    const price = typeof r.price === 'number' && Number.isFinite(r.price) && r.price >= 0 ? r.price : null;
+
+    if (days.length === 0 || !CLOCK_RE.test(start) || !description) continue;
+    if (!untilClose && !CLOCK_RE.test(end)) continue;
+
+    specials.push({
+      days,
+      start_time: start,
+      end_time: untilClose ? null : end,
+      until_close: untilClose,
+      description,
+      price,
+    });
+  }
+  return specials;
+}
+
+function formatClock(value: string): string {
+  const [h, m] = value.split(':').map(Number);
+  const suffix = h >= 12 ? 'PM' : 'AM';
+  const hour = h % 12 === 0 ? 12 : h % 12;
+  return m === 0 ? `${hour} ${suffix}` : `${hour}:${String(m).padStart(2, '0')} ${suffix}`;
+}
+
+// "Mon–Fri", "Sat, Sun": consecutive days collapse into a range.
+function formatDays(days: number[]): string {
+  if (days.length === 7) return 'Daily';
+  const runs: number[][] = [];
+  for (const day of days) {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === day - 1) run.push(day);
+    else runs.push([day]);
+  }
+  return runs
+    .map((run) => (run.length > 2 ? `${DAY_NAMES[run[0]]}–${DAY_NAMES[run[run.length - 1]]}` : run.map((d) => DAY_NAMES[d]).join(', ')))
+    .join(', ');
+}
+
+/** One line per special for the conflict diff, e.g. "Mon–Fri 4 PM–7 PM · Half-price drafts · $5". */
+export function describeSpecial(special: PlaceSpecial): string {
+  const end = special.until_close ? 'close' : formatClock(special.end_time ?? '00:00');
+  const price = special.price !== null ? ` · $${special.price}` : '';
+  return `${formatDays(special.days)} ${formatClock(special.start_time)}–${end} · ${special.description}${price}`;
+}
@@ -0,0 +1,139 @@
+/**
+ * Direct-upload helpers behind the presign, local PUT and finalize routes.
+ *
+ * Test framework: Node built-in `node:test` + `node:assert`, loaded through
+ * tsx. Storage is a local backend in temporary directories.
+ *
+ * Run:
+ *   npm run test:lib -w @eve/admin
+ */
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createStorage, UploadRejectedError, type Storage } from '@eve/storage';
+import { finalizeStagedUpload, parseStagingKey, readBodyWithLimit, stagingKey } from './uploads';
+
+// 1x1 transparent PNG
+const TINY_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+function stream(chunks: Buffer[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(new Uint8Array(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe('parseStagingKey', () => {
+  it('accepts the keys stagingKey makes', () => {
+    const key = stagingKey('place');
+    assert.deepEqual(parseStagingKey(key), { prefix: 'place', id: key.split('/')[2] });
+  });
+
+  it('rejects keys outside incoming/', () => {
+    assert.equal(parseStagingKey('place/0b5f2c7e-9a51-4c1f-8f7e-2f4a5f0e6d11'), null);
+    assert.equal(parseStagingKey('outgoing/place/0b5f2c7e-9a51-4c1f-8f7e-2f4a5f0e6d11'), null);
+  });
+
+  it('rejects path traversal and anything after the id', () => {
+    assert.equal(parseStagingKey('incoming/../../etc/passwd'), null);
+    assert.equal(parseStagingKey('incoming/place/../0b5f2c7e-9a51-4c1f-8f7e-2f4a5f0e6d11'), null);
+    assert.equal(parseStagingKey('incoming/place/0b5f2c7e-9a51-4c1f-8f7e-2f4a5f0e6d11/../x'), null);
+    assert.equal(parseStagingKey('incoming/place/0b5f2c7e-9a51-4c1f-8f7e-2f4a5f0e6d11.png'), null);
+  });
+
+  it('rejects non-strings', () => {
+    assert.equal(parseStagingKey(undefined), null);
+    assert.equal(parseStagingKey({ key: stagingKey('place') }), null);
+  });
+});
+
+describe('readBodyWithLimit', () => {
+  it('reads a body within the limit', async () => {
+    const body = await readBodyWithLimit(stream([Buffer.from('abc'), Buffer.from('def')]), 6);
+    assert.deepEqual(body, Buffer.from('abcdef'));
+  });
+
+  it('stops at the first chunk past the limit', async () => {
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(1024));
+      },
+    });
+    assert.equal(await readBodyWithLimit(endless, 4096), null);
+    assert.ok(pulled <= 6);
+  });
+
+  it('treats a missing body as empty', async () => {
+    assert.deepEqual(await readBodyWithLimit(null, 10), Buffer.alloc(0));
+  });
+});
+
+describe('finalizeStagedUpload', () => {
+  let root: string;
+  let storage: Storage;
+
+  before(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'eve-finalize-'));
+    storage = createStorage({
+      backend: 'local',
+      localDir: path.join(root, 'public'),
+      urlPrefix: '/uploads',
+      stagingDir: path.join(root, 'staging'),
+    });
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  async function stage(body: Buffer, contentType = 'image/png'): Promise<string> {
+    const key = stagingKey('place');
+    const target = await storage.createUploadTarget(key, { contentType, size: body.length });
+    await storage.receiveUpload(key, new URL(target.url, 'http://admin.test').searchParams, body, contentType);
+    return key;
+  }
+
+  async function rejection(key: unknown): Promise<UploadRejectedError> {
+    const err = await finalizeStagedUpload(storage, key).then(
+      () => assert.fail('expected finalize to reject'),
+      (e: unknown) => e
+    );
+    assert.ok(err instanceof UploadRejectedError);
+    return err;
+  }
+
+  it('stores a staged image under its final key and clears the staging copy', async () => {
+    const key = await stage(TINY_PNG);
+    const result = await finalizeStagedUpload(storage, key);
+
+    assert.equal(result.key, `place/${key.split('/')[2]}.png`);
+    assert.equal(result.url, `/uploads/${result.key}`);
+    assert.equal(result.contentType, 'image/png');
+    assert.equal(result.width, 1);
+    await assert.rejects(storage.readStagedUpload(key));
+  });
+
+  it('rejects a key the presign route did not issue', async () => {
+    assert.equal((await rejection('place/0b5f2c7e-9a51-4c1f-8f7e-2f4a5f0e6d11')).status, 400);
+    assert.equal((await rejection('incoming/../../public/uploads/place/x')).status, 400);
+  });
+
+  it('rejects a well-formed key with nothing staged under it', async () => {
+    assert.equal((await rejection(stagingKey('place'))).status, 404);
+  });
+
+  it('rejects staged bytes that are not an image, and clears them', async () => {
+    const key = await stage(Buffer.from('<svg onload="alert(1)"/>'));
+    assert.equal((await rejection(key)).status, 415);
+    await assert.rejects(storage.readStagedUpload(key));
+  });
+});
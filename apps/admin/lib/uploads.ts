@@ -0,0 +1,107 @@
+import { randomUUID } from 'node:crypto';
+import {
+  UploadRejectedError,
+  validateImageUpload,
+  type PutObjectResult,
+  type Storage,
+} from '@eve/storage';
+
+/**
+ * Shared rules for the admin upload routes.
+ *
+ * A direct upload is staged under `incoming/<prefix>/<uuid>` through a
+ * short-lived upload target, in the backend's staging area where nothing is
+ * served. Finalizing validates those bytes and stores them under
+ * `<prefix>/<uuid>.<ext>`. Staged uploads that are never finalized are
+ * removed by the upload GC.
+ */
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/** Content types a direct upload may declare; the bytes are still checked on finalize. */
+export const DIRECT_UPLOAD_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+/** Key prefix from client input: `tag`, `place`, otherwise `misc`. */
+export function uploadPrefix(raw: unknown): string {
+  return String(raw ?? 'misc').replace(/[^a-z0-9_-]/gi, '').toLowerCase().slice(0, 16) || 'misc';
+}
+
+export function stagingKey(prefix: string): string {
+  return `incoming/${prefix}/${randomUUID()}`;
+}
+
+const STAGING_KEY_RE = /^incoming\/([a-z0-9_-]{1,16})\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/;
+
+/** The prefix and id of a key stagingKey made, or null for any other string. */
+export function parseStagingKey(key: unknown): { prefix: string; id: string } | null {
+  const match = typeof key === 'string' ? STAGING_KEY_RE.exec(key) : null;
+  return match ? { prefix: match[1], id: match[2] } : null;
+}
+
+/**
+ * A request body read in full, or null as soon as it passes `maxBytes` —
+ * whatever Content-Length claimed, and with none at all (chunked).
+ */
+export async function readBodyWithLimit(
+  body: ReadableStream<Uint8Array> | null,
+  maxBytes: number
+): Promise<Buffer | null> {
+  if (!body) return Buffer.alloc(0);
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Validate a staged upload the same way POST /api/admin/uploads validates a
+ * posted file, then store it under its final key. The staged copy is
+ * deleted whether or not it was accepted. Returns the stored result with
+ * the content type read from the bytes. Throws UploadRejectedError for a
+ * key stagingKey did not make (400), nothing staged under it (404), or
+ * bytes that are not an acceptable image.
+ */
+export async function finalizeStagedUpload(
+  storage: Storage,
+  key: unknown
+): Promise<PutObjectResult & { contentType: string }> {
+  const staged = parseStagingKey(key);
+  if (!staged) {
+    throw new UploadRejectedError('key must be a key from /api/admin/uploads/presign', 400);
+  }
+  const stagedKey = key as string;
+
+  let buf: Buffer;
+  try {
+    buf = await storage.readStagedUpload(stagedKey);
+  } catch {
+    throw new UploadRejectedError('Nothing was uploaded under this key', 404);
+  }
+
+  try {
+    if (buf.length > MAX_UPLOAD_BYTES) {
+      throw new UploadRejectedError('File too large (max 10MB).', 413);
+    }
+    const image = await validateImageUpload(buf);
+    const result = await storage.putObject(buf, {
+      key: `${staged.prefix}/${staged.id}.${image.extension}`,
+      contentType: image.contentType,
+    });
+    return { ...result, contentType: image.contentType };
+  } finally {
+    await storage.deleteStagedUpload(stagedKey).catch((err) => {
+      // Left for the upload GC.
+      console.error('admin upload: could not delete staged upload', stagedKey, err);
+    });
+  }
+}
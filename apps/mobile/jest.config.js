@@ -5,6 +5,7 @@ module.exports = {
   setupFilesAfterEnv: ['<rootDir>/jest.setup.ts'],
   moduleNameMapper: {
     '^@eve/shared-types$': '<rootDir>/../../packages/shared-types/src/index.ts',
+    '^@eve/hours$': '<rootDir>/../../packages/hours/src/index.ts',
   },
   transform: {
     '^.+\\.tsx?$': ['ts-jest', { tsconfig: { jsx: 'react' } }],
@@ -4,8 +4,9 @@ const path = require('path');
 const config = getDefaultConfig(__dirname);
 
 const sharedTypesPath = path.resolve(__dirname, '../../packages/shared-types');
+const hoursPath = path.resolve(__dirname, '../../packages/hours');
 
-config.watchFolders = Array.from(new Set([...(config.watchFolders ?? []), sharedTypesPath]));
+config.watchFolders = Array.from(new Set([...(config.watchFolders ?? []), sharedTypesPath, hoursPath]));
 
 config.resolver.nodeModulesPaths = [
   path.resolve(__dirname, 'node_modules'),
@@ -16,6 +17,7 @@ config.resolver.disableHierarchicalLookup = false;
 
 config.resolver.extraNodeModules = {
   '@eve/shared-types': sharedTypesPath,
+  '@eve/hours': hoursPath,
 };
 
 module.exports = config;
@@ -120,3 +120,86 @@ describe('tagsApi', () => {
     expect(url).toContain('structured=1');
   });
 });
+
+describe('conditional GET', () => {
+  beforeEach(() => {
+    (globalThis as any).fetch = jest.fn();
+  });
+
+  it('replays stored validators and returns cached data on 304', async () => {
+    (globalThis.fetch as jest.Mock).mockResolvedValueOnce(
+      new Response(JSON.stringify([{ value: 'bars', display: 'Bars', order: '0' }]), {
+        status: 200,
+        headers: { ETag: '"abc"', 'Last-Modified': 'Mon, 05 Jan 2026 10:00:00 GMT' },
+      })
+    );
+    const first = await tagsApi.flat();
+
+    (globalThis.fetch as jest.Mock).mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const second = await tagsApi.flat(first);
+
+    expect(second).toBe(first);
+    const init = (globalThis.fetch as jest.Mock).mock.calls[1][1] as RequestInit;
+    const headers = init.headers as Record<string, string>;
+    expect(headers['If-None-Match']).toBe('"abc"');
+    expect(headers['If-Modified-Since']).toBe('Mon, 05 Jan 2026 10:00:00 GMT');
+  });
+
+  it('does not send validators when there is no cached data to fall back on', async () => {
+    (globalThis.fetch as jest.Mock)
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ parents: [], standalone: [] }), {
+          status: 200,
+          headers: { ETag: '"s1"' },
+        })
+      )
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ parents: [], standalone: [] }), { status: 200 })
+      );
+    await tagsApi.structured();
+    await tagsApi.structured();
+
+    const init = (globalThis.fetch as jest.Mock).mock.calls[1][1] as RequestInit;
+    const headers = init.headers as Record<string, string>;
+    expect(headers['If-None-Match']).toBeUndefined();
+  });
+
+  it('keeps validators per URL so a tag filter does not reuse the full list ETag', async () => {
+    (globalThis.fetch as jest.Mock)
+      .mockResolvedValueOnce(new Response('[]', { status: 200, headers: { ETag: '"all"' } }))
+      .mockResolvedValueOnce(new Response('[]', { status: 200, headers: { ETag: '"food"' } }));
+    await placesApi.list();
+    await placesApi.list('food', []);
+
+    const init = (globalThis.fetch as jest.Mock).mock.calls[1][1] as RequestInit;
+    const headers = init.headers as Record<string, string>;
+    expect(headers['If-None-Match']).toBeUndefined();
+  });
+
+  it('throws ApiError on an unsolicited 304', async () => {
+    (globalThis.fetch as jest.Mock).mockResolvedValueOnce(new Response(null, { status: 304 }));
+    await expect(apiGet('/api/neighborhoods')).rejects.toMatchObject({ status: 304 });
+  });
+});
+
+describe('placesApi.changes', () => {
+  beforeEach(() => {
+    (globalThis as any).fetch = jest.fn().mockResolvedValue(
+      new Response(JSON.stringify({ places: [], deleted: [], cursor: '2026-01-01T00:00:00.000000Z' }), { status: 200 })
+    );
+  });
+
+  it('requests a full snapshot when no cursor is held', async () => {
+    await placesApi.changes();
+    const url = (globalThis.fetch as jest.Mock).mock.calls[0][0] as string;
+    expect(url).toContain('/api/places/changes');
+    expect(url).not.toContain('since=');
+  });
+
+  it('passes the cursor as ?since=', async () => {
+    await placesApi.changes('2026-01-01T00:00:00.000000Z');
+    const url = new URL((globalThis.fetch as jest.Mock).mock.calls[0][0] as string);
+    expect(url.pathname).toBe('/api/places/changes');
+    expect(url.searchParams.get('since')).toBe('2026-01-01T00:00:00.000000Z');
+  });
+});
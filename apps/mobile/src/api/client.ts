@@ -1,12 +1,15 @@
 import type {
   PlacesListResponse,
+  PlaceChangesResponse,
   PlaceDetailResponse,
+  EventsListResponse,
   TagsFlatResponse,
   TagsStructuredResponse,
 } from '@eve/shared-types';
 import { getOrCreateDeviceId } from '../identity/deviceId';
 import { getApiBaseUrl, REQUEST_TIMEOUT_MS } from './config';
 import { ApiError, NetworkError, TimeoutError } from './errors';
+import { getValidators, rememberValidators } from './validators';
 
 // Cached device id — resolved once on first request, reused thereafter.
 let cachedDeviceId: string | null = null;
@@ -57,6 +60,10 @@ async function parseErrorBody(
 /**
  * Core fetch wrapper. Sets X-Device-Id and Accept headers, enforces timeout,
  * normalises errors.
+ *
+ * With `conditional`, validators (ETag / Last-Modified) from the response are
+ * stored per URL. When `cached` is also supplied, the stored validators are
+ * replayed and a 304 resolves to `cached` instead of re-downloading the body.
  */
 async function request<T>(
   method: string,
@@ -65,6 +72,8 @@ async function request<T>(
     query?: Record<string, string>;
     body?: unknown;
     signal?: AbortSignal;
+    conditional?: boolean;
+    cached?: T;
   } = {}
 ): Promise<T> {
   const deviceId = await resolveDeviceId();
@@ -91,6 +100,11 @@ async function request<T>(
   if (opts.body !== undefined) {
     headers['Content-Type'] = 'application/json';
   }
+  if (opts.conditional && opts.cached !== undefined) {
+    const validators = await getValidators(url);
+    if (validators?.etag) headers['If-None-Match'] = validators.etag;
+    if (validators?.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+  }
 
   let response: Response;
   try {
@@ -117,11 +131,19 @@ async function request<T>(
     }
   }
 
+  if (response.status === 304 && opts.conditional && opts.cached !== undefined) {
+    return opts.cached;
+  }
+
   if (!response.ok) {
     const { message, code } = await parseErrorBody(response);
     throw new ApiError(message, response.status, code);
   }
 
+  if (opts.conditional) {
+    await rememberValidators(url, response.headers);
+  }
+
   if (response.status === 204) {
     return undefined as unknown as T;
   }
@@ -135,7 +157,12 @@ async function request<T>(
 
 export async function apiGet<T>(
   path: string,
-  opts?: { signal?: AbortSignal; query?: Record<string, string> }
+  opts?: {
+    signal?: AbortSignal;
+    query?: Record<string, string>;
+    conditional?: boolean;
+    cached?: T;
+  }
 ): Promise<T> {
   return request<T>('GET', path, opts);
 }
@@ -156,19 +183,44 @@ export async function apiDelete(path: string): Promise<void> {
 // Typed domain wrappers (consumed by T1.7 / T1.8)
 // ---------------------------------------------------------------------------
 
+// `cached` is the data the caller already holds for the same request (e.g.
+// from the persisted query cache); it is returned as-is when the server
+// answers 304 Not Modified.
 export const placesApi = {
-  list: (tag?: string): Promise<PlacesListResponse> =>
-    apiGet<PlacesListResponse>(
-      '/api/places',
-      tag ? { query: { tag } } : undefined
+  list: (tag?: string, cached?: PlacesListResponse): Promise<PlacesListResponse> =>
+    apiGet<PlacesListResponse>('/api/places', {
+      query: tag ? { tag } : undefined,
+      conditional: true,
+      cached,
+    }),
+  // Omit `since` for a full snapshot plus the first cursor.
+  changes: (since?: string): Promise<PlaceChangesResponse> =>
+    apiGet<PlaceChangesResponse>(
+      '/api/places/changes',
+      since ? { query: { since } } : undefined
     ),
+  // Places with coordinates, nearest first, each carrying `distance_m`.
+  near: (lat: number, lng: number): Promise<PlacesListResponse> =>
+    apiGet<PlacesListResponse>('/api/places', { query: { near: `${lat},${lng}` } }),
   byId: (id: string): Promise<PlaceDetailResponse> =>
     apiGet<PlaceDetailResponse>(`/api/places/${encodeURIComponent(id)}`),
 };
 
 export const tagsApi = {
-  flat: (): Promise<TagsFlatResponse> =>
-    apiGet<TagsFlatResponse>('/api/tags'),
-  structured: (): Promise<TagsStructuredResponse> =>
-    apiGet<TagsStructuredResponse>('/api/tags', { query: { structured: '1' } }),
+  flat: (cached?: TagsFlatResponse): Promise<TagsFlatResponse> =>
+    apiGet<TagsFlatResponse>('/api/tags', { conditional: true, cached }),
+  structured: (cached?: TagsStructuredResponse): Promise<TagsStructuredResponse> =>
+    apiGet<TagsStructuredResponse>('/api/tags', {
+      query: { structured: '1' },
+      conditional: true,
+      cached,
+    }),
+};
+
+export const eventsApi = {
+  // Occurrences overlapping [from, to), optionally for one place.
+  list: (from: string, to: string, place?: string): Promise<EventsListResponse> =>
+    apiGet<EventsListResponse>('/api/events', {
+      query: place ? { from, to, place } : { from, to },
+    }),
 };
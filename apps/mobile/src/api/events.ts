@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { eventsApi } from './client';
+import type { EventsListResponse } from '@eve/shared-types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WINDOW_MS = 14 * 24 * HOUR_MS;
+
+/**
+ * A place's event occurrences over the next two weeks, including any still
+ * running. The window starts at the top of the current hour so the query
+ * key — and the cached result — stays stable for the hour.
+ */
+export function usePlaceEvents(placeKey: string | undefined) {
+  const from = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+  const fromIso = new Date(from).toISOString();
+
+  return useQuery<EventsListResponse>({
+    queryKey: ['events', placeKey, fromIso],
+    queryFn: () => eventsApi.list(fromIso, new Date(from + WINDOW_MS).toISOString(), placeKey),
+    enabled: typeof placeKey === 'string' && placeKey.length > 0,
+  });
+}
@@ -1,14 +1,52 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { placesApi } from './client';
+import { mergePlaceChanges } from '../data/mergePlaceChanges';
 import type { PlacesListResponse, PlaceDetailResponse } from '@eve/shared-types';
 
+/**
+ * Delta-sync cursor for the unfiltered list. Kept in the query cache so the
+ * persister snapshots it together with the list it describes.
+ */
+const PLACES_SYNC_CURSOR_KEY = ['places-sync-cursor'] as const;
+
 export function usePlacesList(tag?: string | null) {
+  const queryClient = useQueryClient();
+
   return useQuery<PlacesListResponse>({
     queryKey: tag ? ['places', tag] : ['places'],
-    queryFn: () => placesApi.list(tag ?? undefined),
+    queryFn: async ({ queryKey }) => {
+      // The cached list is restored by the persister on cold start.
+      const cached = queryClient.getQueryData<PlacesListResponse>(queryKey);
+
+      // Tag-filtered lists revalidate with a conditional GET (304 when unchanged).
+      if (tag) return placesApi.list(tag, cached);
+
+      // The full list syncs by delta: only places changed or deleted since
+      // the last cursor come down and are merged into the cached list.
+      const cursor = cached ? queryClient.getQueryData<string>(PLACES_SYNC_CURSOR_KEY) : undefined;
+      const changes = await placesApi.changes(cursor);
+      queryClient.setQueryData(PLACES_SYNC_CURSOR_KEY, changes.cursor);
+      return cached && cursor ? mergePlaceChanges(cached, changes) : changes.places;
+    },
+  });
+}
+
+/**
+ * Server-computed distances (metres) from `origin`, keyed by place key.
+ * Disabled until the device location is known. Places without coordinates
+ * are absent from the map.
+ */
+export function usePlaceDistances(origin: { lat: number; lng: number } | null) {
+  return useQuery({
+    queryKey: ['places-near', origin?.lat, origin?.lng],
+    queryFn: () => placesApi.near(origin!.lat, origin!.lng),
+    enabled: origin !== null,
+    select: (places: PlacesListResponse) =>
+      new Map(places.flatMap((place) => (place.distance_m != null ? [[place.key, place.distance_m] as const] : []))),
   });
 }
 
+/** A place by key or slug, as the place route receives it. */
 export function usePlace(id: string | undefined) {
   const queryClient = useQueryClient();
 
@@ -24,7 +62,7 @@ export function usePlace(id: string | undefined) {
       });
 
       for (const [, places] of placeLists) {
-        const cachedPlace = places?.find((place) => place.key === id);
+        const cachedPlace = places?.find((place) => place.key === id || place.slug === id);
         if (cachedPlace) return cachedPlace;
       }
 
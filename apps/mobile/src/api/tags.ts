@@ -1,17 +1,22 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { tagsApi } from './client';
 import type { TagsFlatResponse, TagsStructuredResponse } from '@eve/shared-types';
 
 export function useTagsFlat() {
+  const queryClient = useQueryClient();
+
   return useQuery<TagsFlatResponse>({
     queryKey: ['tags'],
-    queryFn: () => tagsApi.flat(),
+    queryFn: ({ queryKey }) => tagsApi.flat(queryClient.getQueryData<TagsFlatResponse>(queryKey)),
   });
 }
 
 export function useTagsStructured() {
+  const queryClient = useQueryClient();
+
   return useQuery<TagsStructuredResponse>({
     queryKey: ['tags', 'structured'],
-    queryFn: () => tagsApi.structured(),
+    queryFn: ({ queryKey }) =>
+      tagsApi.structured(queryClient.getQueryData<TagsStructuredResponse>(queryKey)),
   });
 }
@@ -0,0 +1,73 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const VALIDATORS_STORAGE_KEY = 'eve:http-validators:v1';
+
+/**
+ * HTTP cache validators captured from a 200 response, replayed as
+ * If-None-Match / If-Modified-Since on the next request for the same URL.
+ */
+export interface Validators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export function parseValidators(raw: string | null): Record<string, Validators> {
+  if (raw == null) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+
+    const byUrl: Record<string, Validators> = {};
+    for (const [url, value] of Object.entries(parsed as Record<string, unknown>)) {
+      if (value === null || typeof value !== 'object') continue;
+      const { etag, lastModified } = value as Record<string, unknown>;
+      const entry: Validators = {};
+      if (typeof etag === 'string' && etag.length > 0) entry.etag = etag;
+      if (typeof lastModified === 'string' && lastModified.length > 0) entry.lastModified = lastModified;
+      if (entry.etag || entry.lastModified) byUrl[url] = entry;
+    }
+    return byUrl;
+  } catch {
+    return {};
+  }
+}
+
+// Loaded from AsyncStorage once per process, then kept in memory and written through.
+let loaded: Promise<Record<string, Validators>> | null = null;
+
+function loadValidators(): Promise<Record<string, Validators>> {
+  if (loaded === null) {
+    loaded = AsyncStorage.getItem(VALIDATORS_STORAGE_KEY)
+      .then(parseValidators)
+      .catch(() => ({}));
+  }
+  return loaded;
+}
+
+export async function getValidators(url: string): Promise<Validators | null> {
+  const byUrl = await loadValidators();
+  return byUrl[url] ?? null;
+}
+
+/**
+ * Record the validators from a fresh response. A response that carries
+ * neither header forgets whatever was stored for the URL.
+ */
+export async function rememberValidators(url: string, headers: Headers): Promise<void> {
+  const byUrl = await loadValidators();
+  const etag = headers.get('ETag');
+  const lastModified = headers.get('Last-Modified');
+
+  if (!etag && !lastModified) {
+    if (!(url in byUrl)) return;
+    delete byUrl[url];
+  } else {
+    const entry: Validators = {};
+    if (etag) entry.etag = etag;
+    if (lastModified) entry.lastModified = lastModified;
+    byUrl[url] = entry;
+  }
+
+  await AsyncStorage.setItem(VALIDATORS_STORAGE_KEY, JSON.stringify(byUrl)).catch(() => undefined);
+}
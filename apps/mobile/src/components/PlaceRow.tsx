@@ -46,12 +46,14 @@ export function PlaceRow({ place, isLast = false, isSaved = false, onPress, onSa
       ]}
     >
       <PhotoFallback
-        photo={place.photo}
+        photo={place.photoThumb ?? place.photo}
         id={place.key}
         name={place.name}
         width={72}
         height={72}
         borderRadius={10}
+        showDistancePill
+        distance={place.distance}
       />
 
       <View style={styles.infoColumn}>
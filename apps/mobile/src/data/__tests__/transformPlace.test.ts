@@ -35,6 +35,11 @@ describe('transformPlace', () => {
       expect(result.key).toBe('abc-123');
     });
 
+    it('maps slug → slug, null for a list cached before slugs', () => {
+      expect(transformPlace(makePlaceResponse({ slug: 'sophies-bar' })).slug).toBe('sophies-bar');
+      expect(transformPlace(makePlaceResponse()).slug).toBeNull();
+    });
+
     it('maps name → name', () => {
       const result = transformPlace(makePlaceResponse({ name: 'Sophie\'s Bar' }));
       expect(result.name).toBe('Sophie\'s Bar');
@@ -123,6 +128,28 @@ describe('transformPlace', () => {
         .toBe('https://img.example.com/p.jpg');
     });
 
+    it('picks the smallest WebP copy covering a thumbnail as photoThumb', () => {
+      const result = transformPlace(makePlaceResponse({
+        photo_url: 'https://img.example.com/p.jpg',
+        photo: {
+          width: 1500,
+          height: 1000,
+          blurhash: 'L5JgEV}FfQ}F',
+          variants: [
+            { url: 'https://img.example.com/p-320.jpg', width: 320, height: 213, content_type: 'image/jpeg' },
+            { url: 'https://img.example.com/p-320.webp', width: 320, height: 213, content_type: 'image/webp' },
+            { url: 'https://img.example.com/p-640.webp', width: 640, height: 427, content_type: 'image/webp' },
+            { url: 'https://img.example.com/p.webp', width: 1500, height: 1000, content_type: 'image/webp' },
+          ],
+        },
+      }));
+      expect(result.photoThumb).toBe('https://img.example.com/p-640.webp');
+    });
+
+    it('leaves photoThumb null for a photo without pipeline copies', () => {
+      expect(transformPlace(makePlaceResponse({ photo_url: 'https://img.example.com/p.jpg' })).photoThumb).toBeNull();
+    });
+
     it('maps photo_credit to photoCredit', () => {
       expect(transformPlace(makePlaceResponse({ photo_credit: 'Amit' })).photoCredit).toBe('Amit');
     });
@@ -179,8 +206,16 @@ describe('transformPlace', () => {
       expect(transformPlace(makePlaceResponse({ hours_json })).hoursJson).toBe(hours_json);
     });
 
-    it('sets distance to null', () => {
-      expect(transformPlace(makePlaceResponse()).distance).toBeNull();
+    it('sets distance to null without distance_m', () => {
+      const place = transformPlace(makePlaceResponse());
+      expect(place.distance).toBeNull();
+      expect(place.distanceM).toBeNull();
+    });
+
+    it('maps distance_m to distanceM and a display label', () => {
+      const place = transformPlace(makePlaceResponse({ distance_m: 480 }));
+      expect(place.distanceM).toBe(480);
+      expect(place.distance).toBe('0.3 mi');
     });
 
     it('sets closesIn to null', () => {
@@ -0,0 +1,57 @@
+import type { PlaceResponse } from '@eve/shared-types';
+import { mergePlaceChanges } from './mergePlaceChanges';
+
+function makePlace(key: string, name: string, overrides: Partial<PlaceResponse> = {}): PlaceResponse {
+  return {
+    key,
+    name,
+    address: null,
+    phone: null,
+    url: null,
+    specials: null,
+    categories: null,
+    notes: null,
+    tags: [],
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('mergePlaceChanges', () => {
+  const cached = [makePlace('a', 'Alpha'), makePlace('c', 'Charlie')];
+  const cursor = '2026-01-02T00:00:00.000000Z';
+
+  it('returns the cached list untouched for an empty delta', () => {
+    expect(mergePlaceChanges(cached, { places: [], deleted: [], cursor })).toBe(cached);
+  });
+
+  it('inserts new places in name order', () => {
+    const out = mergePlaceChanges(cached, { places: [makePlace('b', 'bravo')], deleted: [], cursor });
+    expect(out.map((p) => p.key)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('replaces updated places and re-sorts on rename', () => {
+    const out = mergePlaceChanges(cached, {
+      places: [makePlace('a', 'Zulu', { pitch: 'renamed' })],
+      deleted: [],
+      cursor,
+    });
+    expect(out.map((p) => p.key)).toEqual(['c', 'a']);
+    expect(out[1].pitch).toBe('renamed');
+  });
+
+  it('drops deleted places, including ones never seen by this client', () => {
+    const out = mergePlaceChanges(cached, { places: [], deleted: ['c', 'zzz'], cursor });
+    expect(out.map((p) => p.key)).toEqual(['a']);
+  });
+
+  it('lets a deletion win over an update in the same delta', () => {
+    const out = mergePlaceChanges(cached, {
+      places: [makePlace('c', 'Charlie 2')],
+      deleted: ['c'],
+      cursor,
+    });
+    expect(out.map((p) => p.key)).toEqual(['a']);
+  });
+});
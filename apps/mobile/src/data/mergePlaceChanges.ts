@@ -0,0 +1,29 @@
+import type { PlaceChangesResponse, PlacesListResponse } from '@eve/shared-types';
+
+function byName(a: { name: string }, b: { name: string }): number {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+}
+
+/**
+ * Apply a delta from GET /api/places/changes to a cached place list.
+ *
+ * Deleted keys are dropped, changed places replace their cached entry (or are
+ * appended when new), and the result keeps the server's name ordering. The
+ * cached list is returned unchanged when the delta is empty.
+ */
+export function mergePlaceChanges(
+  cached: PlacesListResponse,
+  changes: PlaceChangesResponse,
+): PlacesListResponse {
+  if (changes.places.length === 0 && changes.deleted.length === 0) return cached;
+
+  const deleted = new Set(changes.deleted);
+  const byKey = new Map(cached.map((place) => [place.key, place]));
+  for (const key of deleted) byKey.delete(key);
+  for (const place of changes.places) {
+    if (deleted.has(place.key)) continue;
+    byKey.set(place.key, place);
+  }
+
+  return Array.from(byKey.values()).sort(byName);
+}
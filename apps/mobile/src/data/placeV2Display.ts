@@ -17,6 +17,7 @@ export interface HoursSummary {
 
 export interface PlaceV2Display {
   key: string;         // UUID from API (PlaceResponse.key)
+  slug: string | null; // URL name; null in lists cached before slugs
   name: string;
   street: string | null;
   cross: string | null;
@@ -24,6 +25,7 @@ export interface PlaceV2Display {
   hoursJson: HoursJson | null;
   vibe: string | null;
   photo: string | null;
+  photoThumb: string | null; // smallest pipeline copy that fills a list thumbnail; null → use photo
   photoCredit: string | null;
   specials: string | null;
   notes: string | null;
@@ -32,7 +34,8 @@ export interface PlaceV2Display {
   tags: string[];
   insider: string | null;
   crowd: string | null;
-  distance: string | null;
+  distance: string | null;  // display label, e.g. "0.3 mi"
+  distanceM: number | null; // metres from the device; drives the 'nearest' sort
   closesIn: string | null;
   signal: PlaceSignal | null;
   crowdLevel: string | null;
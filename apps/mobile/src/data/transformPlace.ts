@@ -1,5 +1,6 @@
-import type { PlaceResponse } from '@eve/shared-types';
+import type { PlacePhoto, PlaceResponse } from '@eve/shared-types';
 import type { HoursSummary, PlaceV2Display } from './placeV2Display';
+import { formatDistance } from '../format/distance';
 
 function normalizeString(v: string | null | undefined): string | null {
   const trimmed = v?.trim();
@@ -21,11 +22,26 @@ function summarizeHours(p: PlaceResponse): HoursSummary | null {
   };
 }
 
+// PlaceRow thumbnails are 72pt squares; 216px covers them at 3x.
+const THUMB_MIN_PX = 216;
+
+// The smallest copy whose shorter side covers a thumbnail, WebP first. Null
+// when there is none and the original has to do.
+function pickThumb(photo: PlacePhoto | null | undefined): string | null {
+  if (!photo) return null;
+  const webp = photo.variants.filter((v) => v.content_type === 'image/webp');
+  const candidates = (webp.length > 0 ? webp : photo.variants)
+    .filter((v) => Math.min(v.width, v.height) >= THUMB_MIN_PX)
+    .sort((a, b) => a.width - b.width);
+  return candidates[0]?.url ?? null;
+}
+
 export function transformPlace(p: PlaceResponse): PlaceV2Display {
   const tags = Array.isArray(p.tags) ? p.tags : [];
 
   return {
     key: p.key,
+    slug: p.slug ?? null,
     name: p.name,
     street: p.address ?? null,
     cross: p.cross_street ?? null,
@@ -35,6 +51,7 @@ export function transformPlace(p: PlaceResponse): PlaceV2Display {
     lat: p.lat ?? null,
     lng: p.lng ?? null,
     photo: p.photo_url ?? null,
+    photoThumb: p.photo_url ? pickThumb(p.photo) : null,
     photoCredit: p.photo_credit ?? null,
     specials: p.specials ?? null,
     notes: p.notes ?? null,
@@ -48,7 +65,8 @@ export function transformPlace(p: PlaceResponse): PlaceV2Display {
     googlePriceLevel: p.google_price_level ?? null,
     hours: summarizeHours(p),
     hoursJson: p.hours_json ?? null,
-    distance: null,     // not derived in Phase 1
+    distance: formatDistance(p.distance_m),
+    distanceM: p.distance_m ?? null,
     closesIn: null,     // not derived in Phase 1
     signal: null,       // not derived in Phase 1
   };
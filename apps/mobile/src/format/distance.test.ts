@@ -0,0 +1,24 @@
+import { formatDistance } from './distance';
+
+describe('formatDistance', () => {
+  it('shows feet under a tenth of a mile, rounded to 50', () => {
+    expect(formatDistance(90)).toBe('300 ft');
+    expect(formatDistance(0)).toBe('50 ft');
+  });
+
+  it('shows miles with one decimal under 10 mi', () => {
+    expect(formatDistance(480)).toBe('0.3 mi');
+    expect(formatDistance(1609.344)).toBe('1.0 mi');
+  });
+
+  it('shows whole miles from 10 mi', () => {
+    expect(formatDistance(20000)).toBe('12 mi');
+  });
+
+  it('returns null for missing or invalid input', () => {
+    expect(formatDistance(null)).toBeNull();
+    expect(formatDistance(undefined)).toBeNull();
+    expect(formatDistance(-1)).toBeNull();
+    expect(formatDistance(NaN)).toBeNull();
+  });
+});
@@ -0,0 +1,23 @@
+const METRES_PER_MILE = 1609.344;
+const FEET_PER_METRE = 3.28084;
+
+/**
+ * Formats a distance in metres for display, in US units.
+ *
+ * Inputs:
+ *   90    -> '300 ft'   (under 0.1 mi: feet, rounded to 50)
+ *   480   -> '0.3 mi'
+ *   20000 -> '12 mi'    (10 mi and over: whole miles)
+ *   null  -> null
+ */
+export function formatDistance(metres: number | null | undefined): string | null {
+  if (metres == null || !Number.isFinite(metres) || metres < 0) return null;
+
+  const miles = metres / METRES_PER_MILE;
+  if (miles < 0.1) {
+    const feet = Math.max(50, Math.round((metres * FEET_PER_METRE) / 50) * 50);
+    return `${feet} ft`;
+  }
+  if (miles < 10) return `${miles.toFixed(1)} mi`;
+  return `${Math.round(miles)} mi`;
+}
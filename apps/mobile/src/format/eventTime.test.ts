@@ -0,0 +1,24 @@
+// Mock @eve/shared-types (see signals/__tests__/signal.test.ts): only
+// EVE_TIMEZONE is needed at runtime.
+jest.mock('@eve/shared-types', () => ({
+  EVE_TIMEZONE: 'America/New_York',
+}));
+
+import { formatEventTime } from './eventTime';
+
+// 2026-05-04 is a Monday; ET is UTC-4 (EDT).
+const NOW = new Date('2026-05-04T16:00:00Z'); // Mon noon ET
+
+describe('formatEventTime', () => {
+  it('labels tonight with its end time', () => {
+    expect(formatEventTime('2026-05-05T01:00:00Z', '2026-05-05T04:00:00Z', NOW)).toBe('Today · 9 PM–12 AM');
+  });
+
+  it('labels tomorrow and keeps minutes', () => {
+    expect(formatEventTime('2026-05-06T01:30:00Z', null, NOW)).toBe('Tomorrow · 9:30 PM');
+  });
+
+  it('uses the Eastern date for later days', () => {
+    expect(formatEventTime('2026-05-09T00:00:00Z', null, NOW)).toBe('Fri, May 8 · 8 PM');
+  });
+});
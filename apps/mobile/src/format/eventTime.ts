@@ -0,0 +1,39 @@
+import { EVE_TIMEZONE } from '@eve/shared-types';
+
+const dayFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: EVE_TIMEZONE,
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+});
+
+const timeFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: EVE_TIMEZONE,
+  hour: 'numeric',
+  minute: '2-digit',
+});
+
+// "9:00 PM" -> "9 PM"; keeps "9:30 PM".
+function formatClock(date: Date): string {
+  return timeFormatter.format(date).replace(':00', '');
+}
+
+/**
+ * Formats an event occurrence for display, in Eastern Time.
+ *
+ * Inputs (now = Mon May 4):
+ *   starts Mon 9 PM, ends Tue 12 AM -> 'Today · 9 PM–12 AM'
+ *   starts Tue 9:30 PM, no end      -> 'Tomorrow · 9:30 PM'
+ *   starts Fri May 8 8 PM           -> 'Fri, May 8 · 8 PM'
+ */
+export function formatEventTime(startsAt: string, endsAt: string | null, now: Date): string {
+  const start = new Date(startsAt);
+  const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+  const startDay = dayFormatter.format(start);
+  const day =
+    startDay === dayFormatter.format(now) ? 'Today'
+    : startDay === dayFormatter.format(tomorrow) ? 'Tomorrow'
+    : startDay;
+  const end = endsAt ? `–${formatClock(new Date(endsAt))}` : '';
+  return `${day} · ${formatClock(start)}${end}`;
+}
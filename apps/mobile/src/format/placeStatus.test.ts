@@ -0,0 +1,17 @@
+import { formatPlaceStatus } from './placeStatus';
+
+describe('formatPlaceStatus', () => {
+  it('is null for an open place, or one from before statuses existed', () => {
+    expect(formatPlaceStatus('open', null)).toBeNull();
+    expect(formatPlaceStatus(undefined, undefined)).toBeNull();
+  });
+
+  it('adds the reopening date to a temporary closure', () => {
+    expect(formatPlaceStatus('temporarily_closed', '2026-03-03')).toBe('Temporarily closed · Reopens Mar 3');
+    expect(formatPlaceStatus('temporarily_closed', null)).toBe('Temporarily closed');
+  });
+
+  it('labels a permanent closure', () => {
+    expect(formatPlaceStatus('permanently_closed', null)).toBe('Permanently closed');
+  });
+});
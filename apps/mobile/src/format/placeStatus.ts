@@ -0,0 +1,25 @@
+import type { PlaceStatus } from '@eve/shared-types';
+
+// reopens_on is a calendar date; formatting it in UTC keeps it from shifting.
+const dateFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'UTC',
+  month: 'short',
+  day: 'numeric',
+});
+
+/**
+ * Banner text for a place that is not operating; null when it is open.
+ *
+ * Inputs:
+ *   'temporarily_closed', '2026-03-03' -> 'Temporarily closed · Reopens Mar 3'
+ *   'temporarily_closed', null         -> 'Temporarily closed'
+ *   'permanently_closed', null         -> 'Permanently closed'
+ */
+export function formatPlaceStatus(status: PlaceStatus | undefined, reopensOn: string | null | undefined): string | null {
+  if (status === 'permanently_closed') return 'Permanently closed';
+  if (status !== 'temporarily_closed') return null;
+  const reopens = reopensOn && /^\d{4}-\d{2}-\d{2}$/.test(reopensOn)
+    ? ` · Reopens ${dateFormatter.format(new Date(`${reopensOn}T00:00:00Z`))}`
+    : '';
+  return `Temporarily closed${reopens}`;
+}
@@ -4,6 +4,7 @@ import {
   Platform,
   Pressable,
   ScrollView,
+  Share,
   StyleSheet,
   Text,
   View,
@@ -11,8 +12,12 @@ import {
 import { router } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { usePlace } from '../api/places';
+import { usePlaceEvents } from '../api/events';
 import { ApiError } from '../api/errors';
+import { getApiBaseUrl } from '../api/config';
 import { formatPhone } from '../format/phone';
+import { formatEventTime } from '../format/eventTime';
+import { formatPlaceStatus } from '../format/placeStatus';
 import { transformPlace } from '../data/transformPlace';
 import { PhotoFallback } from '../components/PhotoFallback';
 import { Skeleton } from '../components/Skeleton';
@@ -67,6 +72,7 @@ function displayUrl(url: string): string {
 
 export function PlaceDetail({ id }: { id: string }) {
   const { data, isLoading, isError, error } = usePlace(id);
+  const { data: events } = usePlaceEvents(data?.key);
   const { colors, typography, radii } = useTheme();
   const insets = useSafeAreaInsets();
 
@@ -110,6 +116,7 @@ export function PlaceDetail({ id }: { id: string }) {
   const specials = place.specials?.trim() || null;
   const notes = place.notes?.trim() || null;
   const hoursLabel = place.hours?.label ?? null;
+  const closedBanner = formatPlaceStatus(data.status, data.reopens_on);
 
   function openMaps() {
     const queryText = place.street
@@ -130,6 +137,14 @@ export function PlaceDetail({ id }: { id: string }) {
     }
   }
 
+  // The public site serves /places/:slug with Open Graph tags, so the link
+  // unfurls in chat apps.
+  function sharePlace() {
+    if (!place.slug) return;
+    const url = `${getApiBaseUrl()}/places/${place.slug}`;
+    Share.share(Platform.OS === 'ios' ? { url, message: place.name } : { message: `${place.name} ${url}` });
+  }
+
   function openWeb() {
     if (place.url) {
       Linking.openURL(normalizeUrl(place.url));
@@ -167,6 +182,14 @@ export function PlaceDetail({ id }: { id: string }) {
         </View>
 
         <View style={styles.contentArea}>
+          {closedBanner ? (
+            <View style={[styles.closedBanner, { backgroundColor: colors.ink, borderRadius: radii.md }]}>
+              <Text style={[styles.closedText, { color: colors.paper, fontFamily: typography.ui700.fontFamily }]}>
+                {closedBanner}
+              </Text>
+            </View>
+          ) : null}
+
           {specials ? (
             <View style={[styles.specialsCard, { backgroundColor: colors.paper2, borderRadius: radii.md }]}>
               <Text style={[styles.specialsLabel, { color: colors.accent, fontFamily: typography.ui700.fontFamily }]}>
@@ -178,6 +201,24 @@ export function PlaceDetail({ id }: { id: string }) {
             </View>
           ) : null}
 
+          {events && events.length > 0 ? (
+            <View style={styles.eventsSection}>
+              <Text style={[styles.eventsLabel, { color: colors.accent, fontFamily: typography.ui700.fontFamily }]}>
+                UPCOMING
+              </Text>
+              {events.map((event) => (
+                <View key={`${event.key}:${event.starts_at}`} style={[styles.eventRow, { borderBottomColor: colors.line }]}>
+                  <Text style={[styles.eventTitle, { color: colors.ink, fontFamily: typography.ui600.fontFamily }]}>
+                    {event.title}
+                  </Text>
+                  <Text style={[styles.eventTime, { color: colors.ink3, fontFamily: typography.ui500.fontFamily }]}>
+                    {formatEventTime(event.starts_at, event.ends_at, new Date())}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          ) : null}
+
           {notes ? (
             <Text style={[styles.notesText, { color: colors.ink2, fontFamily: typography.bodyItalic.fontFamily }]}>
               {notes}
@@ -263,6 +304,14 @@ export function PlaceDetail({ id }: { id: string }) {
             </Text>
           </Pressable>
         ) : null}
+
+        {place.slug ? (
+          <Pressable style={[styles.ctaSecondary, { borderColor: colors.ink }]} onPress={sharePlace}>
+            <Text style={[styles.ctaSecondaryText, { color: colors.ink, fontFamily: typography.ui700.fontFamily }]}>
+              Share
+            </Text>
+          </Pressable>
+        ) : null}
       </View>
     </View>
   );
@@ -341,6 +390,17 @@ const styles = StyleSheet.create({
     paddingHorizontal: 22,
     paddingTop: 22,
   },
+  closedBanner: {
+    paddingVertical: 12,
+    paddingHorizontal: 18,
+    marginBottom: 18,
+  },
+  closedText: {
+    fontSize: 13,
+    lineHeight: 18,
+    letterSpacing: 0.8,
+    textTransform: 'uppercase',
+  },
   specialsCard: {
     padding: 18,
   },
@@ -354,6 +414,28 @@ const styles = StyleSheet.create({
     fontSize: 15.5,
     lineHeight: 22,
   },
+  eventsSection: {
+    marginTop: 22,
+  },
+  eventsLabel: {
+    fontSize: 10.5,
+    lineHeight: 13,
+    letterSpacing: 1.2,
+    marginBottom: 4,
+  },
+  eventRow: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  eventTitle: {
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  eventTime: {
+    marginTop: 2,
+    fontSize: 12.5,
+    lineHeight: 17,
+  },
   notesText: {
     marginTop: 18,
     fontSize: 14.5,
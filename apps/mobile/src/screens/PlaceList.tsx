@@ -14,12 +14,13 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import BottomSheet from '@gorhom/bottom-sheet';
 
-import { usePlacesList } from '../api/places';
+import { usePlacesList, usePlaceDistances } from '../api/places';
 import { useTagsStructured } from '../api/tags';
 import { transformPlace } from '../data/transformPlace';
 import { deriveFilterSections, filterSectionsForPlaces } from '../data/deriveFilterSections';
 import { useFilterState } from '../state/useFilterState';
 import { useSavedPlaces } from '../state/useSavedPlaces';
+import { useDeviceLocation } from '../state/useDeviceLocation';
 import { PlaceRow } from '../components/PlaceRow';
 import { SearchBar } from '../components/SearchBar';
 import { FilterRail } from '../components/FilterRail';
@@ -56,7 +57,7 @@ function getEyebrowText(count: number): string {
 const SORT_OPTIONS: Array<{ label: string; mode: SortMode | null }> = [
   { label: 'A–Z', mode: 'az' },
   { label: 'Smart (coming soon)', mode: null },
-  { label: 'Nearest (coming soon)', mode: null },
+  { label: 'Nearest', mode: 'nearest' },
   { label: 'Closing soon (coming soon)', mode: null },
 ];
 
@@ -105,10 +106,23 @@ export function PlaceList() {
     railChips,
   } = useFilterState(allPlaces, filterSections);
 
+  // Distances only matter to the 'nearest' sort, so location is not
+  // requested (and the permission prompt not shown) until it is picked.
+  const location = useDeviceLocation(sortMode === 'nearest');
+  const { data: distances } = usePlaceDistances(location);
+  const placesWithDistance = React.useMemo(
+    () => (
+      rawData && distances
+        ? rawData.map((p) => transformPlace(distances.has(p.key) ? { ...p, distance_m: distances.get(p.key) } : p))
+        : allPlaces
+    ),
+    [rawData, distances, allPlaces],
+  );
+
   // Filtered + sorted places for the Home list
   const filteredPlaces = React.useMemo(
-    () => applyFilters(allPlaces),
-    [applyFilters, allPlaces],
+    () => applyFilters(placesWithDistance),
+    [applyFilters, placesWithDistance],
   );
 
   // Home and Saved share the same row formatting; Saved narrows to saved IDs.
@@ -202,7 +216,7 @@ export function PlaceList() {
         place={item}
         isLast={index === displayPlaces.length - 1}
         isSaved={savedPlaceKeys.has(item.key)}
-        onPress={() => router.push(`/place/${item.key}`)}
+        onPress={() => router.push(`/place/${item.slug ?? item.key}`)}
         onSave={() => toggleSavedPlace(item.key)}
       />
     ),
@@ -12,7 +12,8 @@ import {
   getClosingTime,
   formatClosesIn,
   parseHoursForDay,
-} from '../hours';
+  withHoursOverrides,
+} from '@eve/hours';
 
 // Key timezone facts used throughout:
 // EDT (summer, May): UTC-4   →  ET = UTC - 4h
@@ -84,6 +85,16 @@ describe('isOpenNow', () => {
     expect(isOpenNow(HOURS_OVERNIGHT_BAR, now)).toBe(false);
   });
 
+  // Test 4b: overnight across the week boundary — Sat 10pm → Sun 3am.
+  // Sun 1am ET (EDT) = Sun 05:00 UTC; 2026-05-10 is a Sunday.
+  it('returns true for a Saturday-night period after midnight Sunday', () => {
+    const satNight = makeHours([
+      { open: { day: 6, hour: 22, minute: 0 }, close: { day: 0, hour: 3, minute: 0 } },
+    ]);
+    expect(isOpenNow(satNight, new Date('2026-05-10T05:00:00Z'))).toBe(true);
+    expect(isOpenNow(satNight, new Date('2026-05-10T08:00:00Z'))).toBe(false); // Sun 4am ET
+  });
+
   // Test 5: null hoursJson
   it('returns false when hoursJson is null', () => {
     const now = new Date('2026-05-04T18:00:00Z');
@@ -259,6 +270,55 @@ describe('parseHoursForDay', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Date-specific overrides
+// ---------------------------------------------------------------------------
+
+describe('hours overrides', () => {
+  // 2026-11-26 is Thanksgiving (Thursday); EST, UTC-5.
+  const THANKSGIVING_CLOSED = withHoursOverrides(HOURS_9_TO_5, [
+    { date: '2026-11-26', closed: true, open_time: null, close_time: null, note: 'Thanksgiving' },
+  ])!;
+
+  it('is closed all day on a closed override', () => {
+    expect(isOpenNow(THANKSGIVING_CLOSED, new Date('2026-11-26T17:00:00Z'))).toBe(false); // Thu noon ET
+    expect(getClosingTime(THANKSGIVING_CLOSED, new Date('2026-11-26T17:00:00Z'))).toBeNull();
+  });
+
+  it('falls back to the weekly periods on other days', () => {
+    expect(isOpenNow(THANKSGIVING_CLOSED, new Date('2026-11-27T17:00:00Z'))).toBe(true); // Fri noon ET
+  });
+
+  it('replaces the weekly periods with custom hours running past midnight', () => {
+    // New Year's Eve 2026 (Thursday): 6pm–3am instead of 9am–5pm.
+    const nye = withHoursOverrides(HOURS_9_TO_5, [
+      { date: '2026-12-31', closed: false, open_time: '18:00', close_time: '03:00', note: null },
+    ])!;
+    expect(isOpenNow(nye, new Date('2026-12-31T17:00:00Z'))).toBe(false); // Thu noon ET
+    const now = new Date('2027-01-01T07:30:00Z'); // Fri 2:30am ET
+    expect(isOpenNow(nye, now)).toBe(true);
+    expect(getClosingTime(nye, now)!.getTime()).toBe(now.getTime() + 30 * 60 * 1000);
+  });
+
+  it("keeps yesterday's weekly hours running past midnight into an overridden day", () => {
+    const hours = withHoursOverrides(HOURS_OVERNIGHT_BAR, [
+      { date: '2026-05-06', closed: true, open_time: null, close_time: null, note: null },
+    ])!;
+    expect(isOpenNow(hours, new Date('2026-05-06T05:30:00Z'))).toBe(true); // Wed 1:30am ET
+  });
+
+  it('lets an admin override win over a stored one on the same date', () => {
+    const google = { ...HOURS_9_TO_5, overrides: [
+      { date: '2026-11-26', closed: true, open_time: null, close_time: null, note: null },
+    ] };
+    const merged = withHoursOverrides(google, [
+      { date: '2026-11-26', closed: false, open_time: '12:00', close_time: '16:00', note: 'Thanksgiving' },
+    ])!;
+    expect(merged.overrides).toHaveLength(1);
+    expect(isOpenNow(merged, new Date('2026-11-26T18:00:00Z'))).toBe(true); // Thu 1pm ET
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Timezone conversion test (Test 15)
 // ---------------------------------------------------------------------------
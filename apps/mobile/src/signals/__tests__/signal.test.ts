@@ -5,7 +5,7 @@ jest.mock('@eve/shared-types', () => ({
   EVE_TIMEZONE: 'America/New_York',
 }));
 
-import type { PlaceResponse, HoursJson } from '@eve/shared-types';
+import type { PlaceResponse, PlaceSpecial, HoursJson, EventOccurrenceResponse } from '@eve/shared-types';
 import { computeSignal, parseHappyHour } from '../signal';
 
 // ---------------------------------------------------------------------------
@@ -44,6 +44,32 @@ function makePlaceResponse(overrides: Partial<PlaceResponse> = {}): PlaceRespons
   };
 }
 
+function makeSpecial(overrides: Partial<PlaceSpecial> = {}): PlaceSpecial {
+  return {
+    days: [0, 1, 2, 3, 4],
+    start_time: '16:00',
+    end_time: '19:00',
+    until_close: false,
+    description: 'Half-price drafts',
+    price: null,
+    ...overrides,
+  };
+}
+
+function makeEvent(overrides: Partial<EventOccurrenceResponse> = {}): EventOccurrenceResponse {
+  return {
+    key: 'event-id',
+    place_key: 'test-id',
+    title: 'Jazz trio',
+    description: null,
+    starts_at: '2026-05-05T01:00:00Z', // Mon 9pm ET
+    ends_at: '2026-05-05T04:00:00Z',
+    recurrence: null,
+    tags: ['live-music'],
+    ...overrides,
+  };
+}
+
 /** Mon 9am–10pm hours (open all day Monday for closing-soon tests) */
 const HOURS_MON_9_22: HoursJson = makeHours([
   { open: { day: 1, hour: 9, minute: 0 }, close: { day: 1, hour: 22, minute: 0 } },
@@ -113,6 +139,20 @@ describe('computeSignal — closing soon', () => {
     expect(result.label).toContain('Closes in');
   });
 
+  it('closes early on an hours override', () => {
+    // Normally open until 10pm Mon; closing at 9pm today instead.
+    const now = new Date('2026-05-05T00:30:00Z'); // Mon 8:30pm ET
+    const place = makePlaceResponse({
+      hours_json: {
+        ...HOURS_MON_9_22,
+        overrides: [{ date: '2026-05-04', closed: false, open_time: '09:00', close_time: '21:00', note: null }],
+      },
+    });
+    const result = computeSignal(place, now);
+    expect(result.kind).toBe('closing');
+    expect(result.label).toBe('Closes in 30m');
+  });
+
   it('returns kind=null (not closing soon) when >60min until close', () => {
     // Closes 10pm Mon; now = 2pm ET Mon = 18:00 UTC
     const now = new Date('2026-05-04T18:00:00Z'); // Mon 2pm ET
@@ -184,6 +224,103 @@ describe('computeSignal — no signal', () => {
     const result = computeSignal(place, now);
     expect(result.kind).toBeNull();
   });
+
+  it('returns kind=null for a temporarily closed place whose hours say open', () => {
+    const now = new Date('2026-05-04T20:30:00Z'); // Mon 4:30pm ET
+    const place = makePlaceResponse({
+      specials: 'Happy Hour 4-7pm',
+      hours_json: HOURS_MON_9_22,
+      status: 'temporarily_closed',
+    });
+    expect(computeSignal(place, now).kind).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// computeSignal — structured specials
+// ---------------------------------------------------------------------------
+
+describe('computeSignal — structured specials', () => {
+  it('uses specials_schedule for a Sun–Thu happy hour', () => {
+    const now = new Date('2026-05-04T20:30:00Z'); // Mon 4:30pm ET
+    const place = makePlaceResponse({ specials_schedule: [makeSpecial()] });
+    const result = computeSignal(place, now);
+    expect(result.kind).toBe('happy');
+    expect(result.label).toBe('Happy hour -- 2h 30m left');
+  });
+
+  it('ignores the free-text specials when a schedule exists', () => {
+    const now = new Date('2026-05-04T20:30:00Z'); // Mon 4:30pm ET
+    const place = makePlaceResponse({
+      specials: 'Happy Hour 4-7pm',
+      specials_schedule: [makeSpecial({ days: [5] })],
+    });
+    expect(computeSignal(place, now).kind).not.toBe('happy');
+  });
+
+  it('runs a special past midnight into the next day', () => {
+    const now = new Date('2026-05-05T05:30:00Z'); // Tue 1:30am ET
+    const place = makePlaceResponse({
+      specials_schedule: [makeSpecial({ days: [1], start_time: '22:00', end_time: '02:00' })],
+    });
+    const result = computeSignal(place, now);
+    expect(result.kind).toBe('happy');
+    expect(result.urgent).toBe(true);
+    expect(result.label).toBe('Happy hour -- 30m left');
+  });
+
+  it('ends an until-close special at the closing time', () => {
+    const now = new Date('2026-05-05T01:30:00Z'); // Mon 9:30pm ET, closes 10pm
+    const place = makePlaceResponse({
+      hours_json: HOURS_MON_9_22,
+      specials_schedule: [makeSpecial({ days: [1], start_time: '21:00', end_time: null, until_close: true })],
+    });
+    const result = computeSignal(place, now);
+    expect(result.kind).toBe('happy');
+    expect(result.label).toBe('Happy hour -- 30m left');
+  });
+
+  it('does not signal an until-close special without opening hours', () => {
+    const now = new Date('2026-05-05T01:30:00Z'); // Mon 9:30pm ET
+    const place = makePlaceResponse({
+      specials_schedule: [makeSpecial({ days: [1], start_time: '21:00', end_time: null, until_close: true })],
+    });
+    expect(computeSignal(place, now).kind).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// computeSignal — events
+// ---------------------------------------------------------------------------
+
+describe('computeSignal — events', () => {
+  it('signals live music starting within 4 hours', () => {
+    const now = new Date('2026-05-04T22:15:00Z'); // Mon 6:15pm ET
+    const result = computeSignal(makePlaceResponse(), now, [makeEvent()]);
+    expect(result.kind).toBe('music');
+    expect(result.label).toBe('Live music at 9 PM');
+  });
+
+  it('signals a DJ set that is already running', () => {
+    const now = new Date('2026-05-05T01:30:00Z'); // Mon 9:30pm ET
+    const result = computeSignal(makePlaceResponse(), now, [makeEvent({ tags: ['dj'] })]);
+    expect(result.kind).toBe('music');
+    expect(result.label).toBe('DJ now');
+  });
+
+  it('ignores other places and non-music events', () => {
+    const now = new Date('2026-05-04T22:15:00Z'); // Mon 6:15pm ET
+    const events = [makeEvent({ place_key: 'other-id' }), makeEvent({ tags: ['trivia'] })];
+    expect(computeSignal(makePlaceResponse(), now, events).kind).toBeNull();
+  });
+
+  it('prefers listed events over the specials text', () => {
+    const now = new Date('2026-05-04T22:15:00Z'); // Mon 6:15pm ET
+    const place = makePlaceResponse({ specials: 'Live music at 7pm' });
+    const later = makeEvent({ starts_at: '2026-05-06T01:00:00Z', ends_at: null }); // Tue 9pm ET
+    expect(computeSignal(place, now, [later]).kind).toBeNull();
+    expect(computeSignal(place, now, []).label).toBe('Live music at 7 PM');
+  });
 });
 
 // ---------------------------------------------------------------------------
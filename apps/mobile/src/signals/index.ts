@@ -1,5 +1,5 @@
 export { useSignal, useOpenStatus } from './useSignal';
 export { computeSignal, parseHappyHour } from './signal';
 export type { SignalKind, SignalResult } from './signal';
-export { isOpenNow, getClosingTime, formatClosesIn, isAlwaysOpen, parseHoursForDay } from './hours';
+export { isOpenNow, getClosingTime, formatClosesIn, isAlwaysOpen, parseHoursForDay } from '@eve/hours';
 export type { HoursJson } from '@eve/shared-types';
@@ -1,5 +1,5 @@
-import { PlaceResponse, EVE_TIMEZONE } from '@eve/shared-types';
-import { isOpenNow, getClosingTime, isAlwaysOpen } from './hours';
+import { PlaceResponse, PlaceSpecial, HoursJson, EventOccurrenceResponse, EVE_TIMEZONE } from '@eve/shared-types';
+import { isOpenNow, getClosingTime, isAlwaysOpen } from '@eve/hours';
 
 export type SignalKind = 'happy' | 'closing' | 'music' | 'always' | 'walkin';
 
@@ -69,7 +69,8 @@ interface HappyHourPeriod {
 }
 
 /**
- * Best-effort regex parser for free-text specials fields.
+ * Best-effort regex parser for free-text specials fields — the fallback for
+ * places without structured specials (PlaceResponse.specials_schedule).
  * Handles:
  *   'happy hour 4-7'
  *   'HH 4pm-7pm'
@@ -165,45 +166,162 @@ function formatTime(hour: number, minute: number): string {
   return `${h}:${String(minute).padStart(2, '0')} ${suffix}`;
 }
 
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+
+/** "HH:MM" to minutes after midnight; null when malformed. */
+function parseClock(value: string | null): number | null {
+  const m = value ? /^(\d{1,2}):(\d{2})$/.exec(value) : null;
+  if (!m) return null;
+  const hour = parseInt(m[1], 10);
+  const minute = parseInt(m[2], 10);
+  return hour < 24 && minute < 60 ? hour * 60 + minute : null;
+}
+
+/**
+ * Minutes left in the first structured special running at `now`, or null
+ * when none is. An "until close" special ends at the closing time from
+ * hours_json, so it only counts while the place is known to be open — and
+ * only when that close is under a day after the special started, so
+ * yesterday's special is not still "on" today.
+ */
+function structuredSpecialRemaining(
+  specials: PlaceSpecial[],
+  hoursJson: HoursJson | null,
+  now: Date
+): number | null {
+  const { day, hour, minute } = getETComponents(now);
+  const nowWeek = day * DAY_MINUTES + hour * 60 + minute;
+
+  let untilClose: number | null | undefined;
+  const minutesUntilClose = (): number | null => {
+    if (untilClose === undefined) {
+      const closingTime = isOpenNow(hoursJson, now) ? getClosingTime(hoursJson, now) : null;
+      untilClose = closingTime ? Math.floor((closingTime.getTime() - now.getTime()) / 60_000) : null;
+    }
+    return untilClose;
+  };
+
+  for (const special of specials) {
+    const start = parseClock(special.start_time);
+    if (start === null) continue;
+    const end = special.until_close ? null : parseClock(special.end_time);
+    if (!special.until_close && end === null) continue;
+
+    for (const startDay of special.days) {
+      const elapsed = (nowWeek - (startDay * DAY_MINUTES + start) + WEEK_MINUTES) % WEEK_MINUTES;
+      if (end !== null) {
+        // An end at or before the start runs past midnight.
+        const duration = (end - start + DAY_MINUTES) % DAY_MINUTES || DAY_MINUTES;
+        if (elapsed < duration) return duration - elapsed;
+      } else {
+        const remaining = minutesUntilClose();
+        if (remaining !== null && remaining > 0 && elapsed + remaining <= DAY_MINUTES) return remaining;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Minutes left in the happy hour running at `now`, or null. Structured
+ * specials win; the free-text parser is only a fallback for places that
+ * have none.
+ */
+function happyHourRemaining(place: PlaceResponse, now: Date): number | null {
+  const schedule = place.specials_schedule ?? [];
+  if (schedule.length > 0) {
+    return structuredSpecialRemaining(schedule, place.hours_json ?? null, now);
+  }
+
+  const happyPeriods = parseHappyHour(place.specials ?? null);
+  if (happyPeriods.length === 0) return null;
+
+  const { day, hour, minute } = getETComponents(now);
+  const nowTotalMinutes = day * 24 * 60 + hour * 60 + minute;
+
+  for (const period of happyPeriods) {
+    if (period.day !== day) continue;
+
+    const startTotal = period.day * 24 * 60 + period.start.hour * 60 + period.start.minute;
+    const endTotal = period.day * 24 * 60 + period.end.hour * 60 + period.end.minute;
+
+    if (nowTotalMinutes >= startTotal && nowTotalMinutes < endTotal) {
+      return endTotal - nowTotalMinutes;
+    }
+  }
+  return null;
+}
+
+const MUSIC_LOOKAHEAD_MS = 4 * 60 * 60 * 1000;
+
+/**
+ * The music signal from the place's listed events: one running now, or the
+ * next starting within 4 hours. Undefined when the place has no live-music
+ * or DJ events in `events`, so the caller falls back to the specials text;
+ * null when it has some but none is close enough.
+ */
+function musicFromEvents(
+  place: PlaceResponse,
+  events: EventOccurrenceResponse[],
+  now: Date
+): SignalResult | null | undefined {
+  const music = events.filter(
+    (e) => e.place_key === place.key && (e.tags.includes('live-music') || e.tags.includes('dj'))
+  );
+  if (music.length === 0) return undefined;
+
+  const nowMs = now.getTime();
+  let next: { event: EventOccurrenceResponse; start: number } | null = null;
+  for (const event of music) {
+    const start = Date.parse(event.starts_at);
+    const end = event.ends_at ? Date.parse(event.ends_at) : null;
+    const what = event.tags.includes('live-music') ? 'Live music' : 'DJ';
+    if (start <= nowMs && end !== null && nowMs < end) {
+      return { kind: 'music', urgent: false, label: `${what} now` };
+    }
+    if (start >= nowMs && start - nowMs <= MUSIC_LOOKAHEAD_MS && (!next || start < next.start)) {
+      next = { event, start };
+    }
+  }
+  if (!next) return null;
+
+  const { hour, minute } = getETComponents(new Date(next.start));
+  const what = next.event.tags.includes('live-music') ? 'Live music' : 'DJ';
+  return { kind: 'music', urgent: false, label: `${what} at ${formatTime(hour, minute)}` };
+}
+
 /**
  * Compute the contextual signal for a place at a given moment.
  * Implements priority cascade: happy hour > closing soon > music > always open > walk-ins > null.
+ * `events` are upcoming event occurrences (GET /api/events); when the place
+ * has live-music or DJ events among them, they replace the specials-text
+ * guess for the music signal. A closed place (status other than 'open')
+ * gets no signal.
  * Pure function — no Date.now(), no side effects.
  */
-export function computeSignal(place: PlaceResponse, now: Date): SignalResult {
+export function computeSignal(place: PlaceResponse, now: Date, events?: EventOccurrenceResponse[]): SignalResult {
   const NO_SIGNAL: SignalResult = { kind: null, urgent: false, label: null };
+  if (place.status !== undefined && place.status !== 'open') return NO_SIGNAL;
 
   const hoursJson = place.hours_json ?? null;
   const specials = place.specials ?? null;
 
   // --- 1. Happy hour ---
-  const happyPeriods = parseHappyHour(specials);
-  if (happyPeriods.length > 0) {
-    const { day, hour, minute } = getETComponents(now);
-    const nowTotalMinutes = day * 24 * 60 + hour * 60 + minute;
-
-    for (const period of happyPeriods) {
-      if (period.day !== day) continue;
-
-      const startTotal = period.day * 24 * 60 + period.start.hour * 60 + period.start.minute;
-      const endTotal = period.day * 24 * 60 + period.end.hour * 60 + period.end.minute;
-
-      if (nowTotalMinutes >= startTotal && nowTotalMinutes < endTotal) {
-        const remainingMinutes = endTotal - nowTotalMinutes;
-        const urgent = remainingMinutes < 60;
-        let label: string;
-
-        if (remainingMinutes >= 60) {
-          const h = Math.floor(remainingMinutes / 60);
-          const m = remainingMinutes % 60;
-          label = `Happy hour -- ${h}h ${m}m left`;
-        } else {
-          label = `Happy hour -- ${remainingMinutes}m left`;
-        }
-
-        return { kind: 'happy', urgent, label };
-      }
+  const remainingMinutes = happyHourRemaining(place, now);
+  if (remainingMinutes !== null) {
+    const urgent = remainingMinutes < 60;
+    let label: string;
+
+    if (remainingMinutes >= 60) {
+      const h = Math.floor(remainingMinutes / 60);
+      const m = remainingMinutes % 60;
+      label = `Happy hour -- ${h}h ${m}m left`;
+    } else {
+      label = `Happy hour -- ${remainingMinutes}m left`;
     }
+
+    return { kind: 'happy', urgent, label };
   }
 
   // --- 2. Closing soon ---
@@ -223,7 +341,9 @@ export function computeSignal(place: PlaceResponse, now: Date): SignalResult {
   }
 
   // --- 3. Live music / event within 4 hours ---
-  if (specials) {
+  const eventMusic = events ? musicFromEvents(place, events, now) : undefined;
+  if (eventMusic) return eventMusic;
+  if (eventMusic === undefined && specials) {
     const lowerSpecials = specials.toLowerCase();
     if (lowerSpecials.includes('live music')) {
       // Find "live music at X PM" or "live music X PM" patterns
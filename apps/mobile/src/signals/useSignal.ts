@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
-import type { PlaceResponse } from '@eve/shared-types';
-import { isOpenNow, getClosingTime, formatClosesIn } from './hours';
+import type { PlaceResponse, EventOccurrenceResponse } from '@eve/shared-types';
+import { isOpenNow, getClosingTime, formatClosesIn } from '@eve/hours';
 import { computeSignal } from './signal';
 import type { SignalResult } from './signal';
 
@@ -60,7 +60,7 @@ export function useOpenStatus(place: PlaceResponse | undefined): OpenStatus {
   return status;
 }
 
-export function useSignal(place: PlaceResponse | undefined): SignalResult {
+export function useSignal(place: PlaceResponse | undefined, events?: EventOccurrenceResponse[]): SignalResult {
   const [signal, setSignal] = useState<SignalResult>(DEFAULT_SIGNAL);
 
   const compute = useCallback(() => {
@@ -68,8 +68,8 @@ export function useSignal(place: PlaceResponse | undefined): SignalResult {
       setSignal(DEFAULT_SIGNAL);
       return;
     }
-    setSignal(computeSignal(place, new Date()));
-  }, [place]);
+    setSignal(computeSignal(place, new Date(), events));
+  }, [place, events]);
 
   useEffect(() => {
     compute();
@@ -0,0 +1,54 @@
+import * as Location from 'expo-location';
+import { useEffect, useState } from 'react';
+
+export interface DeviceLocation {
+  lat: number;
+  lng: number;
+}
+
+// ~110 m of latitude. Coarse enough that walking around doesn't refetch
+// distances on every fix, and that exact positions never leave the device.
+const COORDINATE_DECIMALS = 3;
+
+function round(value: number): number {
+  const factor = 10 ** COORDINATE_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Foreground location, requested only once `enabled` turns true (i.e. the
+ * user picked the "nearest" sort) so the permission prompt has context.
+ * Resolves to null while pending, or when permission is denied or the fix
+ * fails — callers fall back to their non-distance behaviour.
+ */
+export function useDeviceLocation(enabled: boolean): DeviceLocation | null {
+  const [location, setLocation] = useState<DeviceLocation | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    async function locate() {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== Location.PermissionStatus.GRANTED) return;
+
+        const position =
+          (await Location.getLastKnownPositionAsync({ maxAge: 5 * 60_000 }))
+          ?? (await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }));
+        if (cancelled) return;
+
+        setLocation({ lat: round(position.coords.latitude), lng: round(position.coords.longitude) });
+      } catch {
+        // Location services off or unavailable — stay null.
+      }
+    }
+
+    void locate();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return location;
+}
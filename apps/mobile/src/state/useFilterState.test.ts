@@ -3,6 +3,7 @@ import type { PlaceV2Display } from '../data/placeV2Display';
 
 const place = (tags: string[]): PlaceV2Display => ({
   key: 'k',
+  slug: null,
   name: 'X',
   street: null,
   cross: null,
@@ -10,6 +11,7 @@ const place = (tags: string[]): PlaceV2Display => ({
   hoursJson: null,
   vibe: null,
   photo: null,
+  photoThumb: null,
   photoCredit: null,
   specials: null,
   notes: null,
@@ -19,6 +21,7 @@ const place = (tags: string[]): PlaceV2Display => ({
   insider: null,
   crowd: null,
   distance: null,
+  distanceM: null,
   closesIn: null,
   signal: null,
   crowdLevel: null,
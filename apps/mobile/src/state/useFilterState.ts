@@ -144,22 +144,16 @@ function applySort(places: PlaceV2Display[], sortMode: SortMode): PlaceV2Display
 
     case 'nearest': {
       // Fall back to a-z when distance is null on all items
-      const anyDistance = places.some((p) => p.distance !== null);
+      const anyDistance = places.some((p) => p.distanceM !== null);
       if (!anyDistance) {
         sorted.sort((a, b) => a.name.localeCompare(b.name));
       } else {
         // Null-distance items go to the end
         sorted.sort((a, b) => {
-          if (a.distance === null && b.distance === null) return a.name.localeCompare(b.name);
-          if (a.distance === null) return 1;
-          if (b.distance === null) return -1;
-          // distance is a display string like "0.3 mi"; parse numeric prefix
-          const aNum = parseFloat(a.distance);
-          const bNum = parseFloat(b.distance);
-          if (isNaN(aNum) && isNaN(bNum)) return a.name.localeCompare(b.name);
-          if (isNaN(aNum)) return 1;
-          if (isNaN(bNum)) return -1;
-          return aNum - bNum;
+          if (a.distanceM === null && b.distanceM === null) return a.name.localeCompare(b.name);
+          if (a.distanceM === null) return 1;
+          if (b.distanceM === null) return -1;
+          return a.distanceM - b.distanceM || a.name.localeCompare(b.name);
         });
       }
       break;
@@ -0,0 +1,23 @@
+/**
+ * Tombstones for deleted places.
+ *
+ * PlaceModel.delete used to remove the row with no trace, so a client holding
+ * a cached place list could never learn that a place was gone without
+ * re-downloading everything. The delta feed (GET /api/places/changes) reads
+ * this table to report deletions since a cursor.
+ *
+ * place_id deliberately has no FK — the referenced row no longer exists.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('place_tombstones', {
+    place_id: { type: 'uuid', primaryKey: true },
+    deleted_at: { type: 'timestamptz', notNull: true, default: pgm.func('now()') },
+  });
+
+  pgm.createIndex('place_tombstones', 'deleted_at');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('place_tombstones');
+};
@@ -0,0 +1,39 @@
+/**
+ * Restore the parent/child tag hierarchy.
+ *
+ * Migration 0007 dropped tags.parent_tag_id along with the Phase A columns,
+ * but the hierarchy is now modelled for real by TagModel (create/update with
+ * a parent, one level of nesting, has_children maintained on write). This
+ * re-adds the column — IF NOT EXISTS, because 0007 is a cutover migration
+ * that some databases have not applied yet — and recomputes has_children.
+ *
+ * ON DELETE SET NULL (not CASCADE as in 0002): deleting a group tag turns
+ * its children into standalone tags instead of deleting them and stripping
+ * them from every place.
+ */
+
+exports.up = (pgm) => {
+  pgm.sql('ALTER TABLE tags ADD COLUMN IF NOT EXISTS parent_tag_id uuid;');
+  // Replace 0002's CASCADE constraint where 0007 never ran.
+  pgm.sql('ALTER TABLE tags DROP CONSTRAINT IF EXISTS tags_parent_tag_id_fkey;');
+  pgm.sql(`
+    ALTER TABLE tags
+      ADD CONSTRAINT tags_parent_tag_id_fkey
+      FOREIGN KEY (parent_tag_id) REFERENCES tags(id) ON DELETE SET NULL;
+  `);
+  pgm.sql(`
+    COMMENT ON COLUMN tags.parent_tag_id IS 'Parent tag ID for nested tags (NULL = top-level)';
+  `);
+  pgm.sql('CREATE INDEX IF NOT EXISTS tags_parent_tag_id_index ON tags (parent_tag_id);');
+
+  pgm.sql(`
+    UPDATE tags
+    SET has_children = EXISTS (SELECT 1 FROM tags c WHERE c.parent_tag_id = tags.id);
+  `);
+};
+
+exports.down = (pgm) => {
+  pgm.sql('DROP INDEX IF EXISTS tags_parent_tag_id_index;');
+  pgm.dropColumn('tags', 'parent_tag_id');
+  pgm.sql('UPDATE tags SET has_children = false;');
+};
@@ -0,0 +1,37 @@
+/**
+ * Enable the cube + earthdistance contrib extensions and index places by
+ * location for `GET /api/places?near=lat,lng&radius_m=`.
+ *
+ * WHY earthdistance (not PostGIS):
+ *   - Both ship with Postgres core (contrib); PostGIS would be a new system
+ *     dependency for every environment. At neighbourhood scale the
+ *     spherical-earth error of earthdistance is far below GPS noise.
+ *
+ * INDEX EXPRESSION INVARIANT:
+ *   The GiST index is on `ll_to_earth(lat, lng)`. PlaceModel.findAll's radius
+ *   condition (`earth_box(...) @> ll_to_earth(p.lat, p.lng)`) must use the
+ *   same expression, or the planner falls back to a sequential scan. The
+ *   partial-index predicate matches the `lat/lng IS NOT NULL` condition that
+ *   findAll adds to every near query.
+ *
+ * DOWN / CASCADE NOTE:
+ *   Same policy as 1706457600008: down() drops the index and extensions
+ *   without CASCADE, so it fails loudly if something else depends on them.
+ */
+
+exports.up = (pgm) => {
+  pgm.sql('CREATE EXTENSION IF NOT EXISTS cube;');
+  pgm.sql('CREATE EXTENSION IF NOT EXISTS earthdistance;');
+
+  pgm.sql(`
+    CREATE INDEX IF NOT EXISTS places_earth_idx
+    ON places USING gist (ll_to_earth(lat, lng))
+    WHERE lat IS NOT NULL AND lng IS NOT NULL;
+  `);
+};
+
+exports.down = (pgm) => {
+  pgm.sql('DROP INDEX IF EXISTS places_earth_idx;');
+  pgm.sql('DROP EXTENSION IF EXISTS earthdistance;');
+  pgm.sql('DROP EXTENSION IF EXISTS cube;');
+};
@@ -0,0 +1,33 @@
+/**
+ * Record where a place's lat/lng came from.
+ *
+ *   'google' — written by `scripts/enrich-places.ts --geocode`
+ *   'manual' — set by an admin; the geocoder never overwrites these
+ *   NULL     — no coordinates
+ *
+ * Coordinates that already exist predate the geocoder, so they can only have
+ * been entered by hand: they are backfilled as 'manual'.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumn('places', {
+    location_source: {
+      type: 'varchar(20)',
+      notNull: false,
+    },
+  });
+
+  pgm.addConstraint('places', 'places_location_source_check', {
+    check: "location_source IN ('google', 'manual')",
+  });
+
+  pgm.sql(`
+    UPDATE places SET location_source = 'manual'
+    WHERE lat IS NOT NULL AND lng IS NOT NULL
+  `);
+};
+
+exports.down = (pgm) => {
+  pgm.dropConstraint('places', 'places_location_source_check');
+  pgm.dropColumn('places', 'location_source');
+};
@@ -0,0 +1,77 @@
+/**
+ * Stage enrichment matches for admin review.
+ *
+ * scripts/enrich-places.ts used to write the Text Search match straight into
+ * places, so a wrong match silently replaced a listing's hours and price.
+ * Backfill now inserts a row here instead and sets the place's
+ * enrichment_status to 'pending_review'; the admin enrichment queue accepts
+ * (copies the proposal onto the place), rejects, or re-matches it.
+ *
+ * places.enrichment_status values after this migration:
+ *   'pending' / NULL — never enriched (the column default is 'pending')
+ *   'pending_review' — a pending proposal is waiting in the queue
+ *   'ok'             — a proposal was accepted (or a refresh succeeded)
+ *   'rejected'       — the admin rejected the match; backfill leaves it alone
+ *   'rematch'        — the admin asked for another Text Search, optionally
+ *                      with places.enrichment_query as the search text
+ *   'failed'         — the last lookup failed
+ *
+ * ONE PENDING PROPOSAL PER PLACE:
+ *   Enforced by a partial unique index. Staging a new proposal marks any
+ *   older pending one 'superseded' in the same transaction.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumn('places', {
+    enrichment_query: {
+      type: 'text',
+      notNull: false,
+    },
+  });
+
+  pgm.createTable('enrichment_proposals', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('uuid_generate_v4()'),
+    },
+    place_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'places',
+      onDelete: 'CASCADE',
+    },
+    search_query: { type: 'text', notNull: true },
+    google_place_id: { type: 'varchar(255)', notNull: true },
+    matched_name: { type: 'text', notNull: false },
+    matched_address: { type: 'text', notNull: false },
+    hours_json: { type: 'jsonb', notNull: false },
+    google_price_level: { type: 'integer', notNull: false },
+    status: {
+      type: 'varchar(20)',
+      notNull: true,
+      default: pgm.func("'pending'"),
+      check: "status IN ('pending', 'accepted', 'rejected', 'superseded')",
+    },
+    created_at: { type: 'timestamptz', notNull: true, default: pgm.func('now()') },
+    reviewed_at: { type: 'timestamptz', notNull: false },
+    reviewed_by: {
+      type: 'uuid',
+      notNull: false,
+      references: 'users',
+      onDelete: 'SET NULL',
+    },
+  });
+
+  pgm.createIndex('enrichment_proposals', 'place_id', {
+    name: 'enrichment_proposals_one_pending_idx',
+    unique: true,
+    where: "status = 'pending'",
+  });
+  pgm.createIndex('enrichment_proposals', 'created_at');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('enrichment_proposals');
+  pgm.dropColumn('places', 'enrichment_query');
+};
@@ -0,0 +1,57 @@
+/**
+ * Revision history for places, tags and neighborhoods.
+ *
+ * The models' create/update/delete used to overwrite rows with no trace of
+ * who changed what. Each write now appends a row here, in the same
+ * transaction, with the acting admin and the field-level before/after of the
+ * columns an admin can edit.
+ *
+ *   changes — {"<field>": {"before": <value>, "after": <value>}, ...};
+ *             only fields that changed. A place's tags appear as an array of
+ *             tag values under "tags".
+ *   reverted_revision_id — set on 'revert' rows: the revision whose state
+ *             was restored.
+ *
+ * entity_id deliberately has no FK: the history of a deleted row is kept.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('revisions', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('uuid_generate_v4()'),
+    },
+    entity_type: {
+      type: 'varchar(20)',
+      notNull: true,
+      check: "entity_type IN ('place', 'tag', 'neighborhood')",
+    },
+    entity_id: { type: 'uuid', notNull: true },
+    action: {
+      type: 'varchar(20)',
+      notNull: true,
+      check: "action IN ('create', 'update', 'delete', 'revert')",
+    },
+    actor_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'users',
+      onDelete: 'SET NULL',
+    },
+    changes: { type: 'jsonb', notNull: true, default: pgm.func("'{}'::jsonb") },
+    reverted_revision_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'revisions',
+      onDelete: 'SET NULL',
+    },
+    created_at: { type: 'timestamptz', notNull: true, default: pgm.func('now()') },
+  });
+
+  pgm.createIndex('revisions', ['entity_type', 'entity_id', 'created_at']);
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('revisions');
+};
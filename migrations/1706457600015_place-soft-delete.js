@@ -0,0 +1,48 @@
+/**
+ * Soft delete for places.
+ *
+ * Deleting a place used to remove the row, and the FK cascade took its
+ * place_tags with it, so a mistaken delete lost the tag assignments for good.
+ * PlaceModel.delete now sets deleted_at instead; trashed places are hidden
+ * from every read path, restorable from the admin Trash page with their tags
+ * intact, and hard-deleted once older than the retention period
+ * (PLACE_TRASH_RETENTION_DAYS, see scripts/purge-trash.ts).
+ *
+ * Trashing still writes a place_tombstones row so delta-syncing clients drop
+ * the place; restoring removes the tombstone and bumps updated_at so they
+ * pick it back up.
+ *
+ * Also allows a 'restore' action in revisions.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumn('places', {
+    deleted_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+  });
+
+  pgm.createIndex('places', 'deleted_at', {
+    name: 'places_deleted_at_idx',
+    where: 'deleted_at IS NOT NULL',
+  });
+
+  pgm.dropConstraint('revisions', 'revisions_action_check');
+  pgm.addConstraint('revisions', 'revisions_action_check', {
+    check: "action IN ('create', 'update', 'delete', 'revert', 'restore')",
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.sql(`DELETE FROM revisions WHERE action = 'restore'`);
+  pgm.dropConstraint('revisions', 'revisions_action_check');
+  pgm.addConstraint('revisions', 'revisions_action_check', {
+    check: "action IN ('create', 'update', 'delete', 'revert')",
+  });
+
+  // Without the column, trashed places would come back to life.
+  pgm.sql('DELETE FROM places WHERE deleted_at IS NOT NULL');
+  pgm.dropIndex('places', 'deleted_at', { name: 'places_deleted_at_idx' });
+  pgm.dropColumn('places', 'deleted_at');
+};
@@ -0,0 +1,26 @@
+/**
+ * Row version for optimistic concurrency on place edits.
+ *
+ * The admin edit form used to write whatever it held, so two editors with the
+ * same place open silently overwrote each other. The form now sends back the
+ * version it loaded; PlaceModel.update refuses the write when the row has
+ * moved on, and bumps version on every successful update.
+ *
+ * A counter rather than updated_at: the node driver turns timestamptz into a
+ * JS Date, which drops microseconds, so a round-tripped updated_at would not
+ * compare equal to the stored one.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumn('places', {
+    version: {
+      type: 'integer',
+      notNull: true,
+      default: 1,
+    },
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumn('places', 'version');
+};
@@ -0,0 +1,60 @@
+/**
+ * Draft/publish workflow for places.
+ *
+ * Every admin save used to go straight to the public API, so half-written
+ * pitches and specials were live the moment they were typed.
+ *
+ *   published_at — when the place first went live; NULL while it is still a
+ *                  draft. The public API and site only read published places.
+ *                  Existing places are backfilled as published at creation.
+ *   draft        — pending edits to a published place (the same field shape
+ *                  PlaceModel.update takes), kept off the live columns until
+ *                  published. Always NULL for unpublished places, whose own
+ *                  columns are the draft.
+ *   publish_at   — when the scheduler in the Express server should publish
+ *                  the place (or its draft). NULL when nothing is scheduled.
+ *
+ * Also allows a 'publish' action in revisions.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('places', {
+    published_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    draft: {
+      type: 'jsonb',
+      notNull: false,
+    },
+    publish_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+  });
+
+  pgm.sql('UPDATE places SET published_at = created_at');
+
+  // The scheduler polls for due rows every minute.
+  pgm.createIndex('places', 'publish_at', {
+    name: 'places_publish_at_idx',
+    where: 'publish_at IS NOT NULL',
+  });
+
+  pgm.dropConstraint('revisions', 'revisions_action_check');
+  pgm.addConstraint('revisions', 'revisions_action_check', {
+    check: "action IN ('create', 'update', 'delete', 'revert', 'restore', 'publish')",
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.sql(`DELETE FROM revisions WHERE action = 'publish'`);
+  pgm.dropConstraint('revisions', 'revisions_action_check');
+  pgm.addConstraint('revisions', 'revisions_action_check', {
+    check: "action IN ('create', 'update', 'delete', 'revert', 'restore')",
+  });
+
+  // Unpublished places become public again and pending drafts are lost.
+  pgm.dropIndex('places', 'publish_at', { name: 'places_publish_at_idx' });
+  pgm.dropColumns('places', ['published_at', 'draft', 'publish_at']);
+};
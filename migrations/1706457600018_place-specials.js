@@ -0,0 +1,75 @@
+/**
+ * Structured specials for places.
+ *
+ * Happy hours lived only in the free-text `specials` column, and the mobile
+ * signal engine guessed AM/PM and day ranges from it with a regex ("Sun-Thu"
+ * and "til close" came out wrong). Each row here is one recurring special:
+ * the days it starts on (0=Sunday), a start time, and either an end time or
+ * "until close". Times are Eastern wall-clock times; an end_time earlier than
+ * start_time runs past midnight. `specials` stays as the fallback text.
+ *
+ * Rows are replaced wholesale on every save (like place_tags), so there is
+ * no id referenced from elsewhere.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('place_specials', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('uuid_generate_v4()'),
+    },
+    place_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'places',
+      onDelete: 'CASCADE',
+    },
+    days: {
+      type: 'smallint[]',
+      notNull: true,
+    },
+    start_time: {
+      type: 'time',
+      notNull: true,
+    },
+    end_time: {
+      type: 'time',
+      notNull: false,
+    },
+    until_close: {
+      type: 'boolean',
+      notNull: true,
+      default: false,
+    },
+    description: {
+      type: 'text',
+      notNull: true,
+    },
+    price: {
+      type: 'numeric(8,2)',
+      notNull: false,
+    },
+    sort_order: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+  });
+
+  pgm.addConstraint('place_specials', 'place_specials_days_check', {
+    check: 'cardinality(days) > 0 AND days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]',
+  });
+  pgm.addConstraint('place_specials', 'place_specials_end_check', {
+    check: '(until_close AND end_time IS NULL) OR (NOT until_close AND end_time IS NOT NULL)',
+  });
+  pgm.addConstraint('place_specials', 'place_specials_price_check', {
+    check: 'price IS NULL OR price >= 0',
+  });
+
+  pgm.createIndex('place_specials', ['place_id', 'sort_order']);
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('place_specials');
+};
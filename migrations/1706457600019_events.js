@@ -0,0 +1,82 @@
+/**
+ * Events at places: one-off nights and weekly listings (live music, trivia,
+ * DJs). Until now these only existed as prose in `specials`, so the mobile
+ * `music` signal had to guess times from text.
+ *
+ * starts_at/ends_at are the first occurrence. A weekly event repeats at the
+ * same Eastern wall-clock time (so it doesn't shift an hour across DST) until
+ * recurrence_until, or indefinitely when that is null. Occurrences are
+ * expanded at query time rather than stored.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('events', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('uuid_generate_v4()'),
+    },
+    place_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'places',
+      onDelete: 'CASCADE',
+    },
+    title: {
+      type: 'text',
+      notNull: true,
+    },
+    description: {
+      type: 'text',
+      notNull: false,
+    },
+    starts_at: {
+      type: 'timestamptz',
+      notNull: true,
+    },
+    ends_at: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    recurrence: {
+      type: 'text',
+      notNull: false,
+    },
+    recurrence_until: {
+      type: 'timestamptz',
+      notNull: false,
+    },
+    tags: {
+      type: 'text[]',
+      notNull: true,
+      default: pgm.func("'{}'"),
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+    updated_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('current_timestamp'),
+    },
+  });
+
+  pgm.addConstraint('events', 'events_ends_check', {
+    check: 'ends_at IS NULL OR ends_at > starts_at',
+  });
+  pgm.addConstraint('events', 'events_recurrence_check', {
+    check: "recurrence IS NULL OR recurrence = 'weekly'",
+  });
+  pgm.addConstraint('events', 'events_until_check', {
+    check: 'recurrence_until IS NULL OR (recurrence IS NOT NULL AND recurrence_until >= starts_at)',
+  });
+
+  pgm.createIndex('events', 'place_id');
+  pgm.createIndex('events', 'starts_at');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('events');
+};
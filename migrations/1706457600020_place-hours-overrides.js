@@ -0,0 +1,61 @@
+/**
+ * Date-specific hours overrides entered by admins.
+ *
+ * hours_json only holds Google's weekly `regularOpeningHours`, so on
+ * Thanksgiving or New Year's Eve "open now" was confidently wrong. Each row
+ * replaces the weekly hours for one Eastern Time calendar day: closed all
+ * day, or open from open_time to close_time (a close at or before the open
+ * runs past midnight).
+ *
+ * Google's own special days are not stored here: enrichment keeps them in
+ * hours_json.overrides, which it rewrites on every refresh. The API merges
+ * the two, with these rows winning on the same date.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('place_hours_overrides', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('uuid_generate_v4()'),
+    },
+    place_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'places',
+      onDelete: 'CASCADE',
+    },
+    date: {
+      type: 'date',
+      notNull: true,
+    },
+    closed: {
+      type: 'boolean',
+      notNull: true,
+      default: false,
+    },
+    open_time: {
+      type: 'time',
+      notNull: false,
+    },
+    close_time: {
+      type: 'time',
+      notNull: false,
+    },
+    note: {
+      type: 'text',
+      notNull: false,
+    },
+  });
+
+  pgm.addConstraint('place_hours_overrides', 'place_hours_overrides_times_check', {
+    check: '(closed AND open_time IS NULL AND close_time IS NULL) OR (NOT closed AND open_time IS NOT NULL AND close_time IS NOT NULL)',
+  });
+  pgm.addConstraint('place_hours_overrides', 'place_hours_overrides_place_date_key', {
+    unique: ['place_id', 'date'],
+  });
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('place_hours_overrides');
+};
@@ -0,0 +1,52 @@
+/**
+ * Operating status for places.
+ *
+ * A bar closed for renovation or shut for good could only be deleted, which
+ * also dropped it from search and history. `status` keeps it listed with the
+ * reason; `reopens_on` is the expected reopening date (Eastern) of a
+ * temporarily closed place.
+ *
+ * Enrichment refresh records Google's `businessStatus` in
+ * google_business_status. When it changes to something that disagrees with
+ * `status`, the mapped status is put in `proposed_status` for an admin to
+ * apply or dismiss; nothing changes `status` without an admin.
+ */
+
+const STATUSES = "('open', 'temporarily_closed', 'permanently_closed')";
+
+exports.up = (pgm) => {
+  pgm.addColumns('places', {
+    status: {
+      type: 'text',
+      notNull: true,
+      default: 'open',
+    },
+    reopens_on: {
+      type: 'date',
+      notNull: false,
+    },
+    proposed_status: {
+      type: 'text',
+      notNull: false,
+    },
+    google_business_status: {
+      type: 'text',
+      notNull: false,
+    },
+  });
+
+  pgm.addConstraint('places', 'places_status_check', {
+    check: `status IN ${STATUSES}`,
+  });
+  pgm.addConstraint('places', 'places_proposed_status_check', {
+    check: `proposed_status IS NULL OR proposed_status IN ${STATUSES}`,
+  });
+  pgm.addConstraint('places', 'places_reopens_on_check', {
+    check: "reopens_on IS NULL OR status = 'temporarily_closed'",
+  });
+};
+
+exports.down = (pgm) => {
+  // The check constraints go with their columns.
+  pgm.dropColumns('places', ['status', 'reopens_on', 'proposed_status', 'google_business_status']);
+};
@@ -0,0 +1,84 @@
+/**
+ * Human-readable slugs for places.
+ *
+ * Places were only addressable by UUID. `slug` is generated from the name
+ * plus cross street when a place is created (PlaceModel slugify), can be
+ * edited in the admin, and is accepted wherever an id is.
+ *
+ * When a slug changes, the old one is kept in place_slug_redirects so links
+ * that were shared before a rename still resolve. A slug is never reused by
+ * another place while it redirects.
+ *
+ * Existing places are backfilled with the same rules, minus accent folding;
+ * duplicates get the first free -2, -3… in creation order.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('places', {
+    slug: {
+      type: 'text',
+      notNull: false,
+    },
+  });
+
+  // One place at a time, in creation order, so each suffixed candidate is
+  // checked against every slug assigned so far — a place actually named
+  // "Foo 2" must not collide with the second "Foo".
+  pgm.sql(`
+    DO $$
+    DECLARE
+      place RECORD;
+      base text;
+      candidate text;
+      n integer;
+    BEGIN
+      FOR place IN SELECT id, name, cross_street FROM places ORDER BY created_at, id LOOP
+        base := COALESCE(
+          NULLIF(
+            trim(BOTH '-' FROM regexp_replace(
+              lower(replace(replace(place.name || ' ' || COALESCE(place.cross_street, ''), '''', ''), '’', '')),
+              '[^a-z0-9]+', '-', 'g'
+            )),
+            ''
+          ),
+          'place'
+        );
+        candidate := base;
+        n := 2;
+        WHILE EXISTS (SELECT 1 FROM places WHERE slug = candidate) LOOP
+          candidate := base || '-' || n;
+          n := n + 1;
+        END LOOP;
+        UPDATE places SET slug = candidate WHERE id = place.id;
+      END LOOP;
+    END
+    $$;
+  `);
+
+  pgm.alterColumn('places', 'slug', { notNull: true });
+  pgm.addConstraint('places', 'places_slug_key', { unique: ['slug'] });
+
+  pgm.createTable('place_slug_redirects', {
+    slug: {
+      type: 'text',
+      primaryKey: true,
+    },
+    place_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'places',
+      onDelete: 'CASCADE',
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+  pgm.createIndex('place_slug_redirects', 'place_id');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('place_slug_redirects');
+  pgm.dropColumns('places', ['slug']);
+};
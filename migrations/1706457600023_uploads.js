@@ -0,0 +1,54 @@
+/**
+ * Uploads and their processed variants.
+ *
+ * The upload endpoints now orient and strip images and store resized/WebP
+ * copies beside the original (@eve/storage processImage). This table keeps
+ * what the pipeline produced, keyed by storage key, so a place's photo_url
+ * can be joined to its dimensions, blurhash and variants for responsive
+ * clients. Rows are written by the upload endpoints; uploads from before
+ * this migration have none and are served as before.
+ */
+
+exports.up = (pgm) => {
+  pgm.createTable('uploads', {
+    key: {
+      type: 'text',
+      primaryKey: true,
+    },
+    url: {
+      type: 'text',
+      notNull: true,
+    },
+    content_type: {
+      type: 'text',
+      notNull: true,
+    },
+    width: {
+      type: 'integer',
+      notNull: false,
+    },
+    height: {
+      type: 'integer',
+      notNull: false,
+    },
+    blurhash: {
+      type: 'text',
+      notNull: false,
+    },
+    variants: {
+      type: 'jsonb',
+      notNull: true,
+      default: pgm.func("'[]'::jsonb"),
+    },
+    created_at: {
+      type: 'timestamptz',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+  pgm.createIndex('uploads', 'url');
+};
+
+exports.down = (pgm) => {
+  pgm.dropTable('uploads');
+};
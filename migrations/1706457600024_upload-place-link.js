@@ -0,0 +1,35 @@
+/**
+ * Link uploads to the place that uses them.
+ *
+ * Nothing deleted stored objects, so photos that were replaced, or uploaded
+ * and never saved, stayed in storage forever. `uploads.place_id` is the
+ * place that last saved the upload as its photo (PlaceModel linkUpload);
+ * the upload GC (scripts/gc-uploads.ts) reports it when the photo is no
+ * longer referenced. Purging the place clears the link, not the row — the
+ * GC decides what to delete.
+ *
+ * Existing uploads are linked by matching places.photo_url.
+ */
+
+exports.up = (pgm) => {
+  pgm.addColumns('uploads', {
+    place_id: {
+      type: 'uuid',
+      notNull: false,
+      references: 'places',
+      onDelete: 'SET NULL',
+    },
+  });
+  pgm.createIndex('uploads', 'place_id');
+
+  pgm.sql(`
+    UPDATE uploads u
+    SET place_id = p.id
+    FROM places p
+    WHERE p.photo_url = u.url
+  `);
+};
+
+exports.down = (pgm) => {
+  pgm.dropColumns('uploads', ['place_id']);
+};
@@ -0,0 +1,53 @@
+/**
+ * Commit-ordered cursor for the places delta feed.
+ *
+ * GET /api/places/changes used to hand out MAX(updated_at) as its cursor.
+ * updated_at is NOW(), the start of the writing transaction, so a
+ * transaction that started before a poll and committed after it carried a
+ * timestamp older than the cursor that poll returned, and its change was
+ * never sent.
+ *
+ * change_xid is the id of the transaction that last changed the row, set by
+ * trigger wherever updated_at (deleted_at for tombstones) is written, so
+ * scripts and SQL consoles keep it right too. The cursor is now the xmin of
+ * a snapshot taken before reading changes: every transaction below it had
+ * finished, and anything at or above it is read again on the next poll (see
+ * CatalogModel.syncCursor). Existing rows get this migration's id.
+ */
+
+const TABLES = [
+  ['places', 'updated_at'],
+  ['tags', 'updated_at'],
+  ['place_tombstones', 'deleted_at'],
+];
+
+exports.up = (pgm) => {
+  pgm.sql(`
+    CREATE FUNCTION set_change_xid() RETURNS trigger AS $$
+    BEGIN
+      NEW.change_xid := pg_current_xact_id();
+      RETURN NEW;
+    END
+    $$ LANGUAGE plpgsql
+  `);
+
+  for (const [table, clock] of TABLES) {
+    pgm.addColumns(table, {
+      change_xid: { type: 'xid8', notNull: true, default: pgm.func('pg_current_xact_id()') },
+    });
+    pgm.createIndex(table, 'change_xid');
+    pgm.sql(`
+      CREATE TRIGGER ${table}_change_xid
+      BEFORE INSERT OR UPDATE OF ${clock} ON ${table}
+      FOR EACH ROW EXECUTE FUNCTION set_change_xid()
+    `);
+  }
+};
+
+exports.down = (pgm) => {
+  for (const [table] of TABLES) {
+    pgm.sql(`DROP TRIGGER ${table}_change_xid ON ${table}`);
+    pgm.dropColumns(table, ['change_xid']);
+  }
+  pgm.sql('DROP FUNCTION set_change_xid()');
+};
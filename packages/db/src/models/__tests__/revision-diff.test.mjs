@@ -0,0 +1,49 @@
+/**
+ * Unit tests for diffSnapshots() — the field-level before/after stored in
+ * revisions.changes.
+ *
+ * Test framework: Node built-in `node:test` + `node:assert`. Imports the
+ * compiled module, so build first; no database is needed (the pool only
+ * connects on first query).
+ *
+ * Run:
+ *   npm run build -w @eve/db && node --test packages/db/src/models/__tests__/revision-diff.test.mjs
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffSnapshots } from '../../../dist/models/revision.js';
+
+describe('diffSnapshots', () => {
+  test('records only the fields that changed', () => {
+    const changes = diffSnapshots(
+      { name: 'Veselka', specials: '$5 pierogi', lat: 40.729 },
+      { name: 'Veselka', specials: '$6 pierogi', lat: 40.729 }
+    );
+    assert.deepEqual(changes, { specials: { before: '$5 pierogi', after: '$6 pierogi' } });
+  });
+
+  test('compares tag arrays by value and order', () => {
+    assert.deepEqual(diffSnapshots({ tags: ['beer', 'late'] }, { tags: ['beer', 'late'] }), {});
+    assert.deepEqual(diffSnapshots({ tags: ['beer', 'late'] }, { tags: ['late', 'beer'] }), {
+      tags: { before: ['beer', 'late'], after: ['late', 'beer'] },
+    });
+  });
+
+  test('treats missing and null as the same value', () => {
+    assert.deepEqual(diffSnapshots({ notes: null }, {}), {});
+  });
+
+  test('a create records every field with a value', () => {
+    assert.deepEqual(diffSnapshots(null, { name: 'Veselka', notes: null }), {
+      name: { before: null, after: 'Veselka' },
+    });
+  });
+
+  test('a delete records every field that had a value', () => {
+    assert.deepEqual(diffSnapshots({ name: 'Veselka', sort_order: 0 }, null), {
+      name: { before: 'Veselka', after: null },
+      sort_order: { before: 0, after: null },
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Unit tests for slugify() — the URL form of a place name.
+ *
+ * Test framework: Node built-in `node:test` + `node:assert`. Imports the
+ * compiled module, so build first; no database is needed (the pool only
+ * connects on first query).
+ *
+ * Run:
+ *   npm run build -w @eve/db && node --test packages/db/src/models/__tests__/slugify.test.mjs
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { slugify } from '../../../dist/models/place.js';
+
+describe('slugify', () => {
+  test('lowercases and joins words with single hyphens', () => {
+    assert.equal(slugify('Old Ale House 7th St'), 'old-ale-house-7th-st');
+    assert.equal(slugify('Bar  &  Grill -- Upstairs'), 'bar-grill-upstairs');
+  });
+
+  test('drops apostrophes instead of splitting on them', () => {
+    assert.equal(slugify("McSorley's Old Ale House"), 'mcsorleys-old-ale-house');
+    assert.equal(slugify('Joe’s Pub'), 'joes-pub');
+  });
+
+  test('folds accents to ASCII', () => {
+    assert.equal(slugify('Café Mogador'), 'cafe-mogador');
+    assert.equal(slugify('Niñas Señoritas'), 'ninas-senoritas');
+  });
+
+  test('trims leading and trailing separators', () => {
+    assert.equal(slugify('  -The Library!- '), 'the-library');
+  });
+
+  test('is empty when nothing usable is left', () => {
+    assert.equal(slugify(''), '');
+    assert.equal(slugify('!!! ***'), '');
+    assert.equal(slugify('酒吧'), '');
+  });
+
+  test('leaves a slug unchanged', () => {
+    assert.equal(slugify('mcsorleys-old-ale-house-2'), 'mcsorleys-old-ale-house-2');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * A throwaway Postgres database for the model tests that need one, made the
+ * way scripts/enrichment/enrich.test.ts makes its own: created next to the
+ * database in TEST_DATABASE_URL, migrated, and dropped afterwards. The role
+ * needs CREATEDB (the docker-compose `eve` user has it).
+ */
+
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { fileURLToPath } from 'node:url';
+import pg from 'pg';
+import { runner } from 'node-pg-migrate';
+
+export const adminUrl = process.env.TEST_DATABASE_URL;
+
+const migrationsDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', '..', '..', '..', '..', 'migrations');
+
+/**
+ * Create and migrate `eve_<name>_<pid>`, then load the compiled @eve/db
+ * against it. The package's pool reads DATABASE_URL when first imported, so
+ * a test file using this must not import ../../../dist itself beforehand.
+ * Returns the models, a pool of its own for fixtures and assertions, and
+ * `drop` for after().
+ */
+export async function createTestDatabase(name) {
+  const dbName = `eve_${name}_${process.pid}`;
+  const admin = new pg.Pool({ connectionString: adminUrl, max: 1 });
+  await admin.query(`DROP DATABASE IF EXISTS ${dbName}`);
+  await admin.query(`CREATE DATABASE ${dbName}`);
+
+  const url = new URL(adminUrl);
+  url.pathname = `/${dbName}`;
+
+  // The seed-admin migration insists on a hash; any value will do here.
+  process.env.ADMIN_PASSWORD_HASH ??= `$2a$10$${'x'.repeat(53)}`;
+  await runner({
+    databaseUrl: url.toString(),
+    dir: migrationsDir,
+    direction: 'up',
+    migrationsTable: 'pgmigrations',
+    log: () => undefined,
+  });
+
+  process.env.DATABASE_URL = url.toString();
+  const models = await import('../../../dist/index.js');
+  const db = new pg.Pool({ connectionString: url.toString(), max: 2 });
+
+  async function drop() {
+    await db.end();
+    await models.pool.end();
+    // Pool#end resolves before the connections close, and the package's pool
+    // exits the process if one is terminated by the forced drop.
+    for (let i = 0; i < 50; i++) {
+      const result = await admin.query('SELECT count(*)::int AS count FROM pg_stat_activity WHERE datname = $1', [dbName]);
+      if (result.rows[0].count === 0) break;
+      await sleep(100);
+    }
+    await admin.query(`DROP DATABASE IF EXISTS ${dbName} WITH (FORCE)`);
+    await admin.end();
+  }
+
+  return { models, db, drop };
+}
@@ -0,0 +1,46 @@
+import { query } from '../pool.js';
+
+/**
+ * Cross-table queries over the public catalog (places, tags, neighborhoods).
+ * Used by the public API to derive HTTP cache validators and sync cursors.
+ */
+export const CatalogModel = {
+  /**
+   * Most recent change across published places (including deletions), tags
+   * and neighborhoods, or null when there has never been any. Drives the
+   * `Last-Modified` header on the public /api routes — any edit to any of
+   * them changes what those routes can return (tag renames show up in place
+   * lists, etc.). Unpublished places are left out: the public routes cannot
+   * see them, and publishing one bumps its updated_at.
+   */
+  async lastModified(): Promise<Date | null> {
+    const result = await query<{ last_modified: Date | null }>(`
+      SELECT GREATEST(
+        (SELECT MAX(updated_at) FROM places WHERE published_at IS NOT NULL),
+        (SELECT MAX(deleted_at) FROM place_tombstones),
+        (SELECT MAX(updated_at) FROM tags),
+        (SELECT MAX(updated_at) FROM neighborhoods)
+      ) AS last_modified
+    `);
+    return result.rows[0]?.last_modified ?? null;
+  },
+
+  /**
+   * Cursor for the places delta feed: the xmin of the current snapshot —
+   * every transaction with a lower id has finished — never lower than
+   * `since`. Rows carry the id of the transaction that last changed them in
+   * change_xid (migrations/1706457600025_change-xid.js), so a change is read
+   * again until the cursor passes its transaction, however late it commits.
+   * A transaction id, as decimal text.
+   *
+   * Read this BEFORE reading the changes themselves: anything committed
+   * between the two reads is then re-sent next time rather than skipped.
+   */
+  async syncCursor(since?: string): Promise<string> {
+    const result = await query<{ cursor: string }>(
+      `SELECT GREATEST(pg_snapshot_xmin(pg_current_snapshot()), $1::xid8)::text AS cursor`,
+      [since ?? null]
+    );
+    return result.rows[0].cursor;
+  },
+};
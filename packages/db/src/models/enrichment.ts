@@ -0,0 +1,158 @@
+import type { PoolClient } from 'pg';
+import { query, withTransaction } from '../pool.js';
+import type { EnrichmentProposal, EnrichmentProposalForReview } from '@eve/shared-types';
+
+export type { EnrichmentProposal, EnrichmentProposalForReview };
+
+/** A place whose last match an admin rejected, shown so it can be re-matched. */
+export interface RejectedEnrichmentPlace {
+  id: string;
+  name: string;
+  address: string | null;
+  enrichment_query: string | null;
+}
+
+const SELECT_COLUMNS = `
+  ep.id, ep.place_id, ep.search_query, ep.google_place_id, ep.matched_name, ep.matched_address,
+  ep.hours_json, ep.google_price_level, ep.status, ep.created_at, ep.reviewed_at, ep.reviewed_by
+`.trim();
+
+async function lockPending(client: PoolClient, id: string): Promise<EnrichmentProposal> {
+  const result = await client.query<EnrichmentProposal>(
+    `SELECT ${SELECT_COLUMNS} FROM enrichment_proposals ep
+     WHERE ep.id = $1 AND ep.status = 'pending'
+     FOR UPDATE`,
+    [id]
+  );
+  const proposal = result.rows[0];
+  if (!proposal) throw new Error('Proposal not found or already reviewed');
+  return proposal;
+}
+
+/**
+ * Review queue for matches staged by `scripts/enrich-places.ts`. Accepting
+ * is the only path that copies Google data onto a place during backfill;
+ * every decision is recorded on the proposal and reflected in
+ * places.enrichment_status.
+ */
+export const EnrichmentProposalModel = {
+  async findPending(): Promise<EnrichmentProposalForReview[]> {
+    const result = await query<EnrichmentProposalForReview>(
+      `SELECT ${SELECT_COLUMNS},
+              p.name AS place_name, p.address AS place_address,
+              other.name AS conflicting_place_name
+       FROM enrichment_proposals ep
+       JOIN places p ON p.id = ep.place_id
+       LEFT JOIN places other
+         ON other.google_place_id = ep.google_place_id AND other.id <> ep.place_id
+       WHERE ep.status = 'pending' AND p.deleted_at IS NULL
+       ORDER BY ep.created_at, p.name`
+    );
+    return result.rows;
+  },
+
+  async countPending(): Promise<number> {
+    const result = await query<{ count: string }>(
+      `SELECT COUNT(*)::text AS count
+       FROM enrichment_proposals ep
+       JOIN places p ON p.id = ep.place_id
+       WHERE ep.status = 'pending' AND p.deleted_at IS NULL`
+    );
+    return parseInt(result.rows[0]?.count ?? '0', 10);
+  },
+
+  async findRejectedPlaces(): Promise<RejectedEnrichmentPlace[]> {
+    const result = await query<RejectedEnrichmentPlace>(
+      `SELECT id, name, address, enrichment_query
+       FROM places
+       WHERE enrichment_status = 'rejected' AND deleted_at IS NULL
+       ORDER BY name`
+    );
+    return result.rows;
+  },
+
+  /**
+   * Copy the proposal onto its place and mark the place 'ok'. Throws when the
+   * proposal is no longer pending, or when another place already holds the
+   * same google_place_id (the column is unique).
+   */
+  async accept(id: string, reviewerId: string): Promise<void> {
+    await withTransaction(async (client: PoolClient) => {
+      const proposal = await lockPending(client, id);
+
+      const conflict = await client.query<{ name: string }>(
+        `SELECT name FROM places WHERE google_place_id = $1 AND id <> $2`,
+        [proposal.google_place_id, proposal.place_id]
+      );
+      if (conflict.rows[0]) {
+        throw new Error(`Google place already linked to "${conflict.rows[0].name}"`);
+      }
+
+      await client.query(
+        `UPDATE places
+         SET google_place_id = $1,
+             hours_json = $2,
+             google_price_level = $3,
+             enrichment_status = 'ok',
+             enrichment_query = NULL,
+             enriched_at = now(),
+             updated_at = now()
+         WHERE id = $4`,
+        [
+          proposal.google_place_id,
+          proposal.hours_json ? JSON.stringify(proposal.hours_json) : null,
+          proposal.google_price_level,
+          proposal.place_id,
+        ]
+      );
+      await client.query(
+        `UPDATE enrichment_proposals
+         SET status = 'accepted', reviewed_at = now(), reviewed_by = $2
+         WHERE id = $1`,
+        [id, reviewerId]
+      );
+    });
+  },
+
+  /** Discard the match. Backfill skips the place until it is re-matched. */
+  async reject(id: string, reviewerId: string): Promise<void> {
+    await withTransaction(async (client: PoolClient) => {
+      const proposal = await lockPending(client, id);
+      await client.query(
+        `UPDATE enrichment_proposals
+         SET status = 'rejected', reviewed_at = now(), reviewed_by = $2
+         WHERE id = $1`,
+        [id, reviewerId]
+      );
+      await client.query(
+        `UPDATE places SET enrichment_status = 'rejected' WHERE id = $1`,
+        [proposal.place_id]
+      );
+    });
+  },
+
+  /**
+   * Send a place back to backfill for another Text Search, rejecting its
+   * pending proposal if it has one. `searchQuery` replaces the default
+   * name + address query; null goes back to the default.
+   */
+  async rematch(placeId: string, searchQuery: string | null, reviewerId: string): Promise<void> {
+    await withTransaction(async (client: PoolClient) => {
+      await client.query(
+        `UPDATE enrichment_proposals
+         SET status = 'rejected', reviewed_at = now(), reviewed_by = $2
+         WHERE place_id = $1 AND status = 'pending'`,
+        [placeId, reviewerId]
+      );
+      const result = await client.query(
+        `UPDATE places
+         SET enrichment_status = 'rematch', enrichment_query = $2
+         WHERE id = $1 AND google_place_id IS NULL AND deleted_at IS NULL`,
+        [placeId, searchQuery]
+      );
+      if (result.rowCount === 0) {
+        throw new Error('Place not found or already matched');
+      }
+    });
+  },
+};
@@ -0,0 +1,142 @@
+import { query } from '../pool.js';
+import { EVE_TIMEZONE } from '@eve/shared-types';
+import type { PlaceEvent, EventTag, EventRecurrence } from '@eve/shared-types';
+
+export type { PlaceEvent } from '@eve/shared-types';
+
+export interface EventInput {
+  place_id: string;
+  title: string;
+  description?: string | null;
+  starts_at: Date;
+  ends_at?: Date | null;
+  recurrence?: EventRecurrence | null;
+  recurrence_until?: Date | null;
+  tags?: EventTag[];
+}
+
+/** One occurrence of an event within a findOccurrences window. */
+export interface EventOccurrence extends PlaceEvent {
+  occurrence_starts_at: Date;
+  occurrence_ends_at: Date | null;
+}
+
+const SELECT_COLUMNS = `
+  id, place_id, title, description, starts_at, ends_at, recurrence, recurrence_until, tags, created_at, updated_at
+`.trim();
+
+const WEEK_SECONDS = 7 * 24 * 60 * 60;
+
+export const EventModel = {
+  async findForPlace(placeId: string): Promise<PlaceEvent[]> {
+    const result = await query<PlaceEvent>(
+      `SELECT ${SELECT_COLUMNS} FROM events WHERE place_id = $1 ORDER BY starts_at`,
+      [placeId]
+    );
+    return result.rows;
+  },
+
+  async findById(id: string): Promise<PlaceEvent | null> {
+    const result = await query<PlaceEvent>(
+      `SELECT ${SELECT_COLUMNS} FROM events WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] ?? null;
+  },
+
+  async create(data: EventInput): Promise<PlaceEvent> {
+    const result = await query<PlaceEvent>(
+      `INSERT INTO events (place_id, title, description, starts_at, ends_at, recurrence, recurrence_until, tags)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        data.place_id,
+        data.title,
+        data.description ?? null,
+        data.starts_at,
+        data.ends_at ?? null,
+        data.recurrence ?? null,
+        data.recurrence ? data.recurrence_until ?? null : null,
+        data.tags ?? [],
+      ]
+    );
+    return result.rows[0];
+  },
+
+  /** Replaces every field but place_id; the admin form always posts them all. */
+  async update(id: string, data: Omit<EventInput, 'place_id'>): Promise<PlaceEvent | null> {
+    const result = await query<PlaceEvent>(
+      `UPDATE events
+       SET title = $2, description = $3, starts_at = $4, ends_at = $5,
+           recurrence = $6, recurrence_until = $7, tags = $8, updated_at = NOW()
+       WHERE id = $1
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        id,
+        data.title,
+        data.description ?? null,
+        data.starts_at,
+        data.ends_at ?? null,
+        data.recurrence ?? null,
+        data.recurrence ? data.recurrence_until ?? null : null,
+        data.tags ?? [],
+      ]
+    );
+    return result.rows[0] ?? null;
+  },
+
+  async delete(id: string): Promise<void> {
+    await query(`DELETE FROM events WHERE id = $1`, [id]);
+  },
+
+  /**
+   * Occurrences overlapping [from, to), earliest first, at published places
+   * only. Weekly events are expanded here: each occurrence keeps the first
+   * one's Eastern wall-clock start and its duration, so a 9 PM show stays at
+   * 9 PM across DST. An occurrence with no end counts as overlapping when it
+   * starts inside the window.
+   */
+  async findOccurrences(options: { from: Date; to: Date; placeId?: string }): Promise<EventOccurrence[]> {
+    const params: unknown[] = [options.from, options.to, EVE_TIMEZONE, WEEK_SECONDS];
+    let placeFilter = '';
+    if (options.placeId) {
+      params.push(options.placeId);
+      placeFilter = `AND e.place_id = $${params.length}`;
+    }
+
+    // The series starts a week early so an occurrence that began before
+    // `from` but is still running (or shifted by DST) is not missed.
+    const result = await query<EventOccurrence>(
+      `WITH occurrences AS (
+         SELECT e.*, e.starts_at AS occurrence_starts_at, e.ends_at AS occurrence_ends_at
+         FROM events e
+         WHERE e.recurrence IS NULL
+         UNION ALL
+         SELECT e.*, o.starts_at, o.starts_at + (e.ends_at - e.starts_at)
+         FROM events e
+         CROSS JOIN LATERAL generate_series(
+           GREATEST(0, floor(extract(epoch FROM $1::timestamptz - e.starts_at) / $4)::int - 1),
+           floor(extract(epoch FROM $2::timestamptz - e.starts_at) / $4)::int + 1
+         ) AS n(week)
+         CROSS JOIN LATERAL (
+           SELECT ((e.starts_at AT TIME ZONE $3) + make_interval(weeks => n.week)) AT TIME ZONE $3 AS starts_at
+         ) o
+         WHERE e.recurrence = 'weekly'
+           AND e.starts_at < $2
+           AND (e.recurrence_until IS NULL OR o.starts_at <= e.recurrence_until)
+       )
+       SELECT e.id, e.place_id, e.title, e.description, e.starts_at, e.ends_at, e.recurrence,
+              e.recurrence_until, e.tags, e.created_at, e.updated_at,
+              e.occurrence_starts_at, e.occurrence_ends_at
+       FROM occurrences e
+       JOIN places p ON p.id = e.place_id
+       WHERE p.deleted_at IS NULL AND p.published_at IS NOT NULL
+         AND e.occurrence_starts_at < $2
+         AND (e.occurrence_ends_at > $1 OR (e.occurrence_ends_at IS NULL AND e.occurrence_starts_at >= $1))
+         ${placeFilter}
+       ORDER BY e.occurrence_starts_at, e.title`,
+      params
+    );
+    return result.rows;
+  },
+};
@@ -1,4 +1,23 @@
-export { PlaceModel, type Place, type PlaceInput } from './place.js';
-export { TagModel, type Tag, type TagInput } from './tag.js';
+export { PlaceModel, slugify, trashRetentionDays, uniqueSlug, type Place, type PlaceInput, type PlaceSpecial, type HoursOverride, type PlaceUpdateOptions } from './place.js';
+export { TagModel, TagParentError, type Tag, type TagInput } from './tag.js';
 export { UserModel, type User, type UserPublic, type UserInput } from './user.js';
 export { NeighborhoodModel, type NeighborhoodInput } from './neighborhood.js';
+export { CatalogModel } from './catalog.js';
+export { UploadModel, type Upload, type UploadInput } from './upload.js';
+export { EventModel, type PlaceEvent, type EventInput, type EventOccurrence } from './event.js';
+export {
+  EnrichmentProposalModel,
+  type EnrichmentProposal,
+  type EnrichmentProposalForReview,
+  type RejectedEnrichmentPlace,
+} from './enrichment.js';
+export {
+  RevisionModel,
+  diffSnapshots,
+  type Revision,
+  type RevisionAction,
+  type RevisionContext,
+  type RevisionEntityType,
+  type RevisionFieldChange,
+  type RevisionSnapshot,
+} from './revision.js';
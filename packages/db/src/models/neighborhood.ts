@@ -1,6 +1,7 @@
 import type { PoolClient } from 'pg';
 import { query, withTransaction } from '../pool.js';
 import type { Neighborhood } from '@eve/shared-types';
+import { RevisionModel, type RevisionContext, type RevisionSnapshot } from './revision.js';
 
 export interface NeighborhoodInput {
   value: string;
@@ -13,6 +14,11 @@ const SELECT_COLUMNS = `
   id, value, display, sort_order, is_default, created_at, updated_at
 `.trim();
 
+// Admin-editable fields recorded in revisions.
+function revisionSnapshot(n: Neighborhood): RevisionSnapshot {
+  return { value: n.value, display: n.display, sort_order: n.sort_order, is_default: n.is_default };
+}
+
 export const NeighborhoodModel = {
   async findAll(): Promise<Neighborhood[]> {
     const result = await query<Neighborhood>(
@@ -52,7 +58,7 @@ export const NeighborhoodModel = {
     return parseInt(result.rows[0]?.count ?? '0', 10);
   },
 
-  async create(data: NeighborhoodInput): Promise<Neighborhood> {
+  async create(data: NeighborhoodInput, context?: RevisionContext): Promise<Neighborhood> {
     return withTransaction(async (client: PoolClient) => {
       if (data.is_default) {
         await client.query(`UPDATE neighborhoods SET is_default = false WHERE is_default = true`);
@@ -63,12 +69,20 @@ export const NeighborhoodModel = {
          RETURNING ${SELECT_COLUMNS}`,
         [data.value, data.display, data.sort_order ?? 0, data.is_default ?? false]
       );
+      await RevisionModel.record(client, 'neighborhood', result.rows[0].id, null, revisionSnapshot(result.rows[0]), context);
       return result.rows[0];
     });
   },
 
-  async update(id: string, data: Partial<NeighborhoodInput>): Promise<Neighborhood | null> {
+  async update(id: string, data: Partial<NeighborhoodInput>, context?: RevisionContext): Promise<Neighborhood | null> {
     return withTransaction(async (client: PoolClient) => {
+      const existing = await client.query<Neighborhood>(
+        `SELECT ${SELECT_COLUMNS} FROM neighborhoods WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      const before = existing.rows[0];
+      if (!before) return null;
+
       if (data.is_default === true) {
         await client.query(
           `UPDATE neighborhoods SET is_default = false WHERE is_default = true AND id <> $1`,
@@ -82,32 +96,35 @@ export const NeighborhoodModel = {
       if (data.display !== undefined) { updates.push(`display = $${i++}`); params.push(data.display); }
       if (data.sort_order !== undefined) { updates.push(`sort_order = $${i++}`); params.push(data.sort_order); }
       if (data.is_default !== undefined) { updates.push(`is_default = $${i++}`); params.push(data.is_default); }
-      if (updates.length === 0) {
-        const result = await client.query<Neighborhood>(
-          `SELECT ${SELECT_COLUMNS} FROM neighborhoods WHERE id = $1`,
-          [id]
-        );
-        return result.rows[0] ?? null;
-      }
+      if (updates.length === 0) return before;
       updates.push(`updated_at = now()`);
       params.push(id);
       const result = await client.query<Neighborhood>(
         `UPDATE neighborhoods SET ${updates.join(', ')} WHERE id = $${i} RETURNING ${SELECT_COLUMNS}`,
         params
       );
+      await RevisionModel.record(client, 'neighborhood', id, revisionSnapshot(before), revisionSnapshot(result.rows[0]), context);
       return result.rows[0] ?? null;
     });
   },
 
-  async delete(id: string): Promise<void> {
+  async delete(id: string, context?: RevisionContext): Promise<void> {
     const def = await this.findDefault();
     if (def && def.id === id) {
       throw new Error('Cannot delete the default neighborhood. Set another as default first.');
     }
     const placeCount = await this.countPlacesUsing(id);
     if (placeCount > 0) {
-      throw new Error(`Cannot delete: ${placeCount} place(s) are assigned to this neighborhood. Reassign them first.`);
+      throw new Error(`Cannot delete: ${placeCount} place(s) are assigned to this neighborhood. Reassign them (or empty the trash) first.`);
     }
-    await query(`DELETE FROM neighborhoods WHERE id = $1`, [id]);
+    await withTransaction(async (client: PoolClient) => {
+      const result = await client.query<Neighborhood>(
+        `DELETE FROM neighborhoods WHERE id = $1 RETURNING ${SELECT_COLUMNS}`,
+        [id]
+      );
+      if (result.rows[0]) {
+        await RevisionModel.record(client, 'neighborhood', id, revisionSnapshot(result.rows[0]), null, context);
+      }
+    });
   },
 };
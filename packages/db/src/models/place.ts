@@ -1,11 +1,19 @@
 import { query, withTransaction } from '../pool.js';
 import type { PoolClient } from 'pg';
-import type { Place } from '@eve/shared-types';
+import { EVE_TIMEZONE } from '@eve/shared-types';
+import type { Place, PlaceSpecial, PlaceStatus, HoursOverride } from '@eve/shared-types';
+import { RevisionModel, type RevisionContext, type RevisionSnapshot } from './revision.js';
 
-export type { Place };
+export type { Place, PlaceSpecial, PlaceStatus, HoursOverride };
 
 export interface PlaceInput {
   name: string;
+  /**
+   * Slugified and made unique. Generated from the name and cross street
+   * when a place is created without one; a change keeps the old slug as a
+   * redirect.
+   */
+  slug?: string;
   address?: string;
   phone?: string;
   url?: string;
@@ -13,6 +21,10 @@ export interface PlaceInput {
   categories?: string;
   notes?: string;
   tags?: string[];
+  /** Replaces all of the place's structured specials, like `tags`. */
+  specials_schedule?: PlaceSpecial[];
+  /** Replaces all of the place's hours overrides, like `tags`. */
+  hours_overrides?: HoursOverride[];
   pitch?: string;
   perfect?: string;
   insider?: string;
@@ -24,6 +36,157 @@ export interface PlaceInput {
   photo_url?: string;
   photo_credit?: string;
   neighborhood_id?: string | null;
+  /**
+   * Admin-entered coordinates. Changing them marks them 'manual' so the
+   * geocoder leaves them alone; null for either clears both.
+   */
+  lat?: number | null;
+  lng?: number | null;
+  status?: PlaceStatus;
+  /** YYYY-MM-DD; kept only while `status` is 'temporarily_closed'. */
+  reopens_on?: string | null;
+}
+
+/**
+ * The place's place_specials rows as a PlaceSpecial[] JSON array, for a
+ * query where `placeId` is the place's id column.
+ */
+function specialsScheduleSelect(placeId: string): string {
+  return `COALESCE(
+          (SELECT json_agg(json_build_object(
+             'days', s.days,
+             'start_time', to_char(s.start_time, 'HH24:MI'),
+             'end_time', to_char(s.end_time, 'HH24:MI'),
+             'until_close', s.until_close,
+             'description', s.description,
+             'price', s.price::float8
+           ) ORDER BY s.sort_order)
+           FROM place_specials s WHERE s.place_id = ${placeId}),
+          '[]'::json
+        )`;
+}
+
+/**
+ * The place's place_hours_overrides rows as a HoursOverride[] JSON array, by
+ * date. `current` leaves out days before yesterday (Eastern), which can no
+ * longer affect whether the place is open; public reads pass it. Admin reads
+ * get every row, so a save posts back exactly what is stored.
+ */
+function hoursOverridesSelect(placeId: string, current: boolean): string {
+  const since = current ? ` AND o.date >= (NOW() AT TIME ZONE '${EVE_TIMEZONE}')::date - 1` : '';
+  return `COALESCE(
+          (SELECT json_agg(json_build_object(
+             'date', to_char(o.date, 'YYYY-MM-DD'),
+             'closed', o.closed,
+             'open_time', to_char(o.open_time, 'HH24:MI'),
+             'close_time', to_char(o.close_time, 'HH24:MI'),
+             'note', o.note
+           ) ORDER BY o.date)
+           FROM place_hours_overrides o WHERE o.place_id = ${placeId}${since}),
+          '[]'::json
+        )`;
+}
+
+/**
+ * The upload pipeline's record of the place's photo as a PlacePhoto, or null
+ * when photo_url was not processed by it (see UploadModel).
+ */
+function photoSelect(photoUrl: string): string {
+  return `(SELECT json_build_object(
+             'width', u.width,
+             'height', u.height,
+             'blurhash', u.blurhash,
+             'variants', (SELECT COALESCE(jsonb_agg(v - 'key'), '[]'::jsonb) FROM jsonb_array_elements(u.variants) v)
+           )
+           FROM uploads u WHERE u.url = ${photoUrl} AND u.width IS NOT NULL
+           LIMIT 1)`;
+}
+
+// Admin-editable columns recorded in revisions (plus `tags`, as tag values,
+// `specials_schedule` and `hours_overrides`).
+const REVISION_FIELDS = [
+  'name', 'slug', 'address', 'phone', 'url', 'specials', 'categories', 'notes',
+  'pitch', 'perfect', 'insider', 'crowd', 'vibe', 'crowd_level', 'price_tier',
+  'cross_street', 'photo_url', 'photo_credit', 'neighborhood_id', 'lat', 'lng',
+  'status', 'reopens_on',
+] as const;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * URL form of a name: lowercase ASCII letters and digits joined by single
+ * hyphens, e.g. "McSorley's Old Ale House 7th St" -> "mcsorleys-old-ale-house-7th-st".
+ * Empty when nothing usable is left. The backfill in
+ * migrations/1706457600022_place-slugs.js follows the same rules.
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * `base`, or `base-2`, `base-3`… when it is taken by another place or
+ * redirects to one. `placeId` is the place the slug is for, so its own
+ * current and old slugs count as free. For every insert into places,
+ * scripts included: `slug` is NOT NULL and unique.
+ */
+export async function uniqueSlug(
+  db: Pick<PoolClient, 'query'>,
+  base: string,
+  placeId: string | null
+): Promise<string> {
+  const root = base || 'place';
+  const result = await db.query<{ slug: string }>(
+    `SELECT slug FROM places
+     WHERE (slug = $1 OR slug LIKE $2) AND id IS DISTINCT FROM $3::uuid
+     UNION
+     SELECT slug FROM place_slug_redirects
+     WHERE (slug = $1 OR slug LIKE $2) AND place_id IS DISTINCT FROM $3::uuid`,
+    [root, `${root}-%`, placeId]
+  );
+  const taken = new Set(result.rows.map((row) => row.slug));
+  if (!taken.has(root)) return root;
+  let n = 2;
+  while (taken.has(`${root}-${n}`)) n++;
+  return `${root}-${n}`;
+}
+
+// Dates read as YYYY-MM-DD text rather than midnight-UTC timestamps.
+function revisionColumn(field: (typeof REVISION_FIELDS)[number]): string {
+  return field === 'reopens_on' ? `to_char(reopens_on, 'YYYY-MM-DD') AS reopens_on` : field;
+}
+
+export interface PlaceUpdateOptions extends RevisionContext {
+  /**
+   * The `version` the caller's copy of the place was read at. When set, the
+   * update throws an 'Edit conflict' error instead of writing if the place
+   * has been updated since.
+   */
+  expectedVersion?: number;
+}
+
+interface PublishState {
+  version: number;
+  published_at: Date | null;
+  draft: Record<string, unknown> | null;
+  /** publish_at has passed; null when nothing is scheduled. */
+  due: boolean | null;
+}
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Days a trashed place is kept before PlaceModel.purgeExpired removes it,
+ * from PLACE_TRASH_RETENTION_DAYS (default 30).
+ */
+export function trashRetentionDays(): number {
+  const days = parseInt(process.env.PLACE_TRASH_RETENTION_DAYS ?? '', 10);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
 }
 
 // Normalize phone to digits only
@@ -63,33 +226,99 @@ export class PlaceModel {
    *   (c) Tag value/display via subquery on place_tags + tags.
    *
    * `tag` and `q` are AND-composed via a conditions array.
+   *
+   * `tags` keeps places carrying every listed tag, where a parent tag is also
+   * carried by any place with one of its children — the grouping the public
+   * index's tag filter has always shown. `neighborhood` is a neighborhood
+   * value ("east-village"), not an id.
+   *
+   * `changedSince` (a CatalogModel.syncCursor cursor) narrows the result to
+   * places whose own row was changed by a transaction at or after it, or
+   * that carry a tag that was — a tag rename changes the `tags` array every
+   * place with that tag returns.
+   *
+   * `near` restricts the result to places with coordinates, adds a
+   * `distance_m` column (great-circle metres from the point) and orders by it
+   * instead of by name. With `radiusM` the result is cut to that radius via
+   * the GiST index from migrations/1706457600011_places-geo-index.js — the
+   * `ll_to_earth(p.lat, p.lng)` expression and the IS NOT NULL predicate must
+   * stay identical to the index DDL.
+   *
+   * Trashed places (deleted_at set) are never returned; see findTrashed.
+   * `publishedOnly` also drops unpublished drafts and past hours overrides —
+   * every public read path passes it. Pending drafts of published places are
+   * never applied here.
+   * `status` keeps only places with that status (or one of them).
    */
-  static async findAll(options?: { tag?: string; q?: string; limit?: number; offset?: number }): Promise<Place[]> {
+  static async findAll(options?: {
+    publishedOnly?: boolean;
+    status?: PlaceStatus | PlaceStatus[];
+    tag?: string;
+    tags?: string[];
+    neighborhood?: string;
+    q?: string;
+    changedSince?: string;
+    near?: { lat: number; lng: number; radiusM?: number };
+    limit?: number;
+    offset?: number;
+  }): Promise<Place[]> {
     const trimmedQ = options?.q?.trim() ?? '';
     const hasQ = trimmedQ.length > 0;
+    const near = options?.near;
+
+    const params: string[] = [];
+    const conditions: string[] = ['p.deleted_at IS NULL'];
+    if (options?.publishedOnly) {
+      conditions.push('p.published_at IS NOT NULL');
+    }
+    if (options?.status !== undefined) {
+      const statuses = Array.isArray(options.status) ? options.status : [options.status];
+      params.push(`{${statuses.join(',')}}`);
+      conditions.push(`p.status = ANY($${params.length}::text[])`);
+    }
+
+    let distanceSelect = '';
+    if (near) {
+      params.push(String(near.lat), String(near.lng));
+      const origin = `ll_to_earth($${params.length - 1}::float8, $${params.length}::float8)`;
+      distanceSelect = `
+        earth_distance(${origin}, ll_to_earth(p.lat, p.lng)) AS distance_m,`;
+      conditions.push('p.lat IS NOT NULL AND p.lng IS NOT NULL');
+
+      if (near.radiusM !== undefined) {
+        params.push(String(near.radiusM));
+        const radiusParam = `$${params.length}::float8`;
+        // earth_box is a bounding cube (index-assisted) and slightly larger
+        // than the sphere; the exact distance check trims its corners.
+        conditions.push(`earth_box(${origin}, ${radiusParam}) @> ll_to_earth(p.lat, p.lng)`);
+        conditions.push(`earth_distance(${origin}, ll_to_earth(p.lat, p.lng)) <= ${radiusParam}`);
+      }
+    }
 
     let sql = `
       SELECT
-        p.id, p.name, p.address, p.phone, p.url,
+        p.id, p.slug, p.name, p.address, p.phone, p.url,
         p.specials, p.categories, p.notes,
-        p.created_at, p.updated_at,
-        p.lat, p.lng,
+        p.created_at, p.updated_at, p.version,
+        p.published_at, p.publish_at, p.draft,
+        p.lat, p.lng, p.location_source,
         p.pitch, p.perfect, p.insider, p.crowd, p.vibe,
         p.crowd_level, p.price_tier, p.cross_street, p.photo_url, p.photo_credit,
         p.neighborhood_id,
-        p.google_place_id, p.hours_json, p.google_price_level, p.enrichment_status, p.enriched_at,
+        p.status, to_char(p.reopens_on, 'YYYY-MM-DD') AS reopens_on, p.proposed_status,
+        p.google_place_id, p.hours_json, p.google_price_level, p.enrichment_status, p.enriched_at,${distanceSelect}
         COALESCE(
           array_agg(t.value ORDER BY pt.sort_order, t.sort_order) FILTER (WHERE t.value IS NOT NULL),
           ARRAY[]::varchar[]
-        ) as tags
+        ) as tags,
+        ${specialsScheduleSelect('p.id')} AS specials_schedule,
+        ${hoursOverridesSelect('p.id', options?.publishedOnly === true)} AS hours_overrides,
+        ${photoSelect('p.photo_url')} AS photo
       FROM places p
       LEFT JOIN place_tags pt ON p.id = pt.place_id
       LEFT JOIN tags t ON pt.tag_id = t.id
     `;
 
-    const params: string[] = [];
-    const conditions: string[] = [];
-
     if (options?.tag) {
       params.push(options.tag);
       conditions.push(`p.id IN (
@@ -99,6 +328,34 @@ export class PlaceModel {
         )`);
     }
 
+    for (const value of options?.tags ?? []) {
+      params.push(value);
+      conditions.push(`p.id IN (
+          SELECT pt4.place_id FROM place_tags pt4
+          JOIN tags t4 ON pt4.tag_id = t4.id
+          LEFT JOIN tags parent4 ON t4.parent_tag_id = parent4.id
+          WHERE t4.value = $${params.length} OR parent4.value = $${params.length}
+        )`);
+    }
+
+    if (options?.neighborhood) {
+      params.push(options.neighborhood);
+      conditions.push(`p.neighborhood_id = (SELECT id FROM neighborhoods WHERE value = $${params.length})`);
+    }
+
+    if (options?.changedSince) {
+      params.push(options.changedSince);
+      const sinceParam = `$${params.length}`;
+      conditions.push(`(
+        p.change_xid >= ${sinceParam}::xid8
+        OR p.id IN (
+          SELECT pt3.place_id FROM place_tags pt3
+          JOIN tags t3 ON pt3.tag_id = t3.id
+          WHERE t3.change_xid >= ${sinceParam}::xid8
+        )
+      )`);
+    }
+
     if (hasQ) {
       // Add the neighborhoods join for the n.display OR-branch (branch b).
       sql += `
@@ -159,7 +416,11 @@ export class PlaceModel {
       GROUP BY p.id`;
     }
 
-    sql += `
+    sql += near
+      ? `
+      ORDER BY distance_m ASC, p.name ASC
+    `
+      : `
       ORDER BY p.name ASC
     `;
 
@@ -179,27 +440,34 @@ export class PlaceModel {
   }
 
   /**
-   * Find a place by ID
+   * Find a place by ID. Trashed places are treated as missing, and so are
+   * unpublished ones with `publishedOnly`, which also drops past hours
+   * overrides.
    */
-  static async findById(id: string): Promise<Place | null> {
+  static async findById(id: string, options?: { publishedOnly?: boolean }): Promise<Place | null> {
     const sql = `
       SELECT
-        p.id, p.name, p.address, p.phone, p.url,
+        p.id, p.slug, p.name, p.address, p.phone, p.url,
         p.specials, p.categories, p.notes,
-        p.created_at, p.updated_at,
-        p.lat, p.lng,
+        p.created_at, p.updated_at, p.version,
+        p.published_at, p.publish_at, p.draft,
+        p.lat, p.lng, p.location_source,
         p.pitch, p.perfect, p.insider, p.crowd, p.vibe,
         p.crowd_level, p.price_tier, p.cross_street, p.photo_url, p.photo_credit,
         p.neighborhood_id,
+        p.status, to_char(p.reopens_on, 'YYYY-MM-DD') AS reopens_on, p.proposed_status,
         p.google_place_id, p.hours_json, p.google_price_level, p.enrichment_status, p.enriched_at,
         COALESCE(
           array_agg(t.value ORDER BY pt.sort_order, t.sort_order) FILTER (WHERE t.value IS NOT NULL),
           ARRAY[]::varchar[]
-        ) as tags
+        ) as tags,
+        ${specialsScheduleSelect('p.id')} AS specials_schedule,
+        ${hoursOverridesSelect('p.id', options?.publishedOnly === true)} AS hours_overrides,
+        ${photoSelect('p.photo_url')} AS photo
       FROM places p
       LEFT JOIN place_tags pt ON p.id = pt.place_id
       LEFT JOIN tags t ON pt.tag_id = t.id
-      WHERE p.id = $1
+      WHERE p.id = $1 AND p.deleted_at IS NULL${options?.publishedOnly ? ' AND p.published_at IS NOT NULL' : ''}
       GROUP BY p.id
     `;
 
@@ -208,10 +476,37 @@ export class PlaceModel {
   }
 
   /**
-   * Create a new place
+   * Find a place by a URL key: its id, its slug, or a slug it had before it
+   * was renamed. `redirected` is true for an old slug, so callers can send
+   * clients on to `place.slug`. Same visibility rules as findById.
    */
-  static async create(data: PlaceInput): Promise<Place> {
-    return withTransaction(async (client: PoolClient) => {
+  static async findByKey(
+    key: string,
+    options?: { publishedOnly?: boolean }
+  ): Promise<{ place: Place; redirected: boolean } | null> {
+    if (UUID_RE.test(key)) {
+      const place = await PlaceModel.findById(key, options);
+      return place ? { place, redirected: false } : null;
+    }
+
+    const result = await query<{ id: string }>(
+      `SELECT id FROM places WHERE slug = $1
+       UNION ALL
+       SELECT place_id FROM place_slug_redirects WHERE slug = $1
+       LIMIT 1`,
+      [key]
+    );
+    const id = result.rows[0]?.id;
+    if (!id) return null;
+    const place = await PlaceModel.findById(id, options);
+    return place ? { place, redirected: place.slug !== key } : null;
+  }
+
+  /**
+   * Create a new place. It starts unpublished; see publish and saveDraft.
+   */
+  static async create(data: PlaceInput, context?: RevisionContext): Promise<Place> {
+    const id = await withTransaction(async (client: PoolClient) => {
       let neighborhoodId = data.neighborhood_id;
       if (!neighborhoodId) {
         const defaultRow = await client.query<{ id: string }>(
@@ -223,16 +518,25 @@ export class PlaceModel {
         }
       }
 
+      const slug = await uniqueSlug(
+        client,
+        slugify(data.slug || [data.name, data.cross_street].filter(Boolean).join(' ')),
+        null
+      );
+
       // Insert the place
       const insertSql = `
         INSERT INTO places (name, address, phone, url, specials, categories, notes,
           pitch, perfect, insider, crowd, vibe, crowd_level, price_tier,
-          cross_street, photo_url, photo_credit, neighborhood_id)
+          cross_street, photo_url, photo_credit, neighborhood_id,
+          lat, lng, location_source, status, reopens_on, slug)
         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
-                $15, $16, $17, $18)
+                $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
         RETURNING id
       `;
 
+      const hasLocation = data.lat != null && data.lng != null;
+
       const placeResult = await client.query(insertSql, [
         data.name,
         data.address || null,
@@ -252,6 +556,12 @@ export class PlaceModel {
         validateUrl(data.photo_url),
         data.photo_credit || null,
         neighborhoodId,
+        hasLocation ? data.lat : null,
+        hasLocation ? data.lng : null,
+        hasLocation ? 'manual' : null,
+        data.status || 'open',
+        data.status === 'temporarily_closed' ? data.reopens_on || null : null,
+        slug,
       ]);
 
       const place = placeResult.rows[0];
@@ -260,128 +570,573 @@ export class PlaceModel {
       if (data.tags && data.tags.length > 0) {
         await PlaceModel.setTags(client, place.id, data.tags);
       }
+      if (data.specials_schedule && data.specials_schedule.length > 0) {
+        await PlaceModel.setSpecials(client, place.id, data.specials_schedule);
+      }
+      if (data.hours_overrides && data.hours_overrides.length > 0) {
+        await PlaceModel.setHoursOverrides(client, place.id, data.hours_overrides);
+      }
+      if (data.photo_url) {
+        await PlaceModel.linkUpload(client, place.id, data.photo_url);
+      }
 
-      // Return the full place with tags
-      return (await PlaceModel.findById(place.id))!;
+      await RevisionModel.record(
+        client, 'place', place.id, null, await PlaceModel.snapshot(client, place.id), context
+      );
+      return place.id as string;
     });
+
+    // Return the full place with tags
+    return (await PlaceModel.findById(id))!;
   }
 
   /**
-   * Update an existing place
+   * Update an existing place. Every update bumps `version`; pass
+   * `expectedVersion` to reject the write if someone else got there first.
+   * Writes the live columns directly, leaving any pending draft in place.
    */
-  static async update(id: string, data: Partial<PlaceInput>): Promise<Place | null> {
-    return withTransaction(async (client: PoolClient) => {
-      // Build dynamic update query
-      const updates: string[] = [];
-      const params: unknown[] = [];
-      let paramIndex = 1;
-
-      if (data.name !== undefined) {
-        updates.push(`name = $${paramIndex++}`);
-        params.push(data.name);
-      }
-      if (data.address !== undefined) {
-        updates.push(`address = $${paramIndex++}`);
-        params.push(data.address || null);
-      }
-      if (data.phone !== undefined) {
-        updates.push(`phone = $${paramIndex++}`);
-        params.push(normalizePhone(data.phone));
-      }
-      if (data.url !== undefined) {
-        updates.push(`url = $${paramIndex++}`);
-        params.push(validateUrl(data.url));
-      }
-      if (data.specials !== undefined) {
-        updates.push(`specials = $${paramIndex++}`);
-        params.push(data.specials || null);
-      }
-      if (data.categories !== undefined) {
-        updates.push(`categories = $${paramIndex++}`);
-        params.push(data.categories || null);
+  static async update(id: string, data: Partial<PlaceInput>, options?: PlaceUpdateOptions): Promise<Place | null> {
+    const found = await withTransaction((client: PoolClient) =>
+      PlaceModel.applyUpdate(client, id, data, options)
+    );
+    return found ? PlaceModel.findById(id) : null;
+  }
+
+  /**
+   * Restore a place to how it stood right after `revisionId`, recorded as a
+   * 'revert' revision. Fields changed since then get their old values back;
+   * tags that have since been deleted are dropped. Throws when the revision
+   * is not a place revision or the place no longer exists.
+   */
+  static async revert(revisionId: string, context: RevisionContext): Promise<Place> {
+    const id = await withTransaction(async (client: PoolClient) => {
+      const { revision, fields } = await RevisionModel.stateAfter(client, revisionId);
+      if (revision.entity_type !== 'place') {
+        throw new Error('Revision not found');
       }
-      if (data.notes !== undefined) {
-        updates.push(`notes = $${paramIndex++}`);
-        params.push(data.notes || null);
+
+      const current = await PlaceModel.snapshot(client, revision.entity_id);
+      if (!current) throw new Error('Place not found');
+
+      const input: Partial<PlaceInput> = {};
+      const target = input as Record<string, unknown>;
+      for (const field of REVISION_FIELDS) {
+        if (field === 'lat' || field === 'lng' || !(field in fields)) continue;
+        // update() stores '' as NULL for the optional text columns.
+        target[field] = fields[field] ?? '';
       }
-      if (data.pitch !== undefined) {
-        updates.push(`pitch = $${paramIndex++}`);
-        params.push(data.pitch || null);
+      if ('tags' in fields) {
+        input.tags = Array.isArray(fields.tags) ? (fields.tags as string[]) : [];
       }
-      if (data.perfect !== undefined) {
-        updates.push(`perfect = $${paramIndex++}`);
-        params.push(data.perfect || null);
+      if ('specials_schedule' in fields) {
+        input.specials_schedule = Array.isArray(fields.specials_schedule)
+          ? (fields.specials_schedule as PlaceSpecial[])
+          : [];
       }
-      if (data.insider !== undefined) {
-        updates.push(`insider = $${paramIndex++}`);
-        params.push(data.insider || null);
+      if ('hours_overrides' in fields) {
+        input.hours_overrides = Array.isArray(fields.hours_overrides)
+          ? (fields.hours_overrides as HoursOverride[])
+          : [];
       }
-      if (data.crowd !== undefined) {
-        updates.push(`crowd = $${paramIndex++}`);
-        params.push(data.crowd || null);
+      if ('lat' in fields || 'lng' in fields) {
+        input.lat = ('lat' in fields ? fields.lat : current.lat) as number | null;
+        input.lng = ('lng' in fields ? fields.lng : current.lng) as number | null;
       }
-      if (data.vibe !== undefined) {
-        updates.push(`vibe = $${paramIndex++}`);
-        params.push(data.vibe || null);
+
+      await PlaceModel.applyUpdate(client, revision.entity_id, input, {
+        ...context,
+        revertedRevisionId: revision.id,
+      });
+      return revision.entity_id;
+    });
+    return (await PlaceModel.findById(id))!;
+  }
+
+  /** The body of update(); false when the place does not exist. */
+  private static async applyUpdate(
+    client: PoolClient,
+    id: string,
+    data: Partial<PlaceInput>,
+    options?: PlaceUpdateOptions
+  ): Promise<boolean> {
+    const before = await PlaceModel.snapshot(client, id, true);
+    if (!before) return false;
+
+    // The row is locked by the snapshot, so the version cannot move between
+    // this check and the write.
+    if (options?.expectedVersion !== undefined) {
+      const state = await PlaceModel.publishState(client, id);
+      PlaceModel.checkVersion(state!, options.expectedVersion);
+    }
+
+    // Build dynamic update query
+    const updates: string[] = [];
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    if (data.name !== undefined) {
+      updates.push(`name = $${paramIndex++}`);
+      params.push(data.name);
+    }
+    // A blank slug leaves the current one; a new one keeps the old as a redirect.
+    const requestedSlug = data.slug !== undefined ? slugify(data.slug) : '';
+    if (requestedSlug && requestedSlug !== before.slug) {
+      const slug = await uniqueSlug(client, requestedSlug, id);
+      if (slug !== before.slug) {
+        await client.query(
+          'INSERT INTO place_slug_redirects (slug, place_id) VALUES ($1, $2) ON CONFLICT (slug) DO NOTHING',
+          [before.slug, id]
+        );
+        // Taking back one of the place's own old slugs.
+        await client.query('DELETE FROM place_slug_redirects WHERE slug = $1', [slug]);
+        updates.push(`slug = $${paramIndex++}`);
+        params.push(slug);
       }
-      if (data.crowd_level !== undefined) {
-        updates.push(`crowd_level = $${paramIndex++}`);
-        params.push(data.crowd_level || null);
+    }
+    if (data.address !== undefined) {
+      updates.push(`address = $${paramIndex++}`);
+      params.push(data.address || null);
+    }
+    if (data.phone !== undefined) {
+      updates.push(`phone = $${paramIndex++}`);
+      params.push(normalizePhone(data.phone));
+    }
+    if (data.url !== undefined) {
+      updates.push(`url = $${paramIndex++}`);
+      params.push(validateUrl(data.url));
+    }
+    if (data.specials !== undefined) {
+      updates.push(`specials = $${paramIndex++}`);
+      params.push(data.specials || null);
+    }
+    if (data.categories !== undefined) {
+      updates.push(`categories = $${paramIndex++}`);
+      params.push(data.categories || null);
+    }
+    if (data.notes !== undefined) {
+      updates.push(`notes = $${paramIndex++}`);
+      params.push(data.notes || null);
+    }
+    if (data.pitch !== undefined) {
+      updates.push(`pitch = $${paramIndex++}`);
+      params.push(data.pitch || null);
+    }
+    if (data.perfect !== undefined) {
+      updates.push(`perfect = $${paramIndex++}`);
+      params.push(data.perfect || null);
+    }
+    if (data.insider !== undefined) {
+      updates.push(`insider = $${paramIndex++}`);
+      params.push(data.insider || null);
+    }
+    if (data.crowd !== undefined) {
+      updates.push(`crowd = $${paramIndex++}`);
+      params.push(data.crowd || null);
+    }
+    if (data.vibe !== undefined) {
+      updates.push(`vibe = $${paramIndex++}`);
+      params.push(data.vibe || null);
+    }
+    if (data.crowd_level !== undefined) {
+      updates.push(`crowd_level = $${paramIndex++}`);
+      params.push(data.crowd_level || null);
+    }
+    if (data.price_tier !== undefined) {
+      updates.push(`price_tier = $${paramIndex++}`);
+      params.push(data.price_tier || null);
+    }
+    if (data.cross_street !== undefined) {
+      updates.push(`cross_street = $${paramIndex++}`);
+      params.push(data.cross_street || null);
+    }
+    if (data.photo_url !== undefined) {
+      updates.push(`photo_url = $${paramIndex++}`);
+      params.push(validateUrl(data.photo_url));
+    }
+    if (data.photo_credit !== undefined) {
+      updates.push(`photo_credit = $${paramIndex++}`);
+      params.push(data.photo_credit || null);
+    }
+    if (data.neighborhood_id !== undefined && data.neighborhood_id !== null) {
+      updates.push(`neighborhood_id = $${paramIndex++}`);
+      params.push(data.neighborhood_id);
+    }
+    if (data.lat !== undefined && data.lng !== undefined) {
+      const hasLocation = data.lat !== null && data.lng !== null;
+      const latParam = `$${paramIndex++}::float8`;
+      const lngParam = `$${paramIndex++}::float8`;
+      updates.push(`lat = ${latParam}`, `lng = ${lngParam}`);
+      // Re-saving the form with untouched (e.g. geocoded) coordinates keeps
+      // their source; only an actual change claims them as 'manual'.
+      updates.push(`location_source = CASE
+        WHEN ${latParam} IS NULL THEN NULL
+        WHEN lat IS NOT DISTINCT FROM ${latParam} AND lng IS NOT DISTINCT FROM ${lngParam} THEN location_source
+        ELSE 'manual'
+      END`);
+      params.push(hasLocation ? data.lat : null, hasLocation ? data.lng : null);
+    }
+    if (data.status !== undefined || data.reopens_on !== undefined) {
+      let statusExpr = 'status';
+      if (data.status !== undefined) {
+        statusExpr = `$${paramIndex++}::text`;
+        params.push(data.status || 'open');
+        updates.push(`status = ${statusExpr}`);
+        // Setting the status an enrichment run proposed settles the proposal.
+        updates.push(`proposed_status = CASE WHEN proposed_status = ${statusExpr} THEN NULL ELSE proposed_status END`);
       }
-      if (data.price_tier !== undefined) {
-        updates.push(`price_tier = $${paramIndex++}`);
-        params.push(data.price_tier || null);
+      let reopensExpr = 'reopens_on';
+      if (data.reopens_on !== undefined) {
+        reopensExpr = `$${paramIndex++}::date`;
+        params.push(data.reopens_on || null);
       }
-      if (data.cross_street !== undefined) {
-        updates.push(`cross_street = $${paramIndex++}`);
-        params.push(data.cross_street || null);
+      updates.push(`reopens_on = CASE WHEN ${statusExpr} = 'temporarily_closed' THEN ${reopensExpr} END`);
+    }
+
+    const hasFieldUpdates = updates.length > 0;
+
+    // Always update updated_at and version, including for a tags-,
+    // specials- or hours-overrides-only change
+    updates.push(`updated_at = NOW()`, `version = version + 1`);
+
+    if (
+      hasFieldUpdates ||
+      data.tags !== undefined ||
+      data.specials_schedule !== undefined ||
+      data.hours_overrides !== undefined
+    ) {
+      params.push(id);
+      const sql = `
+        UPDATE places
+        SET ${updates.join(', ')}
+        WHERE id = $${paramIndex}
+        RETURNING id
+      `;
+
+      await client.query(sql, params);
+    }
+
+    // Update tags if provided
+    if (data.tags !== undefined) {
+      await PlaceModel.setTags(client, id, data.tags);
+    }
+    if (data.specials_schedule !== undefined) {
+      await PlaceModel.setSpecials(client, id, data.specials_schedule);
+    }
+    if (data.hours_overrides !== undefined) {
+      await PlaceModel.setHoursOverrides(client, id, data.hours_overrides);
+    }
+    if (data.photo_url) {
+      await PlaceModel.linkUpload(client, id, data.photo_url);
+    }
+
+    await RevisionModel.record(
+      client, 'place', id, before, await PlaceModel.snapshot(client, id), options
+    );
+    return true;
+  }
+
+  /**
+   * Save edits without making them public. An unpublished place is updated
+   * directly (its own columns are the draft); a published place keeps its
+   * live columns and stores the edits in `draft`, replacing any earlier one.
+   * `publishAt` sets or, with null, clears the scheduled publish. Returns
+   * false when the place does not exist.
+   */
+  static async saveDraft(
+    id: string,
+    data: Partial<PlaceInput>,
+    options: PlaceUpdateOptions & { publishAt?: Date | null }
+  ): Promise<boolean> {
+    return withTransaction(async (client: PoolClient) => {
+      const state = await PlaceModel.publishState(client, id);
+      if (!state) return false;
+      if (options.expectedVersion !== undefined) {
+        PlaceModel.checkVersion(state, options.expectedVersion);
       }
-      if (data.photo_url !== undefined) {
-        updates.push(`photo_url = $${paramIndex++}`);
-        params.push(validateUrl(data.photo_url));
+
+      if (state.published_at === null) {
+        await PlaceModel.applyUpdate(client, id, data, { ...options, expectedVersion: undefined });
+      } else {
+        // Not a public change, so updated_at (the sync and cache clock) stays.
+        await client.query(
+          'UPDATE places SET draft = $2, version = version + 1 WHERE id = $1',
+          [id, JSON.stringify(data)]
+        );
+        if (data.photo_url) {
+          await PlaceModel.linkUpload(client, id, data.photo_url);
+        }
       }
-      if (data.photo_credit !== undefined) {
-        updates.push(`photo_credit = $${paramIndex++}`);
-        params.push(data.photo_credit || null);
+      if (options.publishAt !== undefined) {
+        await client.query('UPDATE places SET publish_at = $2 WHERE id = $1', [id, options.publishAt]);
       }
-      if (data.neighborhood_id !== undefined && data.neighborhood_id !== null) {
-        updates.push(`neighborhood_id = $${paramIndex++}`);
-        params.push(data.neighborhood_id);
+      return true;
+    });
+  }
+
+  /**
+   * Make a place live now: apply `data` — or, when omitted, its stored
+   * draft — to the live columns, then clear the draft and any schedule. The
+   * first publish sets published_at and records a 'publish' revision.
+   * Returns false when the place does not exist.
+   */
+  static async publish(
+    id: string,
+    data: Partial<PlaceInput> | undefined,
+    options: PlaceUpdateOptions
+  ): Promise<boolean> {
+    return withTransaction(async (client: PoolClient) => {
+      const state = await PlaceModel.publishState(client, id);
+      if (!state) return false;
+      if (options.expectedVersion !== undefined) {
+        PlaceModel.checkVersion(state, options.expectedVersion);
       }
+      await PlaceModel.applyPublish(client, id, state, data, options);
+      return true;
+    });
+  }
 
-      // Always update updated_at
-      updates.push(`updated_at = NOW()`);
+  /**
+   * Drop the pending draft of a published place, and with it any scheduled
+   * publish. The live place is untouched.
+   */
+  static async discardDraft(id: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE places SET draft = NULL, publish_at = NULL, version = version + 1
+       WHERE id = $1 AND deleted_at IS NULL AND published_at IS NOT NULL
+         AND (draft IS NOT NULL OR publish_at IS NOT NULL)`,
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
 
-      if (updates.length > 1) { // More than just updated_at
-        params.push(id);
-        const sql = `
-          UPDATE places
-          SET ${updates.join(', ')}
-          WHERE id = $${paramIndex}
-          RETURNING id
-        `;
+  /**
+   * Settle the status an enrichment run proposed: `accept` makes it the
+   * live status, recorded as a revision like any edit; otherwise the
+   * proposal is dropped. False when the place has no pending proposal.
+   */
+  static async resolveStatusProposal(id: string, accept: boolean, context: RevisionContext): Promise<boolean> {
+    return withTransaction(async (client: PoolClient) => {
+      const result = await client.query<{ proposed_status: PlaceStatus | null }>(
+        'SELECT proposed_status FROM places WHERE id = $1 AND deleted_at IS NULL FOR UPDATE',
+        [id]
+      );
+      const proposed = result.rows[0]?.proposed_status;
+      if (!proposed) return false;
 
-        const result = await client.query(sql, params);
-        if (result.rowCount === 0) return null;
+      if (accept) {
+        // applyUpdate clears proposed_status once the status matches it.
+        await PlaceModel.applyUpdate(client, id, { status: proposed }, context);
+      } else {
+        await client.query('UPDATE places SET proposed_status = NULL WHERE id = $1', [id]);
       }
+      return true;
+    });
+  }
 
-      // Update tags if provided
-      if (data.tags !== undefined) {
-        await PlaceModel.setTags(client, id, data.tags);
-      }
+  /** IDs of places whose scheduled publish time has passed, earliest first. */
+  static async findDuePublishes(): Promise<string[]> {
+    const result = await query<{ id: string }>(
+      `SELECT id FROM places
+       WHERE publish_at <= NOW() AND deleted_at IS NULL
+       ORDER BY publish_at ASC`
+    );
+    return result.rows.map((row) => row.id);
+  }
 
-      return PlaceModel.findById(id);
+  /**
+   * Publish a place whose scheduled time has passed, as findDuePublishes
+   * listed it. False when it is no longer due — rescheduled, published or
+   * trashed since, possibly by another server running the same scheduler.
+   */
+  static async publishScheduled(id: string): Promise<boolean> {
+    return withTransaction(async (client: PoolClient) => {
+      const state = await PlaceModel.publishState(client, id);
+      if (!state?.due) return false;
+      await PlaceModel.applyPublish(client, id, state, undefined, { actorId: null });
+      return true;
     });
   }
 
+  /** The body of publish() and publishScheduled(), on a locked row. */
+  private static async applyPublish(
+    client: PoolClient,
+    id: string,
+    state: PublishState,
+    data: Partial<PlaceInput> | undefined,
+    context: RevisionContext
+  ): Promise<void> {
+    const edits = data ?? (state.draft as Partial<PlaceInput> | null) ?? {};
+    await PlaceModel.applyUpdate(client, id, edits, { ...context, expectedVersion: undefined });
+    await client.query(
+      `UPDATE places
+       SET published_at = COALESCE(published_at, NOW()), draft = NULL, publish_at = NULL,
+           updated_at = NOW(), version = version + 1
+       WHERE id = $1`,
+      [id]
+    );
+    if (state.published_at === null) {
+      await RevisionModel.recordAction(client, 'place', id, 'publish', {}, context);
+    }
+  }
+
   /**
-   * Delete a place
+   * Move a place to the trash: it disappears from every read path but keeps
+   * its tags until purged. Leaves a tombstone so delta-syncing clients
+   * (GET /api/places/changes) learn about the deletion.
    */
-  static async delete(id: string): Promise<boolean> {
-    const result = await query('DELETE FROM places WHERE id = $1', [id]);
+  static async delete(id: string, context?: RevisionContext): Promise<boolean> {
+    return withTransaction(async (client: PoolClient) => {
+      const result = await client.query(
+        'UPDATE places SET deleted_at = NOW() WHERE id = $1 AND deleted_at IS NULL',
+        [id]
+      );
+      if ((result.rowCount ?? 0) === 0) return false;
+
+      await RevisionModel.recordAction(client, 'place', id, 'delete', {}, context);
+      await client.query(
+        `INSERT INTO place_tombstones (place_id) VALUES ($1)
+         ON CONFLICT (place_id) DO UPDATE SET deleted_at = NOW()`,
+        [id]
+      );
+      return true;
+    });
+  }
+
+  /**
+   * Trashed places, most recently deleted first, with `deleted_at`. Tags are
+   * included so the Trash page can show what a restore brings back.
+   */
+  static async findTrashed(): Promise<Place[]> {
+    const result = await query<Place>(`
+      SELECT
+        p.id, p.name, p.address, p.neighborhood_id, p.created_at, p.updated_at, p.deleted_at,
+        COALESCE(
+          array_agg(t.value ORDER BY pt.sort_order, t.sort_order) FILTER (WHERE t.value IS NOT NULL),
+          ARRAY[]::varchar[]
+        ) as tags
+      FROM places p
+      LEFT JOIN place_tags pt ON p.id = pt.place_id
+      LEFT JOIN tags t ON pt.tag_id = t.id
+      WHERE p.deleted_at IS NOT NULL
+      GROUP BY p.id
+      ORDER BY p.deleted_at DESC
+    `);
+    return result.rows;
+  }
+
+  /**
+   * Bring a place back from the trash. Its tombstone is removed and
+   * updated_at bumped so delta-syncing clients fetch it again.
+   */
+  static async restore(id: string, context?: RevisionContext): Promise<boolean> {
+    return withTransaction(async (client: PoolClient) => {
+      const result = await client.query(
+        `UPDATE places SET deleted_at = NULL, updated_at = NOW()
+         WHERE id = $1 AND deleted_at IS NOT NULL`,
+        [id]
+      );
+      if ((result.rowCount ?? 0) === 0) return false;
+
+      await client.query('DELETE FROM place_tombstones WHERE place_id = $1', [id]);
+      await RevisionModel.recordAction(client, 'place', id, 'restore', {}, context);
+      return true;
+    });
+  }
+
+  /**
+   * Hard-delete a trashed place (and, by cascade, its tags). Places that are
+   * not in the trash are left alone.
+   */
+  static async purge(id: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM places WHERE id = $1 AND deleted_at IS NOT NULL',
+      [id]
+    );
     return (result.rowCount ?? 0) > 0;
   }
 
+  /** Hard-delete every place trashed more than `retentionDays` ago. */
+  static async purgeExpired(retentionDays: number = trashRetentionDays()): Promise<number> {
+    const result = await query(
+      `DELETE FROM places
+       WHERE deleted_at IS NOT NULL
+         AND deleted_at < NOW() - make_interval(days => $1::int)`,
+      [retentionDays]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * IDs of places deleted by a transaction at or after `since` (a
+   * CatalogModel.syncCursor cursor).
+   */
+  static async findDeletedSince(since: string): Promise<string[]> {
+    const result = await query<{ place_id: string }>(
+      `SELECT place_id FROM place_tombstones
+       WHERE change_xid >= $1::xid8
+       ORDER BY deleted_at ASC`,
+      [since]
+    );
+    return result.rows.map((row) => row.place_id);
+  }
+
+  /**
+   * The publishing columns of a place, row-locked for the rest of the
+   * caller's transaction; null when it does not exist or is trashed.
+   */
+  private static async publishState(client: PoolClient, id: string): Promise<PublishState | null> {
+    const result = await client.query<PublishState>(
+      `SELECT version, published_at, draft, publish_at <= NOW() AS due
+       FROM places
+       WHERE id = $1 AND deleted_at IS NULL
+       FOR UPDATE`,
+      [id]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  private static checkVersion(state: PublishState, expectedVersion: number): void {
+    if (state.version !== expectedVersion) {
+      throw new Error(`Edit conflict: place is at version ${state.version}, not ${expectedVersion}`);
+    }
+  }
+
+  /**
+   * The revision-tracked fields of a place, read inside the caller's
+   * transaction; null when it does not exist. `lock` takes a row lock so the
+   * "before" side of a revision cannot go stale under a concurrent write.
+   */
+  private static async snapshot(
+    client: PoolClient,
+    id: string,
+    lock = false
+  ): Promise<RevisionSnapshot | null> {
+    const result = await client.query<RevisionSnapshot>(
+      `SELECT ${REVISION_FIELDS.map(revisionColumn).join(', ')},
+         COALESCE(
+           (SELECT array_agg(t.value ORDER BY pt.sort_order, t.sort_order)
+            FROM place_tags pt JOIN tags t ON t.id = pt.tag_id
+            WHERE pt.place_id = places.id),
+           ARRAY[]::varchar[]
+         ) AS tags,
+         ${specialsScheduleSelect('places.id')} AS specials_schedule,
+         ${hoursOverridesSelect('places.id', false)} AS hours_overrides
+       FROM places
+       WHERE id = $1 AND deleted_at IS NULL${lock ? ' FOR UPDATE' : ''}`,
+      [id]
+    );
+    return result.rows[0] ?? null;
+  }
+
+  /**
+   * Link the upload behind `photoUrl` to the place (uploads.place_id), when
+   * it came through the upload endpoints. A URL entered by hand matches no
+   * upload and is left alone.
+   */
+  private static async linkUpload(client: PoolClient, placeId: string, photoUrl: string): Promise<void> {
+    await client.query('UPDATE uploads SET place_id = $1 WHERE url = $2', [placeId, photoUrl]);
+  }
+
   /**
    * Set tags for a place (replaces existing tags). The order of tagValues
    * determines per-place sort_order (0, 1, 2…). The first tag drives the
@@ -402,6 +1157,61 @@ export class PlaceModel {
       );
     }
   }
+
+  /** Replace a place's structured specials; their order is kept as sort_order. */
+  private static async setSpecials(
+    client: PoolClient,
+    placeId: string,
+    specials: PlaceSpecial[]
+  ): Promise<void> {
+    await client.query('DELETE FROM place_specials WHERE place_id = $1', [placeId]);
+
+    for (let i = 0; i < specials.length; i++) {
+      const special = specials[i];
+      await client.query(
+        `INSERT INTO place_specials
+           (place_id, days, start_time, end_time, until_close, description, price, sort_order)
+         VALUES ($1, $2::smallint[], $3::time, $4::time, $5, $6, $7, $8)`,
+        [
+          placeId,
+          special.days,
+          special.start_time,
+          special.until_close ? null : special.end_time,
+          special.until_close,
+          special.description,
+          special.price,
+          i,
+        ]
+      );
+    }
+  }
+
+  /** Replace a place's hours overrides; a later row for the same date wins. */
+  private static async setHoursOverrides(
+    client: PoolClient,
+    placeId: string,
+    overrides: HoursOverride[]
+  ): Promise<void> {
+    await client.query('DELETE FROM place_hours_overrides WHERE place_id = $1', [placeId]);
+
+    for (const override of overrides) {
+      await client.query(
+        `INSERT INTO place_hours_overrides (place_id, date, closed, open_time, close_time, note)
+         VALUES ($1, $2::date, $3, $4::time, $5::time, $6)
+         ON CONFLICT (place_id, date) DO UPDATE
+         SET closed = EXCLUDED.closed, open_time = EXCLUDED.open_time,
+             close_time = EXCLUDED.close_time, note = EXCLUDED.note`,
+        [
+          placeId,
+          override.date,
+          override.closed,
+          override.closed ? null : override.open_time,
+          override.closed ? null : override.close_time,
+          override.note,
+        ]
+      );
+    }
+  }
 }
 
 export default PlaceModel;
@@ -0,0 +1,151 @@
+import type { PoolClient } from 'pg';
+import { query } from '../pool.js';
+import type { Revision, RevisionAction, RevisionEntityType, RevisionFieldChange } from '@eve/shared-types';
+
+export type { Revision, RevisionAction, RevisionEntityType, RevisionFieldChange };
+
+/** Who is writing, passed by callers of the models' create/update/delete. */
+export interface RevisionContext {
+  /** The admin session's userId; null for scripts. */
+  actorId: string | null;
+  /** Set by PlaceModel.revert: the revision whose state is being restored. */
+  revertedRevisionId?: string;
+}
+
+/** The editable fields of one row, as recorded in revisions.changes. */
+export type RevisionSnapshot = Record<string, unknown>;
+
+const SELECT_COLUMNS = `
+  r.id, r.entity_type, r.entity_id, r.action, r.actor_id, u.name AS actor_name,
+  r.changes, r.reverted_revision_id, r.created_at
+`.trim();
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Field-level before/after of two snapshots of the same row. A null side
+ * (create or delete) records every field with a value on the other side.
+ */
+export function diffSnapshots(
+  before: RevisionSnapshot | null,
+  after: RevisionSnapshot | null
+): Record<string, RevisionFieldChange> {
+  const changes: Record<string, RevisionFieldChange> = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const field of fields) {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (!sameValue(from, to)) changes[field] = { before: from, after: to };
+  }
+  return changes;
+}
+
+/**
+ * Append-only history of admin writes. Models call `record` inside their own
+ * transaction so a write and its revision commit or roll back together.
+ */
+export const RevisionModel = {
+  /**
+   * Record a write. `before` is null for a create and `after` is null for a
+   * delete. Updates that changed nothing are not recorded.
+   */
+  async record(
+    client: PoolClient,
+    entityType: RevisionEntityType,
+    entityId: string,
+    before: RevisionSnapshot | null,
+    after: RevisionSnapshot | null,
+    context?: RevisionContext
+  ): Promise<void> {
+    const action: RevisionAction =
+      before === null ? 'create'
+        : after === null ? 'delete'
+          : context?.revertedRevisionId ? 'revert'
+            : 'update';
+    const changes = diffSnapshots(before, after);
+    if ((action === 'update' || action === 'revert') && Object.keys(changes).length === 0) return;
+
+    await RevisionModel.recordAction(client, entityType, entityId, action, changes, context);
+  },
+
+  /**
+   * Record a revision with an explicit action and changes, for writes that
+   * are not a plain before/after of the editable fields (a place moved to
+   * or restored from the trash records no field changes).
+   */
+  async recordAction(
+    client: PoolClient,
+    entityType: RevisionEntityType,
+    entityId: string,
+    action: RevisionAction,
+    changes: Record<string, RevisionFieldChange>,
+    context?: RevisionContext
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO revisions (entity_type, entity_id, action, actor_id, changes, reverted_revision_id)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        entityType,
+        entityId,
+        action,
+        context?.actorId ?? null,
+        JSON.stringify(changes),
+        context?.revertedRevisionId ?? null,
+      ]
+    );
+  },
+
+  /** History of one row, newest first. */
+  async findForEntity(entityType: RevisionEntityType, entityId: string): Promise<Revision[]> {
+    const result = await query<Revision>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM revisions r
+       LEFT JOIN users u ON u.id = r.actor_id
+       WHERE r.entity_type = $1 AND r.entity_id = $2
+       ORDER BY r.created_at DESC, r.id DESC`,
+      [entityType, entityId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * The row as it stood right after `revisionId`, for every field a later
+   * revision changed: each such field takes the `before` value of the
+   * earliest later revision that touched it. Fields no later revision touched
+   * still hold that value and are left out. Throws when the revision does
+   * not exist.
+   */
+  async stateAfter(
+    client: PoolClient,
+    revisionId: string
+  ): Promise<{ revision: Revision; fields: RevisionSnapshot }> {
+    const result = await client.query<Revision>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM revisions r
+       LEFT JOIN users u ON u.id = r.actor_id
+       WHERE r.id = $1`,
+      [revisionId]
+    );
+    const revision = result.rows[0];
+    if (!revision) throw new Error('Revision not found');
+
+    const later = await client.query<Pick<Revision, 'changes'>>(
+      `SELECT changes FROM revisions
+       WHERE entity_type = $1 AND entity_id = $2
+         AND created_at > (SELECT created_at FROM revisions WHERE id = $3)
+       ORDER BY created_at DESC, id DESC`,
+      [revision.entity_type, revision.entity_id, revision.id]
+    );
+
+    // Newest first, so the earliest later revision's `before` wins.
+    const fields: RevisionSnapshot = {};
+    for (const { changes } of later.rows) {
+      for (const [field, change] of Object.entries(changes)) {
+        fields[field] = change.before;
+      }
+    }
+    return { revision, fields };
+  },
+};
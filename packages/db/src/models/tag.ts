@@ -1,6 +1,7 @@
 import { query, withTransaction } from '../pool.js';
 import type { PoolClient } from 'pg';
-import type { Tag, StructuredTagRows } from '@eve/shared-types';
+import type { Tag, StructuredTagRows, TagWithChildrenRow } from '@eve/shared-types';
+import { RevisionModel, type RevisionContext, type RevisionSnapshot } from './revision.js';
 
 export type { Tag, StructuredTagRows };
 
@@ -8,25 +9,81 @@ export interface TagInput {
   value: string;
   display: string;
   sort_order: number;
+  /** Group this tag under another top-level tag; null makes it top-level. */
+  parent_tag_id?: string | null;
+}
+
+/**
+ * A parent_tag_id the tag cannot be given: a missing tag, or nesting deeper
+ * than one level. The message is meant for the admin.
+ */
+export class TagParentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TagParentError';
+  }
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const SELECT_COLUMNS = `
+  id, value, display, sort_order, parent_tag_id, has_children, created_at, updated_at
+`.trim();
+
+// Admin-editable fields recorded in revisions.
+function revisionSnapshot(tag: Tag): RevisionSnapshot {
+  return {
+    value: tag.value,
+    display: tag.display,
+    sort_order: tag.sort_order,
+    parent_tag_id: tag.parent_tag_id,
+  };
 }
 
 export class TagModel {
   static async findAll(): Promise<Tag[]> {
     const result = await query<Tag>(`
-      SELECT id, value, display, sort_order, created_at, updated_at
+      SELECT ${SELECT_COLUMNS}
       FROM tags
       ORDER BY sort_order ASC, value ASC
     `);
     return result.rows;
   }
 
+  /**
+   * Tags grouped for filter UIs. `parents` are top-level tags with at least
+   * one child, each carrying its children in sort order; `standalone` are
+   * top-level tags with no children. Children never appear at the top level.
+   */
   static async findAllStructured(): Promise<StructuredTagRows> {
-    return { parents: [], standalone: await TagModel.findAll() };
+    const all = await TagModel.findAll();
+
+    const childrenByParent = new Map<string, Tag[]>();
+    for (const tag of all) {
+      if (!tag.parent_tag_id) continue;
+      const siblings = childrenByParent.get(tag.parent_tag_id) ?? [];
+      siblings.push(tag);
+      childrenByParent.set(tag.parent_tag_id, siblings);
+    }
+
+    const parents: TagWithChildrenRow[] = [];
+    const standalone: Tag[] = [];
+    for (const tag of all) {
+      if (tag.parent_tag_id) continue;
+      const children = childrenByParent.get(tag.id);
+      if (children) {
+        parents.push({ ...tag, children });
+      } else {
+        standalone.push(tag);
+      }
+    }
+
+    return { parents, standalone };
   }
 
   static async findById(id: string): Promise<Tag | null> {
     const result = await query<Tag>(
-      'SELECT id, value, display, sort_order, created_at, updated_at FROM tags WHERE id = $1',
+      `SELECT ${SELECT_COLUMNS} FROM tags WHERE id = $1`,
       [id],
     );
     return result.rows[0] || null;
@@ -34,67 +91,129 @@ export class TagModel {
 
   static async findByValue(value: string): Promise<Tag | null> {
     const result = await query<Tag>(
-      'SELECT id, value, display, sort_order, created_at, updated_at FROM tags WHERE value = $1',
+      `SELECT ${SELECT_COLUMNS} FROM tags WHERE value = $1`,
       [value],
     );
     return result.rows[0] || null;
   }
 
-  static async create(data: TagInput): Promise<Tag> {
-    const result = await query<Tag>(
-      `INSERT INTO tags (value, display, sort_order)
-       VALUES ($1, $2, $3)
-       RETURNING id, value, display, sort_order, created_at, updated_at`,
-      [data.value, data.display, data.sort_order],
-    );
+  static async create(data: TagInput, context?: RevisionContext): Promise<Tag> {
+    return withTransaction(async (client: PoolClient) => {
+      const parentId = data.parent_tag_id || null;
+      if (parentId) {
+        await TagModel.assertCanBeParent(client, parentId, null);
+      }
+
+      const result = await client.query<Tag>(
+        `INSERT INTO tags (value, display, sort_order, parent_tag_id)
+         VALUES ($1, $2, $3, $4)
+         RETURNING ${SELECT_COLUMNS}`,
+        [data.value, data.display, data.sort_order, parentId],
+      );
 
-    return result.rows[0];
+      if (parentId) {
+        await TagModel.refreshHasChildren(client, [parentId]);
+      }
+      await RevisionModel.record(client, 'tag', result.rows[0].id, null, revisionSnapshot(result.rows[0]), context);
+      return result.rows[0];
+    });
   }
 
-  static async update(id: string, data: Partial<TagInput>): Promise<Tag | null> {
-    const oldTag = await TagModel.findById(id);
-    if (!oldTag) return null;
+  static async update(id: string, data: Partial<TagInput>, context?: RevisionContext): Promise<Tag | null> {
+    return withTransaction(async (client: PoolClient) => {
+      const oldResult = await client.query<Tag>(
+        `SELECT ${SELECT_COLUMNS} FROM tags WHERE id = $1 FOR UPDATE`,
+        [id],
+      );
+      const oldTag = oldResult.rows[0];
+      if (!oldTag) return null;
 
-    const updates: string[] = [];
-    const params: unknown[] = [];
-    let paramIndex = 1;
+      const newParentId = data.parent_tag_id === undefined ? undefined : data.parent_tag_id || null;
+      if (newParentId) {
+        await TagModel.assertCanBeParent(client, newParentId, id);
+      }
 
-    if (data.value !== undefined) {
-      updates.push(`value = $${paramIndex++}`);
-      params.push(data.value);
-    }
-    if (data.display !== undefined) {
-      updates.push(`display = $${paramIndex++}`);
-      params.push(data.display);
-    }
-    if (data.sort_order !== undefined) {
-      updates.push(`sort_order = $${paramIndex++}`);
-      params.push(data.sort_order);
-    }
+      const updates: string[] = [];
+      const params: unknown[] = [];
+      let paramIndex = 1;
 
-    if (updates.length === 0) {
-      return oldTag;
-    }
+      if (data.value !== undefined) {
+        updates.push(`value = $${paramIndex++}`);
+        params.push(data.value);
+      }
+      if (data.display !== undefined) {
+        updates.push(`display = $${paramIndex++}`);
+        params.push(data.display);
+      }
+      if (data.sort_order !== undefined) {
+        updates.push(`sort_order = $${paramIndex++}`);
+        params.push(data.sort_order);
+      }
+      if (newParentId !== undefined && newParentId !== oldTag.parent_tag_id) {
+        updates.push(`parent_tag_id = $${paramIndex++}`);
+        params.push(newParentId);
+      }
 
-    updates.push('updated_at = NOW()');
-    params.push(id);
+      if (updates.length === 0) {
+        return oldTag;
+      }
 
-    const result = await query<Tag>(
-      `UPDATE tags
-       SET ${updates.join(', ')}
-       WHERE id = $${paramIndex}
-       RETURNING id, value, display, sort_order, created_at, updated_at`,
-      params,
-    );
+      updates.push('updated_at = NOW()');
+      params.push(id);
 
-    return result.rows[0] || null;
+      const result = await client.query<Tag>(
+        `UPDATE tags
+         SET ${updates.join(', ')}
+         WHERE id = $${paramIndex}
+         RETURNING ${SELECT_COLUMNS}`,
+        params,
+      );
+
+      if (newParentId !== undefined && newParentId !== oldTag.parent_tag_id) {
+        await TagModel.refreshHasChildren(
+          client,
+          [oldTag.parent_tag_id, newParentId].filter((p): p is string => Boolean(p)),
+        );
+      }
+
+      const updated = result.rows[0];
+      if (updated) {
+        await RevisionModel.record(client, 'tag', id, revisionSnapshot(oldTag), revisionSnapshot(updated), context);
+      }
+      return updated || null;
+    });
   }
 
-  static async delete(id: string): Promise<boolean> {
-    await query('DELETE FROM place_tags WHERE tag_id = $1', [id]);
-    const result = await query('DELETE FROM tags WHERE id = $1', [id]);
+  static async delete(id: string, context?: RevisionContext): Promise<boolean> {
+    return withTransaction(async (client: PoolClient) => {
+      const existing = await client.query<Tag>(
+        `SELECT ${SELECT_COLUMNS} FROM tags WHERE id = $1 FOR UPDATE`,
+        [id],
+      );
+      if (existing.rows.length === 0) return false;
+
+      // Losing a tag changes the `tags` array of every place that carried it;
+      // bump those places so delta-syncing clients pick the change up.
+      await client.query(
+        'UPDATE places SET updated_at = NOW() WHERE id IN (SELECT place_id FROM place_tags WHERE tag_id = $1)',
+        [id],
+      );
+      await client.query('DELETE FROM place_tags WHERE tag_id = $1', [id]);
+
+      // Children of a deleted group become standalone tags.
+      await client.query(
+        'UPDATE tags SET parent_tag_id = NULL, updated_at = NOW() WHERE parent_tag_id = $1',
+        [id],
+      );
+      const result = await client.query('DELETE FROM tags WHERE id = $1', [id]);
 
-    return (result.rowCount ?? 0) > 0;
+      const parentId = existing.rows[0].parent_tag_id;
+      if (parentId) {
+        await TagModel.refreshHasChildren(client, [parentId]);
+      }
+      await RevisionModel.record(client, 'tag', id, revisionSnapshot(existing.rows[0]), null, context);
+      return (result.rowCount ?? 0) > 0;
+    });
   }
 
   static async findPlacesByTagId(tagId: string): Promise<{ id: string; name: string }[]> {
@@ -102,15 +221,88 @@ export class TagModel {
       `SELECT p.id, p.name
        FROM places p
        JOIN place_tags pt ON p.id = pt.place_id
-       WHERE pt.tag_id = $1
+       WHERE pt.tag_id = $1 AND p.deleted_at IS NULL
        ORDER BY p.name ASC`,
       [tagId],
     );
     return result.rows;
   }
 
-  static async getPotentialParents(): Promise<Tag[]> {
-    return [];
+  /**
+   * Tags that `tagId` (or a new tag, when omitted) may be grouped under:
+   * every other top-level tag. Empty when `tagId` already has children,
+   * since a group cannot itself be nested.
+   */
+  static async getPotentialParents(tagId?: string): Promise<Tag[]> {
+    if (tagId) {
+      const tag = await TagModel.findById(tagId);
+      if (tag?.has_children) return [];
+    }
+
+    const result = await query<Tag>(
+      `SELECT ${SELECT_COLUMNS}
+       FROM tags
+       WHERE parent_tag_id IS NULL AND ($1::uuid IS NULL OR id <> $1::uuid)
+       ORDER BY sort_order ASC, value ASC`,
+      [tagId ?? null],
+    );
+    return result.rows;
+  }
+
+  /**
+   * Throw a TagParentError unless `parentId` names a tag that can take
+   * `childId` (null for a tag being created) as a child. Nesting is limited
+   * to one level: a parent must be top-level, and a tag that already has
+   * children cannot be given a parent. The parent row is locked so a
+   * concurrent write cannot nest it meanwhile.
+   */
+  static async assertCanBeParent(
+    client: PoolClient,
+    parentId: string,
+    childId: string | null,
+  ): Promise<void> {
+    if (parentId === childId) {
+      throw new TagParentError('Nesting limited: a tag cannot be its own parent');
+    }
+    if (!UUID_RE.test(parentId)) {
+      throw new TagParentError('Parent tag not found');
+    }
+
+    const parentResult = await client.query<Tag>(
+      `SELECT ${SELECT_COLUMNS} FROM tags WHERE id = $1 FOR UPDATE`,
+      [parentId],
+    );
+    const parent = parentResult.rows[0];
+    if (!parent) {
+      throw new TagParentError('Parent tag not found');
+    }
+    if (parent.parent_tag_id) {
+      throw new TagParentError(`Nesting limited to one level: "${parent.display}" is already inside another group`);
+    }
+
+    if (childId) {
+      const childResult = await client.query<{ display: string }>(
+        'SELECT display FROM tags WHERE parent_tag_id = $1 LIMIT 1',
+        [childId],
+      );
+      if (childResult.rows.length > 0) {
+        throw new TagParentError('Nesting limited to one level: a tag with child tags cannot be moved into a group');
+      }
+    }
+  }
+
+  /**
+   * Recompute has_children for the given tags, or for every tag when `ids`
+   * is omitted.
+   */
+  private static async refreshHasChildren(client: PoolClient, ids?: string[]): Promise<void> {
+    if (ids && ids.length === 0) return;
+    await client.query(
+      `UPDATE tags
+       SET has_children = EXISTS (SELECT 1 FROM tags c WHERE c.parent_tag_id = tags.id)
+       WHERE ($1::uuid[] IS NULL OR id = ANY($1::uuid[]))`,
+      [ids ?? null],
+    );
   }
 
   static async bulkSave(tags: TagInput[]): Promise<Tag[]> {
@@ -121,6 +313,10 @@ export class TagModel {
 
       const toDelete = existingResult.rows.filter((tag) => !newValues.has(tag.value));
       if (toDelete.length > 0) {
+        await client.query(
+          'UPDATE places SET updated_at = NOW() WHERE id IN (SELECT place_id FROM place_tags WHERE tag_id = ANY($1))',
+          [toDelete.map((tag) => tag.id)],
+        );
         await client.query(
           'DELETE FROM tags WHERE id = ANY($1)',
           [toDelete.map((tag) => tag.id)],
@@ -145,8 +341,11 @@ export class TagModel {
         }
       }
 
+      // Deleted group tags leave their children standalone (ON DELETE SET NULL).
+      await TagModel.refreshHasChildren(client);
+
       const result = await client.query<Tag>(`
-        SELECT id, value, display, sort_order, created_at, updated_at
+        SELECT ${SELECT_COLUMNS}
         FROM tags
         ORDER BY sort_order ASC, value ASC
       `);
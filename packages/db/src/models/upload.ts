@@ -0,0 +1,125 @@
+import type { PoolClient } from 'pg';
+import { query, withTransaction } from '../pool.js';
+import type { Upload } from '@eve/shared-types';
+
+export type { Upload } from '@eve/shared-types';
+
+/**
+ * What an upload endpoint wrote — @eve/storage's PutObjectResult plus the
+ * content type, so a handler can pass `{ ...result, contentType }` as is.
+ */
+export interface UploadInput {
+  key: string;
+  url: string;
+  contentType: string;
+  width?: number;
+  height?: number;
+  blurhash?: string;
+  variants?: Array<{ key: string; url: string; width: number; height: number; contentType: string }>;
+}
+
+const SELECT_COLUMNS = `
+  key, url, content_type, width, height, blurhash, variants, place_id, created_at
+`.trim();
+
+export const UploadModel = {
+  /** Record an upload; writing the same key again replaces the row. */
+  async record(data: UploadInput): Promise<Upload> {
+    const variants = (data.variants ?? []).map((v) => ({
+      key: v.key,
+      url: v.url,
+      width: v.width,
+      height: v.height,
+      content_type: v.contentType,
+    }));
+    const result = await query<Upload>(
+      `INSERT INTO uploads (key, url, content_type, width, height, blurhash, variants)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (key) DO UPDATE SET
+         url = EXCLUDED.url,
+         content_type = EXCLUDED.content_type,
+         width = EXCLUDED.width,
+         height = EXCLUDED.height,
+         blurhash = EXCLUDED.blurhash,
+         variants = EXCLUDED.variants
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        data.key,
+        data.url,
+        data.contentType,
+        data.width ?? null,
+        data.height ?? null,
+        data.blurhash ?? null,
+        JSON.stringify(variants),
+      ]
+    );
+    return result.rows[0];
+  },
+
+  async findAll(): Promise<Upload[]> {
+    const result = await query<Upload>(`SELECT ${SELECT_COLUMNS} FROM uploads ORDER BY created_at`);
+    return result.rows;
+  },
+
+  /**
+   * Every photo URL a place can show: the live photo_url of each place,
+   * trashed ones included (they can be restored), and the photo_url of
+   * pending drafts. Older photos kept only in revisions do not count.
+   */
+  async referencedUrls(): Promise<string[]> {
+    const result = await query<{ url: string }>(
+      `SELECT photo_url AS url FROM places WHERE photo_url IS NOT NULL
+       UNION
+       SELECT draft->>'photo_url' FROM places WHERE draft->>'photo_url' IS NOT NULL`
+    );
+    return result.rows.map((row) => row.url);
+  },
+
+  /**
+   * Point stored-object URLs somewhere else, in one transaction: `urls` maps
+   * old URL → new URL across places.photo_url, photo_url in pending drafts,
+   * and uploads rows (original and variant URLs). Each place that changes
+   * gets a new version and updated_at, so an edit form opened before the
+   * move conflicts instead of saving the old URL back, and clients re-sync.
+   * Returns how many places and uploads rows changed.
+   */
+  async rewriteUrls(urls: Map<string, string>): Promise<{ places: number; uploads: number }> {
+    return withTransaction(async (client: PoolClient) => {
+      const places = new Set<string>();
+      const uploads = new Set<string>();
+      for (const [from, to] of urls) {
+        const live = await client.query<{ id: string }>(
+          `UPDATE places SET photo_url = $2, version = version + 1, updated_at = NOW()
+           WHERE photo_url = $1 RETURNING id`,
+          [from, to]
+        );
+        const drafts = await client.query<{ id: string }>(
+          `UPDATE places SET draft = jsonb_set(draft, '{photo_url}', to_jsonb($2::text)), version = version + 1
+           WHERE draft->>'photo_url' = $1 RETURNING id`,
+          [from, to]
+        );
+        const rows = await client.query<{ key: string }>(
+          `UPDATE uploads SET
+             url = CASE WHEN url = $1 THEN $2 ELSE url END,
+             variants = (
+               SELECT COALESCE(jsonb_agg(
+                 CASE WHEN v->>'url' = $1 THEN jsonb_set(v, '{url}', to_jsonb($2::text)) ELSE v END
+               ), '[]'::jsonb)
+               FROM jsonb_array_elements(variants) v
+             )
+           WHERE url = $1 OR variants @> jsonb_build_array(jsonb_build_object('url', $1::text))
+           RETURNING key`,
+          [from, to]
+        );
+        for (const row of [...live.rows, ...drafts.rows]) places.add(row.id);
+        for (const row of rows.rows) uploads.add(row.key);
+      }
+      return { places: places.size, uploads: uploads.size };
+    });
+  },
+
+  async delete(key: string): Promise<boolean> {
+    const result = await query('DELETE FROM uploads WHERE key = $1', [key]);
+    return (result.rowCount ?? 0) > 0;
+  },
+};
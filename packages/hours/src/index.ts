@@ -1,4 +1,13 @@
-import { HoursJson, EVE_TIMEZONE } from '@eve/shared-types';
+/**
+ * Opening-hours evaluation over Google `regularOpeningHours` (HoursJson).
+ *
+ * Shared by the public API (`/api/places?open_now=1`) and the mobile app so
+ * both agree on what "open" means. All evaluation happens in EVE_TIMEZONE,
+ * whatever the timezone of the host running it. Date-specific overrides
+ * (`HoursJson.overrides`) take precedence over the weekly periods.
+ */
+import type { HoursJson, HoursOverride } from '@eve/shared-types';
+import { EVE_TIMEZONE } from '@eve/shared-types';
 
 /** Extract day-of-week (0=Sunday), hour, and minute in Eastern Time */
 function getETComponents(date: Date): { day: number; hour: number; minute: number } {
@@ -48,6 +57,112 @@ function toWeekMinutes(day: number, hour: number, minute: number): number {
   return day * 24 * 60 + hour * 60 + minute;
 }
 
+const DAY_MINUTES = 24 * 60;
+
+/** The ET calendar date of `date` as "YYYY-MM-DD". */
+function getETDate(date: Date): string {
+  const formatter = new Intl.DateTimeFormat('en-CA', {
+    timeZone: EVE_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  });
+  return formatter.format(date);
+}
+
+/** The "YYYY-MM-DD" date before `date`. */
+function previousDate(date: string): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d - 1)).toISOString().slice(0, 10);
+}
+
+/** Minutes since midnight for an "HH:MM" clock string. */
+function parseClock(value: string): number {
+  const [h, m] = value.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Open intervals of the business day starting on `date` (weekday `day`), in
+ * minutes relative to `offset` — 0 for today's midnight, -DAY_MINUTES for
+ * yesterday's. An override for the date replaces the weekly periods.
+ */
+function dayIntervals(
+  hoursJson: HoursJson,
+  date: string,
+  day: number,
+  offset: number
+): Array<{ start: number; end: number }> {
+  const override = hoursJson.overrides?.find((o) => o.date === date);
+  if (override) {
+    if (override.closed || !override.open_time || !override.close_time) return [];
+    const open = parseClock(override.open_time);
+    let close = parseClock(override.close_time);
+    if (close <= open) close += DAY_MINUTES;
+    return [{ start: offset + open, end: offset + close }];
+  }
+
+  if (isAlwaysOpen(hoursJson)) return [{ start: offset, end: offset + DAY_MINUTES }];
+
+  const intervals: Array<{ start: number; end: number }> = [];
+  for (const period of hoursJson.periods) {
+    if (period.open.day !== day) continue;
+    const open = period.open.hour * 60 + period.open.minute;
+    let close = DAY_MINUTES;
+    if (period.close) {
+      close = ((period.close.day - day + 7) % 7) * DAY_MINUTES + period.close.hour * 60 + period.close.minute;
+      if (close <= open) close += 7 * DAY_MINUTES;
+    }
+    intervals.push({ start: offset + open, end: offset + close });
+  }
+  return intervals;
+}
+
+/**
+ * When an override covers today or yesterday (whose hours can run past
+ * midnight), the open intervals that apply now, in minutes from today's ET
+ * midnight, with the minute `now` falls on. Null when no override applies
+ * and the weekly periods are evaluated as usual.
+ */
+function overrideWindow(
+  hoursJson: HoursJson,
+  now: Date
+): { intervals: Array<{ start: number; end: number }>; nowMinutes: number } | null {
+  if (!hoursJson.overrides?.length) return null;
+  const today = getETDate(now);
+  const yesterday = previousDate(today);
+  if (!hoursJson.overrides.some((o) => o.date === today || o.date === yesterday)) return null;
+
+  const { day, hour, minute } = getETComponents(now);
+  return {
+    intervals: [
+      ...dayIntervals(hoursJson, yesterday, (day + 6) % 7, -DAY_MINUTES),
+      ...dayIntervals(hoursJson, today, day, 0),
+    ],
+    nowMinutes: hour * 60 + minute,
+  };
+}
+
+/**
+ * `hoursJson` with `overrides` layered on top of any it already carries
+ * (Google's special days); on the same date the new override wins. A place
+ * with overrides but no weekly hours gets empty periods.
+ */
+export function withHoursOverrides(
+  hoursJson: HoursJson | null,
+  overrides: HoursOverride[] | undefined
+): HoursJson | null {
+  if (!overrides || overrides.length === 0) return hoursJson;
+  const dates = new Set(overrides.map((o) => o.date));
+  const merged = [...(hoursJson?.overrides ?? []).filter((o) => !dates.has(o.date)), ...overrides]
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    periods: hoursJson?.periods ?? [],
+    weekdayDescriptions: hoursJson?.weekdayDescriptions ?? [],
+    overrides: merged,
+  };
+}
+
 /**
  * Extracts periods for a given day of week (0=Sunday).
  * Handles periods where open.day matches but close.day might be next day (overnight).
@@ -78,11 +193,18 @@ export function parseHoursForDay(
 /**
  * Returns true if current ET time falls within any period for current ET day.
  * Handles overnight spans (e.g., open 6pm Tuesday, close 2am Wednesday).
+ * An override for today, or for yesterday running past midnight, replaces
+ * the weekly periods for that day.
  * Returns false if hoursJson is null.
  */
 export function isOpenNow(hoursJson: HoursJson | null, now: Date): boolean {
   if (!hoursJson) return false;
 
+  const window = overrideWindow(hoursJson, now);
+  if (window) {
+    return window.intervals.some((i) => window.nowMinutes >= i.start && window.nowMinutes < i.end);
+  }
+
   // 24-hour always-open check
   if (isAlwaysOpen(hoursJson)) return true;
 
@@ -117,11 +239,19 @@ export function isOpenNow(hoursJson: HoursJson | null, now: Date): boolean {
 }
 
 /**
- * Returns the next close time as a Date if currently open.
+ * Returns the next close time as a Date if currently open, honoring
+ * overrides like isOpenNow.
  * Returns null if closed or hours unknown.
  */
 export function getClosingTime(hoursJson: HoursJson | null, now: Date): Date | null {
   if (!hoursJson) return null;
+
+  const window = overrideWindow(hoursJson, now);
+  if (window) {
+    const current = window.intervals.find((i) => window.nowMinutes >= i.start && window.nowMinutes < i.end);
+    return current ? new Date(now.getTime() + (current.end - window.nowMinutes) * 60 * 1000) : null;
+  }
+
   if (isAlwaysOpen(hoursJson)) return null;
 
   const { day, hour, minute } = getETComponents(now);
@@ -1,12 +1,28 @@
 import type { PlaceResponse } from './place.js';
+import type { EventOccurrenceResponse } from './event.js';
 import type { TagSummary, StructuredTags } from './tag.js';
 
 /** Response for GET /api/places (list) */
 export type PlacesListResponse = PlaceResponse[];
 
+/**
+ * Response for GET /api/places/changes — places created or updated since the
+ * `since` cursor (list shape), keys of places deleted since then, and the
+ * cursor to send on the next call. Without `since`, `places` is the full list
+ * and `deleted` is empty.
+ */
+export interface PlaceChangesResponse {
+  places: PlaceResponse[];
+  deleted: string[];
+  cursor: string;
+}
+
 /** Response for GET /api/places/:id */
 export type PlaceDetailResponse = PlaceResponse;
 
+/** Response for GET /api/events — occurrences in the window, earliest first */
+export type EventsListResponse = EventOccurrenceResponse[];
+
 /** Response for GET /api/tags (flat list) */
 export type TagsFlatResponse = TagSummary[];
 
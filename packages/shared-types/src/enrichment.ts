@@ -0,0 +1,32 @@
+import type { HoursJson } from './place.js';
+
+export type EnrichmentProposalStatus = 'pending' | 'accepted' | 'rejected' | 'superseded';
+
+/**
+ * A Text Search match staged by `scripts/enrich-places.ts` for admin review.
+ * Nothing is copied onto the place until the proposal is accepted.
+ */
+export interface EnrichmentProposal {
+  id: string;
+  place_id: string;
+  /** The Text Search query that produced this match. */
+  search_query: string;
+  google_place_id: string;
+  /** What Google calls the matched place, to compare against ours. */
+  matched_name: string | null;
+  matched_address: string | null;
+  hours_json: HoursJson | null;
+  google_price_level: number | null;
+  status: EnrichmentProposalStatus;
+  created_at: Date;
+  reviewed_at: Date | null;
+  reviewed_by: string | null;
+}
+
+/** A pending proposal joined with the place it would update, for the review queue. */
+export interface EnrichmentProposalForReview extends EnrichmentProposal {
+  place_name: string;
+  place_address: string | null;
+  /** Name of another place already linked to this google_place_id, if any. */
+  conflicting_place_name: string | null;
+}
@@ -0,0 +1,42 @@
+/** What kind of night an event is; the mobile `music` signal uses 'live-music' and 'dj'. */
+export type EventTag = 'live-music' | 'dj' | 'trivia' | 'karaoke' | 'comedy' | 'open-mic' | 'sports' | 'other';
+
+/** A weekly event repeats at the same Eastern Time wall-clock time. */
+export type EventRecurrence = 'weekly';
+
+/**
+ * Event at a place as returned by the PostgreSQL driver — timestamps are
+ * Date objects. A recurring event's starts_at/ends_at are its first
+ * occurrence.
+ */
+export interface PlaceEvent {
+  id: string;
+  place_id: string;
+  title: string;
+  description: string | null;
+  starts_at: Date;
+  ends_at: Date | null;
+  recurrence: EventRecurrence | null;
+  /** No occurrences start after this; null repeats indefinitely. */
+  recurrence_until: Date | null;
+  tags: EventTag[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * One occurrence of an event, as served by GET /api/events — timestamps are
+ * ISO 8601 strings. Recurring events appear once per occurrence, with the
+ * same `key`.
+ */
+export interface EventOccurrenceResponse {
+  /** The event's id. */
+  key: string;
+  place_key: string;
+  title: string;
+  description: string | null;
+  starts_at: string;
+  ends_at: string | null;
+  recurrence: EventRecurrence | null;
+  tags: EventTag[];
+}
@@ -1,5 +1,9 @@
-export type { Place, PlaceResponse, HoursJson } from './place.js';
+export type { Place, PlaceResponse, PlaceSpecial, HoursJson, HoursOverride, PlaceLocationSource, PlaceStatus } from './place.js';
 export { EVE_TIMEZONE } from './place.js';
 export type { Tag, TagSummary, TagWithChildren, StructuredTags, TagWithChildrenRow, StructuredTagRows } from './tag.js';
-export type { PlacesListResponse, PlaceDetailResponse, TagsFlatResponse, TagsStructuredResponse } from './api.js';
+export type { PlacesListResponse, PlaceChangesResponse, PlaceDetailResponse, EventsListResponse, TagsFlatResponse, TagsStructuredResponse } from './api.js';
+export type { PlaceEvent, EventTag, EventRecurrence, EventOccurrenceResponse } from './event.js';
 export type { Neighborhood, NeighborhoodSummary } from './neighborhood.js';
+export type { PhotoVariant, PlacePhoto, Upload } from './upload.js';
+export type { EnrichmentProposal, EnrichmentProposalStatus, EnrichmentProposalForReview } from './enrichment.js';
+export type { Revision, RevisionAction, RevisionEntityType, RevisionFieldChange } from './revision.js';
@@ -1,3 +1,5 @@
+import type { PlacePhoto } from './upload.js';
+
 /** Google Places regularOpeningHours structure stored as JSONB */
 export interface HoursJson {
   periods: Array<{
@@ -5,8 +7,59 @@ export interface HoursJson {
     close?: { day: number; hour: number; minute: number };
   }>;
   weekdayDescriptions: string[];
+  /**
+   * Date-specific hours that replace the weekly periods for that day:
+   * Google's special days as stored by enrichment, plus (in API responses)
+   * the admin's overrides, which win on the same date.
+   */
+  overrides?: HoursOverride[];
 }
 
+/**
+ * Hours for one calendar day that replace the weekly periods — a holiday
+ * closure or a late New Year's Eve. Times are "HH:MM" (24-hour) in
+ * EVE_TIMEZONE; a close_time at or before open_time runs past midnight.
+ */
+export interface HoursOverride {
+  /** "YYYY-MM-DD" in EVE_TIMEZONE. */
+  date: string;
+  /** Closed all day; open_time and close_time are null. */
+  closed: boolean;
+  open_time: string | null;
+  close_time: string | null;
+  /** Why, e.g. "Thanksgiving". */
+  note: string | null;
+}
+
+/**
+ * One recurring special at a place — a happy hour, a weekly deal — as entered
+ * in the admin. Times are "HH:MM" (24-hour) in EVE_TIMEZONE. An end_time
+ * earlier than start_time runs past midnight into the next day; `days` are
+ * the days it starts on.
+ */
+export interface PlaceSpecial {
+  /** 0=Sunday … 6=Saturday. */
+  days: number[];
+  start_time: string;
+  /** Null when `until_close` is set. */
+  end_time: string | null;
+  /** Runs until the place closes, per hours_json. */
+  until_close: boolean;
+  description: string;
+  /** Price in dollars, when the special has one. */
+  price: number | null;
+}
+
+/**
+ * Whether a place is operating. A temporarily closed place may carry a
+ * `reopens_on` date; a permanently closed one stays listed with a banner
+ * rather than being deleted.
+ */
+export type PlaceStatus = 'open' | 'temporarily_closed' | 'permanently_closed';
+
+/** Where a place's lat/lng came from. */
+export type PlaceLocationSource = 'google' | 'manual';
+
 /** All EVE places are in Eastern Time */
 export const EVE_TIMEZONE = 'America/New_York';
 
@@ -14,11 +67,14 @@ export const EVE_TIMEZONE = 'America/New_York';
  * Place as returned by the PostgreSQL driver — timestamps are Date objects.
  * Used internally by src/models/place.ts.
  *
- * lat and lng are present from Phase 1 (nullable). Phase 2 will populate them
- * via the geocoding backfill script and admin override UI.
+ * lat and lng are nullable. They are filled by `scripts/enrich-places.ts
+ * --geocode` or set by an admin; `location_source` records which, and the
+ * geocoder never overwrites 'manual' coordinates.
  */
 export interface Place {
   id: string;
+  /** URL name, unique across places; see PlaceModel.findByKey for old slugs. */
+  slug: string;
   name: string;
   address: string | null;
   phone: string | null;
@@ -27,11 +83,23 @@ export interface Place {
   categories: string | null;
   notes: string | null;
   tags: string[];
+  /** Structured specials, in admin order. */
+  specials_schedule?: PlaceSpecial[];
+  /** Admin-entered hours overrides from yesterday on, by date. Merged into hours_json by the API. */
+  hours_overrides?: HoursOverride[];
+  status?: PlaceStatus;
+  /** "YYYY-MM-DD" (Eastern); only set while temporarily closed. */
+  reopens_on?: string | null;
+  /** A status Google reported and an admin has not yet applied or dismissed. */
+  proposed_status?: PlaceStatus | null;
   neighborhood_id: string;
   lat?: number | null;
   lng?: number | null;
+  location_source?: PlaceLocationSource | null;
   created_at: Date;
   updated_at: Date;
+  /** Bumped on every update; the admin edit form sends it back to detect conflicting edits. */
+  version?: number;
   pitch?: string;
   perfect?: string;
   insider?: string;
@@ -47,6 +115,18 @@ export interface Place {
   google_price_level?: number;
   enrichment_status?: string;
   enriched_at?: Date;
+  /** Metres from the query point. Only set by PlaceModel.findAll({ near }). */
+  distance_m?: number;
+  /** When the place was moved to the trash. Only set by PlaceModel.findTrashed(). */
+  deleted_at?: Date | null;
+  /** When the place first went live; null while it is an unpublished draft. */
+  published_at?: Date | null;
+  /** Unpublished edits to a published place, in PlaceInput shape (see PlaceModel.saveDraft). */
+  draft?: Record<string, unknown> | null;
+  /** When the publish scheduler will publish the place or its draft. */
+  publish_at?: Date | null;
+  /** Pipeline output for photo_url; null for photos uploaded before it or set by URL. */
+  photo?: PlacePhoto | null;
 }
 
 /**
@@ -55,14 +135,25 @@ export interface Place {
  */
 export interface PlaceResponse {
   key: string;
+  /** Accepted wherever `key` is. Absent from responses cached before it existed. */
+  slug?: string;
   name: string;
   address: string | null;
   phone: string | null;
   url: string | null;
   specials: string | null;
+  /**
+   * Structured specials; the free-text `specials` is only a fallback when
+   * this is empty. Absent from responses cached before it existed.
+   */
+  specials_schedule?: PlaceSpecial[];
   categories: string | null;
   notes: string | null;
   tags: string[];
+  /** Absent from responses cached before it existed; treat as 'open'. */
+  status?: PlaceStatus;
+  /** "YYYY-MM-DD" (Eastern) when a temporarily closed place expects to reopen. */
+  reopens_on?: string | null;
   neighborhood_id?: string;
   lat?: number | null;
   lng?: number | null;
@@ -77,10 +168,14 @@ export interface PlaceResponse {
   price_tier?: string | null;
   cross_street?: string | null;
   photo_url?: string | null;
+  /** Dimensions, blurhash and resized/WebP variants of photo_url, when it went through the upload pipeline. */
+  photo?: PlacePhoto | null;
   photo_credit?: string | null;
   google_place_id?: string | null;
   hours_json?: HoursJson | null;
   google_price_level?: number | null;
   enrichment_status?: string | null;
   enriched_at?: string | null;
+  /** Whole metres from the `near` point. Only present on `GET /api/places?near=`. */
+  distance_m?: number;
 }
@@ -0,0 +1,28 @@
+export type RevisionEntityType = 'place' | 'tag' | 'neighborhood';
+
+export type RevisionAction = 'create' | 'update' | 'delete' | 'revert' | 'restore' | 'publish';
+
+/** One field's value on either side of a write. */
+export interface RevisionFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * One write to a place, tag or neighborhood, recorded by the model in the
+ * same transaction. `changes` holds only the fields that changed.
+ */
+export interface Revision {
+  id: string;
+  entity_type: RevisionEntityType;
+  entity_id: string;
+  action: RevisionAction;
+  /** Admin who made the change; null for scripts or a since-deleted user. */
+  actor_id: string | null;
+  /** Joined from users for display; null when actor_id is. */
+  actor_name: string | null;
+  changes: Record<string, RevisionFieldChange>;
+  /** On 'revert' revisions, the revision whose state was restored. */
+  reverted_revision_id: string | null;
+  created_at: Date;
+}
@@ -7,6 +7,10 @@ export interface Tag {
   value: string;
   display: string;
   sort_order: number;
+  /** Parent group tag, or null for a top-level tag. Nesting is one level deep. */
+  parent_tag_id: string | null;
+  /** True when at least one tag names this one as its parent (maintained on write). */
+  has_children: boolean;
   created_at: Date;
   updated_at: Date;
 }
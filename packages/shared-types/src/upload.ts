@@ -0,0 +1,34 @@
+/** A resized or re-encoded copy of an uploaded image. */
+export interface PhotoVariant {
+  url: string;
+  width: number;
+  height: number;
+  /** 'image/webp', or the original's type. */
+  content_type: string;
+}
+
+/**
+ * What the upload pipeline recorded about an image: its size after
+ * orientation, a blurhash placeholder and its narrower/WebP copies. The
+ * original itself (`photo_url`) is not among the variants.
+ */
+export interface PlacePhoto {
+  width: number;
+  height: number;
+  blurhash: string;
+  variants: PhotoVariant[];
+}
+
+/** An object written through the admin upload endpoints (uploads table). */
+export interface Upload {
+  key: string;
+  url: string;
+  content_type: string;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+  variants: Array<PhotoVariant & { key: string }>;
+  /** The place that last saved this upload as its photo. */
+  place_id: string | null;
+  created_at: Date;
+}
@@ -0,0 +1,119 @@
+/**
+ * Direct-upload targets on the local backend: the HMAC-signed PUT URL and
+ * receiveUpload's checks, and that staged bytes stay out of the public root.
+ *
+ * Test framework: Node built-in `node:test` + `node:assert`. Imports the
+ * compiled module, so build first; uses temporary directories, no network.
+ *
+ * Run:
+ *   npm run build -w @eve/storage && npm test -w @eve/storage
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { createStorage } from '../../dist/backend.js';
+import { UploadRejectedError } from '../../dist/validate.js';
+
+const KEY = 'incoming/place/0b5f2c7e-9a51-4c1f-8f7e-2f4a5f0e6d11';
+const BODY = Buffer.from('staged bytes');
+
+let root;
+let storage;
+
+before(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'eve-upload-target-'));
+  storage = createStorage({
+    backend: 'local',
+    localDir: path.join(root, 'public'),
+    urlPrefix: '/uploads',
+    stagingDir: path.join(root, 'staging'),
+    uploadSecret: 'test-secret',
+  });
+});
+
+after(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+async function target(options = {}) {
+  const { url } = await storage.createUploadTarget(KEY, { contentType: 'image/png', size: BODY.length, ...options });
+  return new URL(url, 'http://admin.test');
+}
+
+async function rejection(promise) {
+  await assert.rejects(promise, (err) => err instanceof UploadRejectedError);
+  return promise.catch((err) => err);
+}
+
+describe('local upload targets', () => {
+  test('signs a PUT to the upload route for the key', async () => {
+    const url = await target();
+    assert.equal(url.pathname, `/api/admin/uploads/local/${KEY}`);
+    assert.equal(url.searchParams.get('contentType'), 'image/png');
+    assert.equal(url.searchParams.get('size'), String(BODY.length));
+    assert.match(url.searchParams.get('signature'), /^[0-9a-f]{64}$/);
+  });
+
+  test('stages a body that matches the signature, outside the public root', async () => {
+    const url = await target();
+    await storage.receiveUpload(KEY, url.searchParams, BODY, 'image/png');
+
+    assert.deepEqual(await storage.readStagedUpload(KEY), BODY);
+    await assert.rejects(readdir(path.join(root, 'public')));
+    const staged = [];
+    for await (const object of storage.listStagedUploads()) staged.push(object.key);
+    assert.deepEqual(staged, [KEY]);
+
+    await storage.deleteStagedUpload(KEY);
+    await assert.rejects(storage.readStagedUpload(KEY));
+  });
+
+  test('rejects a URL signed with another secret', async () => {
+    const other = createStorage({
+      backend: 'local',
+      localDir: path.join(root, 'public'),
+      urlPrefix: '/uploads',
+      stagingDir: path.join(root, 'staging'),
+      uploadSecret: 'another-secret',
+    });
+    const { url } = await other.createUploadTarget(KEY, { contentType: 'image/png', size: BODY.length });
+    const err = await rejection(storage.receiveUpload(KEY, new URL(url, 'http://admin.test').searchParams, BODY, 'image/png'));
+    assert.equal(err.status, 403);
+  });
+
+  test('rejects an expired URL', async () => {
+    const url = await target({ expiresIn: -1 });
+    const err = await rejection(storage.receiveUpload(KEY, url.searchParams, BODY, 'image/png'));
+    assert.equal(err.status, 403);
+    assert.match(err.message, /expired/);
+  });
+
+  test('rejects the signature for another key', async () => {
+    const url = await target();
+    const err = await rejection(
+      storage.receiveUpload('incoming/place/11111111-2222-4333-8444-555555555555', url.searchParams, BODY, 'image/png')
+    );
+    assert.equal(err.status, 403);
+  });
+
+  test('rejects tampered size or content type in the query', async () => {
+    const url = await target();
+    const bigger = new URLSearchParams(url.searchParams);
+    bigger.set('size', String(BODY.length + 1));
+    assert.equal((await rejection(storage.receiveUpload(KEY, bigger, Buffer.concat([BODY, Buffer.from('!')]), 'image/png'))).status, 403);
+
+    const html = new URLSearchParams(url.searchParams);
+    html.set('contentType', 'text/html');
+    assert.equal((await rejection(storage.receiveUpload(KEY, html, BODY, 'text/html'))).status, 403);
+  });
+
+  test('rejects a body whose size or content type differs from the signed one', async () => {
+    const url = await target();
+    assert.equal((await rejection(storage.receiveUpload(KEY, url.searchParams, Buffer.from('short'), 'image/png'))).status, 400);
+    assert.equal((await rejection(storage.receiveUpload(KEY, url.searchParams, BODY, 'text/html'))).status, 400);
+    await assert.rejects(storage.readStagedUpload(KEY));
+  });
+});
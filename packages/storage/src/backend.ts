@@ -0,0 +1,324 @@
+import { Disk } from 'flydrive';
+import { FSDriver } from 'flydrive/drivers/fs';
+import { S3Driver } from 'flydrive/drivers/s3';
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { processImage } from './image.js';
+import { UploadRejectedError } from './validate.js';
+import type {
+  ImageVariant,
+  PutObjectOptions,
+  PutObjectResult,
+  StagedObject,
+  Storage,
+  StorageConfig,
+  StoredObject,
+} from './types.js';
+
+const DEFAULT_UPLOAD_EXPIRES_IN = 300;
+
+/**
+ * Backend settings from `STORAGE_*` environment variables — or, with
+ * `envPrefix`, from `<envPrefix>STORAGE_*`, so a second backend can be
+ * configured beside the first (`TARGET_STORAGE_BACKEND=s3` …) for
+ * scripts/migrate-storage.ts.
+ */
+export function storageConfigFromEnv(env: NodeJS.ProcessEnv = process.env, envPrefix = ''): StorageConfig {
+  const read = (name: string) => env[`${envPrefix}STORAGE_${name}`];
+  const backend = read('BACKEND') ?? 'local';
+
+  if (backend === 'local') {
+    return {
+      backend,
+      localDir: path.resolve(read('LOCAL_DIR') ?? 'public/uploads'),
+      urlPrefix: (read('LOCAL_URL_PREFIX') ?? '/uploads').replace(/\/+$/, ''),
+      uploadUrl: read('LOCAL_UPLOAD_URL') || undefined,
+      uploadSecret: read('LOCAL_UPLOAD_SECRET') || undefined,
+      stagingDir: read('LOCAL_STAGING_DIR') ? path.resolve(read('LOCAL_STAGING_DIR') as string) : undefined,
+    };
+  }
+  if (backend === 's3') {
+    const bucket = read('S3_BUCKET');
+    if (!bucket) throw new Error(`${envPrefix}STORAGE_S3_BUCKET is required when ${envPrefix}STORAGE_BACKEND=s3`);
+    const region = read('S3_REGION') ?? 'us-east-1';
+    return {
+      backend,
+      bucket,
+      region,
+      prefix: (read('S3_PREFIX') ?? '').replace(/^\/+|\/+$/g, ''),
+      urlPattern: read('S3_URL_PATTERN') ?? `https://${bucket}.s3.${region}.amazonaws.com/{key}`,
+      endpoint: read('S3_ENDPOINT') || undefined,
+      stagingPrefix: read('S3_STAGING_PREFIX')?.replace(/^\/+|\/+$/g, '') || undefined,
+    };
+  }
+  throw new Error(
+    `${envPrefix}STORAGE_BACKEND must be 'local' or 's3' (got '${backend}'). Check your .env.`
+  );
+}
+
+function assertKey(key: string): void {
+  if (key.startsWith('/')) {
+    throw new Error(`Storage key must not start with '/' (got '${key}')`);
+  }
+}
+
+// Every file under `fullPrefix`, a page at a time.
+async function* listFiles(
+  disk: Disk,
+  fullPrefix: string
+): AsyncGenerator<{ fullKey: string; size: number; lastModified: Date }> {
+  let paginationToken: string | undefined;
+  do {
+    const page = await disk.listAll(fullPrefix, { recursive: true, paginationToken });
+    for (const object of page.objects) {
+      if (!object.isFile) continue;
+      let meta;
+      try {
+        meta = await object.getMetaData();
+      } catch {
+        // flydrive drops the leading dot from keys, so dotfiles such as the
+        // local backend's .gitkeep list under a key that does not exist.
+        // Nothing uploads dotfiles; skip them.
+        continue;
+      }
+      yield { fullKey: object.key, size: meta.contentLength, lastModified: meta.lastModified };
+    }
+    paginationToken = page.paginationToken;
+  } while (paginationToken);
+}
+
+export function createStorage(config: StorageConfig): Storage {
+  let disk: Disk;
+  let urlFor: (key: string) => string;
+  let keyToFullKey: (key: string) => string;
+  let fullKeyToKey: (fullKey: string) => string;
+  let description: string;
+  // Direct uploads land in a staging area that is never served: a separate
+  // directory for the local backend, a key prefix outside the public one
+  // for S3. Bytes there are unvalidated until finalized.
+  let stagingDisk: Disk;
+  let stagingFullKey: (key: string) => string;
+  let stagingKeyFromFullKey: (fullKey: string) => string;
+  let createUploadTarget: Storage['createUploadTarget'];
+  let receiveUpload: Storage['receiveUpload'];
+
+  if (config.backend === 'local') {
+    disk = new Disk(
+      new FSDriver({
+        location: config.localDir,
+        visibility: 'public',
+      })
+    );
+
+    urlFor = (key) => `${config.urlPrefix}/${key}`;
+    keyToFullKey = (key) => key;
+    fullKeyToKey = (fullKey) => fullKey;
+    description = `local:${config.localDir}`;
+
+    stagingDisk = new Disk(
+      new FSDriver({
+        location: config.stagingDir ?? path.join(tmpdir(), 'eve-upload-staging'),
+        visibility: 'private',
+      })
+    );
+    stagingFullKey = (key) => key;
+    stagingKeyFromFullKey = (fullKey) => fullKey;
+
+    // The disk has no upload URLs of its own, so a target is an app endpoint
+    // plus an HMAC over everything the PUT must match. Without a configured
+    // secret only this process can check its own signatures — enough for a
+    // single admin server.
+    const uploadUrl = (config.uploadUrl ?? '/api/admin/uploads/local').replace(/\/+$/, '');
+    const uploadSecret = config.uploadSecret ?? randomBytes(32).toString('hex');
+    const sign = (key: string, contentType: string, size: number, expires: number) =>
+      createHmac('sha256', uploadSecret).update(`${key}\n${contentType}\n${size}\n${expires}`).digest('hex');
+
+    createUploadTarget = async (key, options) => {
+      assertKey(key);
+      const { contentType, size, expiresIn = DEFAULT_UPLOAD_EXPIRES_IN } = options;
+      const expires = Math.floor(Date.now() / 1000) + expiresIn;
+      const query = new URLSearchParams({
+        contentType,
+        size: String(size),
+        expires: String(expires),
+        signature: sign(key, contentType, size, expires),
+      });
+      return {
+        url: `${uploadUrl}/${key.split('/').map(encodeURIComponent).join('/')}?${query}`,
+        method: 'PUT',
+        headers: { 'Content-Type': contentType },
+        expiresAt: new Date(expires * 1000),
+      };
+    };
+
+    receiveUpload = async (key, query, body, contentType) => {
+      assertKey(key);
+      const signedType = query.get('contentType') ?? '';
+      const size = Number(query.get('size'));
+      const expires = Number(query.get('expires'));
+      const expected = Buffer.from(sign(key, signedType, size, expires));
+      const signature = Buffer.from(query.get('signature') ?? '');
+      if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+        throw new UploadRejectedError('Invalid upload signature', 403);
+      }
+      if (expires * 1000 < Date.now()) {
+        throw new UploadRejectedError('Upload URL has expired', 403);
+      }
+      if (contentType !== signedType || body.length !== size) {
+        throw new UploadRejectedError('Upload does not match the signed content type and size', 400);
+      }
+      await stagingDisk.put(stagingFullKey(key), body, { contentType, visibility: 'private' });
+    };
+  } else {
+    const { bucket, prefix, urlPattern } = config;
+    // An endpoint points the client at an S3-compatible server (MinIO,
+    // LocalStack), which addresses buckets by path rather than subdomain.
+    const clientConfig = {
+      region: config.region,
+      ...(config.endpoint && { endpoint: config.endpoint, forcePathStyle: true }),
+    };
+    const client = new S3Client(clientConfig);
+    // By default the SDK signs a checksum of the (empty) request body into
+    // presigned URLs, which no real upload then matches.
+    const presignClient = new S3Client({ ...clientConfig, requestChecksumCalculation: 'WHEN_REQUIRED' });
+    disk = new Disk(
+      new S3Driver({
+        client,
+        bucket,
+        visibility: 'public',
+      })
+    );
+
+    urlFor = (key) => urlPattern.replace('{key}', prefix ? `${prefix}/${key}` : key);
+    keyToFullKey = (key) => (prefix ? `${prefix}/${key}` : key);
+    fullKeyToKey = (fullKey) => (prefix && fullKey.startsWith(`${prefix}/`) ? fullKey.slice(prefix.length + 1) : fullKey);
+    description = `s3:${config.endpoint ? `${config.endpoint}/` : ''}${bucket}${prefix ? `/${prefix}` : ''}`;
+
+    const stagingPrefix = config.stagingPrefix ?? 'staging';
+    stagingDisk = disk;
+    stagingFullKey = (key) => `${stagingPrefix}/${key}`;
+    stagingKeyFromFullKey = (fullKey) => fullKey.slice(stagingPrefix.length + 1);
+
+    createUploadTarget = async (key, options) => {
+      assertKey(key);
+      const { contentType, size, expiresIn = DEFAULT_UPLOAD_EXPIRES_IN } = options;
+      // Content type and length are signed, so S3 refuses any other body.
+      const command = new PutObjectCommand({
+        Bucket: bucket,
+        Key: stagingFullKey(key),
+        ContentType: contentType,
+        ContentLength: size,
+      });
+      const url = await getSignedUrl(presignClient, command, {
+        expiresIn,
+        signableHeaders: new Set(['content-type', 'content-length']),
+      });
+      return {
+        url,
+        method: 'PUT',
+        headers: { 'Content-Type': contentType },
+        expiresAt: new Date(Date.now() + expiresIn * 1000),
+      };
+    };
+
+    receiveUpload = async () => {
+      throw new Error('receiveUpload is for the local backend; S3 upload targets are PUT to S3 directly');
+    };
+  }
+
+  // urlFor split around the key, to read the key back out of a URL.
+  const [urlBefore, urlAfter] = urlFor('\u0000').split('\u0000');
+
+  return {
+    description,
+    disk,
+    urlFor,
+    createUploadTarget,
+    receiveUpload,
+
+    keyFromUrl(url) {
+      if (!url.startsWith(urlBefore) || !url.endsWith(urlAfter)) return null;
+      const key = url.slice(urlBefore.length, url.length - urlAfter.length);
+      return key && !key.startsWith('/') ? key : null;
+    },
+
+    async putObject(body: Buffer, options: PutObjectOptions): Promise<PutObjectResult> {
+      const { key, contentType } = options;
+      assertKey(key);
+
+      const image = options.process === false ? null : await processImage(body, contentType);
+      if (!image) {
+        await disk.put(keyToFullKey(key), body, { contentType, visibility: 'public' });
+        return { url: urlFor(key), key };
+      }
+
+      const stem = key.replace(/\.[^./]*$/, '');
+      const variants: ImageVariant[] = [];
+      for (const variant of image.variants) {
+        const variantKey = `${stem}${variant.suffix}.${variant.extension}`;
+        await disk.put(keyToFullKey(variantKey), variant.body, {
+          contentType: variant.contentType,
+          visibility: 'public',
+        });
+        variants.push({
+          url: urlFor(variantKey),
+          key: variantKey,
+          width: variant.width,
+          height: variant.height,
+          contentType: variant.contentType,
+        });
+      }
+      // The original goes last, so a URL handed out always has its variants.
+      await disk.put(keyToFullKey(key), image.body, { contentType, visibility: 'public' });
+
+      return {
+        url: urlFor(key),
+        key,
+        width: image.width,
+        height: image.height,
+        blurhash: image.blurhash,
+        variants,
+      };
+    },
+
+    async getObject(key) {
+      assertKey(key);
+      const file = disk.file(keyToFullKey(key));
+      const [bytes, meta] = await Promise.all([file.getBytes(), file.getMetaData()]);
+      return { body: Buffer.from(bytes), contentType: meta.contentType ?? 'application/octet-stream' };
+    },
+
+    async deleteObject(key) {
+      assertKey(key);
+      await disk.delete(keyToFullKey(key));
+    },
+
+    async *listObjects(prefix = ''): AsyncGenerator<StoredObject> {
+      for await (const { fullKey, size, lastModified } of listFiles(disk, keyToFullKey(prefix))) {
+        // With an empty S3 prefix the staging prefix is inside the listing.
+        if (config.backend === 's3' && fullKey.startsWith(stagingFullKey(''))) continue;
+        const key = fullKeyToKey(fullKey);
+        yield { key, url: urlFor(key), size, lastModified };
+      }
+    },
+
+    async readStagedUpload(key) {
+      assertKey(key);
+      return Buffer.from(await stagingDisk.getBytes(stagingFullKey(key)));
+    },
+
+    async deleteStagedUpload(key) {
+      assertKey(key);
+      await stagingDisk.delete(stagingFullKey(key));
+    },
+
+    async *listStagedUploads(): AsyncGenerator<StagedObject> {
+      for await (const { fullKey, size, lastModified } of listFiles(stagingDisk, stagingFullKey(''))) {
+        yield { key: stagingKeyFromFullKey(fullKey), size, lastModified };
+      }
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import sharp from 'sharp';
+import { encode } from 'blurhash';
+
+/**
+ * Image processing for uploads.
+ *
+ * Phone photos arrive up to 10MB, sideways (EXIF orientation) and carrying
+ * GPS coordinates. Before anything is stored, the original is auto-oriented
+ * and re-encoded without metadata, and narrower copies are cut for clients
+ * that never show it full size, each in the upload's format and as WebP.
+ * A blurhash of the image lets clients paint a placeholder before any of
+ * them load.
+ *
+ * GIFs are stored as uploaded: re-encoding would drop their animation.
+ */
+
+/** Widths of the resized copies; only those narrower than the original are made. */
+export const VARIANT_WIDTHS = [320, 640, 1280];
+
+const FORMATS: Record<string, 'jpeg' | 'png' | 'webp'> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export interface ProcessedVariant {
+  /** Appended to the original key's stem: `-640` + `.webp` → `place/abc-640.webp`. */
+  suffix: string;
+  extension: string;
+  body: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  body: Buffer;
+  width: number;
+  height: number;
+  blurhash: string;
+  variants: ProcessedVariant[];
+}
+
+export function isProcessableImage(contentType: string): boolean {
+  return contentType in FORMATS;
+}
+
+function encodeAs(image: sharp.Sharp, format: 'jpeg' | 'png' | 'webp'): sharp.Sharp {
+  if (format === 'jpeg') return image.jpeg({ quality: 85, mozjpeg: true });
+  if (format === 'png') return image.png({ compressionLevel: 9 });
+  return image.webp({ quality: 82 });
+}
+
+/**
+ * Orient, strip and resize an image upload. Returns null for content types
+ * that are stored as given; throws when the bytes are not a readable image.
+ */
+export async function processImage(body: Buffer, contentType: string): Promise<ProcessedImage | null> {
+  const format = FORMATS[contentType];
+  if (!format) return null;
+
+  // rotate() with no angle applies the EXIF orientation; sharp writes no
+  // metadata unless asked to, so EXIF (and GPS) is dropped on output.
+  const { data: oriented, info } = await encodeAs(sharp(body, { failOn: 'truncated' }).rotate(), format)
+    .toBuffer({ resolveWithObject: true });
+
+  const variants: ProcessedVariant[] = [];
+  const add = async (width: number, outFormat: 'jpeg' | 'png' | 'webp', suffix: string) => {
+    const resized = width < info.width ? sharp(oriented).resize({ width }) : sharp(oriented);
+    const { data, info: out } = await encodeAs(resized, outFormat).toBuffer({ resolveWithObject: true });
+    variants.push({
+      suffix,
+      extension: outFormat === 'jpeg' ? 'jpg' : outFormat,
+      body: data,
+      contentType: `image/${outFormat}`,
+      width: out.width,
+      height: out.height,
+    });
+  };
+
+  for (const width of VARIANT_WIDTHS.filter((w) => w < info.width)) {
+    await add(width, format, `-${width}`);
+    if (format !== 'webp') await add(width, 'webp', `-${width}`);
+  }
+  if (format !== 'webp') await add(info.width, 'webp', '');
+
+  const { data: pixels, info: small } = await sharp(oriented)
+    .resize(32, 32, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    body: oriented,
+    width: info.width,
+    height: info.height,
+    blurhash: encode(new Uint8ClampedArray(pixels), small.width, small.height, 4, 3),
+    variants,
+  };
+}
@@ -1,79 +1,57 @@
-import { Disk } from 'flydrive';
-import { FSDriver } from 'flydrive/drivers/fs';
-import { S3Driver } from 'flydrive/drivers/s3';
-import { S3Client } from '@aws-sdk/client-s3';
-import * as path from 'node:path';
-import type { PutObjectOptions, PutObjectResult } from './types.js';
-
-export type { PutObjectOptions, PutObjectResult } from './types.js';
-
-const backend = process.env.STORAGE_BACKEND ?? 'local';
-
-let disk: Disk;
-let urlFor: (key: string) => string;
-let keyToFullKey: (key: string) => string;
-
-if (backend === 'local') {
-  const localDir = path.resolve(process.env.STORAGE_LOCAL_DIR ?? 'public/uploads');
-  const urlPrefix = (process.env.STORAGE_LOCAL_URL_PREFIX ?? '/uploads').replace(/\/+$/, '');
-
-  disk = new Disk(
-    new FSDriver({
-      location: localDir,
-      visibility: 'public',
-    })
-  );
-
-  urlFor = (key) => `${urlPrefix}/${key}`;
-  keyToFullKey = (key) => key;
-} else if (backend === 's3') {
-  const bucket = process.env.STORAGE_S3_BUCKET;
-  if (!bucket) throw new Error('STORAGE_S3_BUCKET is required when STORAGE_BACKEND=s3');
-
-  const region = process.env.STORAGE_S3_REGION ?? 'us-east-1';
-  const prefix = (process.env.STORAGE_S3_PREFIX ?? '').replace(/^\/+|\/+$/g, '');
-  const urlPattern =
-    process.env.STORAGE_S3_URL_PATTERN ??
-    `https://${bucket}.s3.${region}.amazonaws.com/{key}`;
-
-  const client = new S3Client({ region });
-  disk = new Disk(
-    new S3Driver({
-      client,
-      bucket,
-      visibility: 'public',
-    })
-  );
-
-  urlFor = (key) => urlPattern.replace('{key}', prefix ? `${prefix}/${key}` : key);
-  keyToFullKey = (key) => (prefix ? `${prefix}/${key}` : key);
-} else {
-  throw new Error(
-    `STORAGE_BACKEND must be 'local' or 's3' (got '${backend}'). Check your .env.`
-  );
-}
+import { createStorage, storageConfigFromEnv } from './backend.js';
+import type { PutObjectOptions, PutObjectResult, StoredObject } from './types.js';
+
+export type {
+  ImageVariant,
+  PutObjectOptions,
+  PutObjectResult,
+  StagedObject,
+  Storage,
+  StorageConfig,
+  StoredObject,
+  UploadTarget,
+  UploadTargetOptions,
+} from './types.js';
+export { createStorage, storageConfigFromEnv } from './backend.js';
+export { VARIANT_WIDTHS, isProcessableImage } from './image.js';
+export {
+  MAX_IMAGE_PIXELS,
+  UploadRejectedError,
+  validateImageUpload,
+  type ValidatedImage,
+} from './validate.js';
+
+// The backend the app runs on, from STORAGE_* at import time; a bad config
+// fails at startup rather than on the first upload.
+const storage = createStorage(storageConfigFromEnv());
 
 /**
  * Write a buffer to storage. Returns a public URL the browser can fetch.
  *
  * `key` is the relative path under the storage root (e.g. `tag/abc.jpg`).
  * For S3, `STORAGE_S3_PREFIX` is prepended automatically.
+ *
+ * JPEG, PNG and WebP images go through processImage first: the original is
+ * stored oriented and without EXIF, its resized/WebP variants are stored
+ * beside it (`tag/abc-640.jpg`, `tag/abc-640.webp`, `tag/abc.webp`), and the
+ * result carries their URLs, the dimensions and a blurhash.
  */
-export async function putObject(
-  body: Buffer,
-  options: PutObjectOptions
-): Promise<PutObjectResult> {
-  const { key, contentType } = options;
-  if (key.startsWith('/')) {
-    throw new Error(`Storage key must not start with '/' (got '${key}')`);
-  }
+export function putObject(body: Buffer, options: PutObjectOptions): Promise<PutObjectResult> {
+  return storage.putObject(body, options);
+}
 
-  await disk.put(keyToFullKey(key), body, { contentType, visibility: 'public' });
+/** Delete the object at `key`. Deleting a missing key is not an error. */
+export function deleteObject(key: string): Promise<void> {
+  return storage.deleteObject(key);
+}
 
-  return {
-    url: urlFor(key),
-    key,
-  };
+/**
+ * Every object whose key starts with `prefix` (e.g. `place/`; default: all),
+ * fetched a page at a time.
+ */
+export function listObjects(prefix = ''): AsyncGenerator<StoredObject> {
+  return storage.listObjects(prefix);
 }
 
-export { disk };
+export const disk = storage.disk;
+export { storage };
@@ -1,10 +1,106 @@
 /** Shared types for the storage layer. */
+import type { Disk } from 'flydrive';
+
+export type StorageConfig =
+  | {
+      backend: 'local';
+      /** Absolute directory objects are written under. */
+      localDir: string;
+      /** URL path the directory is served at, without a trailing slash. */
+      urlPrefix: string;
+      /**
+       * URL of the endpoint that takes signed direct uploads (see
+       * receiveUpload); the key is appended. Default `/api/admin/uploads/local`.
+       */
+      uploadUrl?: string;
+      /** HMAC key for those URLs. Default: random per process. */
+      uploadSecret?: string;
+      /**
+       * Directory direct uploads are staged in until finalized — outside
+       * localDir, so they are never served. Default: `eve-upload-staging`
+       * in the OS temp directory.
+       */
+      stagingDir?: string;
+    }
+  | {
+      backend: 's3';
+      bucket: string;
+      region: string;
+      /** Prepended to every key, without slashes at either end; may be empty. */
+      prefix: string;
+      /** Public URL with `{key}` standing for the prefixed key. */
+      urlPattern: string;
+      /** S3-compatible server to use instead of AWS (MinIO, LocalStack). */
+      endpoint?: string;
+      /**
+       * Key prefix direct uploads are staged under until finalized; keep it
+       * outside the publicly readable prefix. Default `staging`.
+       */
+      stagingPrefix?: string;
+    };
+
+/** One configured backend; see createStorage. */
+export interface Storage {
+  /** Backend and location, for logs: `local:/srv/uploads`, `s3:bucket/public`. */
+  description: string;
+  disk: Disk;
+  urlFor(key: string): string;
+  /** The key behind a URL this backend produced, or null for any other URL. */
+  keyFromUrl(url: string): string | null;
+  putObject(body: Buffer, options: PutObjectOptions): Promise<PutObjectResult>;
+  getObject(key: string): Promise<{ body: Buffer; contentType: string }>;
+  deleteObject(key: string): Promise<void>;
+  listObjects(prefix?: string): AsyncGenerator<StoredObject>;
+  /**
+   * A short-lived URL the browser can PUT exactly these bytes to, skipping
+   * the server. The object is staged under `key`, not stored: it has no
+   * public URL until it is read back, validated and put.
+   */
+  createUploadTarget(key: string, options: UploadTargetOptions): Promise<UploadTarget>;
+  /**
+   * Stage the body of a PUT to a local upload target, after checking its
+   * signature, expiry, size and content type. Local backend only.
+   */
+  receiveUpload(key: string, query: URLSearchParams, body: Buffer, contentType: string): Promise<void>;
+  readStagedUpload(key: string): Promise<Buffer>;
+  deleteStagedUpload(key: string): Promise<void>;
+  listStagedUploads(): AsyncGenerator<StagedObject>;
+}
+
+export interface UploadTargetOptions {
+  contentType: string;
+  /** Exact size of the body in bytes; the upload is refused otherwise. */
+  size: number;
+  /** Seconds the URL stays valid (default 300). */
+  expiresIn?: number;
+}
+
+export interface UploadTarget {
+  url: string;
+  method: 'PUT';
+  /** Headers the PUT must carry, as signed. */
+  headers: Record<string, string>;
+  expiresAt: Date;
+}
 
 export interface PutObjectOptions {
   /** Key (path under the storage root) — must NOT start with a slash. */
   key: string;
   /** MIME type of the object (e.g. 'image/jpeg'). */
   contentType: string;
+  /**
+   * false stores the bytes as given, skipping image processing — for
+   * copying objects that were processed when first uploaded.
+   */
+  process?: boolean;
+}
+
+export interface ImageVariant {
+  url: string;
+  key: string;
+  width: number;
+  height: number;
+  contentType: string;
 }
 
 export interface PutObjectResult {
@@ -12,4 +108,28 @@ export interface PutObjectResult {
   url: string;
   /** The key the object was stored under. */
   key: string;
+  /** Pixel size after orientation — set for processed images only, as are the fields below. */
+  width?: number;
+  height?: number;
+  /** Blurhash placeholder (4×3 components). */
+  blurhash?: string;
+  /** Resized and WebP copies, stored next to the original. */
+  variants?: ImageVariant[];
+}
+
+/** A direct upload waiting in the staging area. */
+export interface StagedObject {
+  key: string;
+  /** Bytes. */
+  size: number;
+  lastModified: Date;
+}
+
+export interface StoredObject {
+  /** Key under the storage root, as passed to putObject. */
+  key: string;
+  url: string;
+  /** Bytes. */
+  size: number;
+  lastModified: Date;
 }
@@ -0,0 +1,102 @@
+import sharp from 'sharp';
+
+/**
+ * Upload validation shared by the admin upload endpoints.
+ *
+ * The client's declared MIME type and file name are not trusted: the format
+ * is read from the file's magic bytes, the file is decoded to prove it is
+ * the image it claims to be, and the stored content type and extension come
+ * from that format. SVG is not accepted at all (it is script-capable markup),
+ * and neither is a GIF that also carries markup a browser could be talked
+ * into rendering: a GIF is stored byte for byte, so a GIF/HTML polyglot
+ * would be served as uploaded. JPEG, PNG and WebP are not scanned — their
+ * compressed data can spell out `<body` by chance, and processImage
+ * re-encodes them, so no uploaded byte is served.
+ */
+
+/** Largest image accepted, in pixels (width × height) — a 48 MP phone photo fits. */
+export const MAX_IMAGE_PIXELS = 50_000_000;
+
+/** An upload that must be refused; `status` is the HTTP status to answer with. */
+export class UploadRejectedError extends Error {
+  status: number;
+
+  constructor(message: string, status = 415) {
+    super(message);
+    this.name = 'UploadRejectedError';
+    this.status = status;
+  }
+}
+
+export interface ValidatedImage {
+  contentType: 'image/jpeg' | 'image/png' | 'image/webp' | 'image/gif';
+  /** Extension for the storage key, without the dot. */
+  extension: string;
+  width: number;
+  height: number;
+}
+
+const FORMATS = {
+  jpeg: { contentType: 'image/jpeg', extension: 'jpg' },
+  png: { contentType: 'image/png', extension: 'png' },
+  webp: { contentType: 'image/webp', extension: 'webp' },
+  gif: { contentType: 'image/gif', extension: 'gif' },
+} as const;
+
+type Format = keyof typeof FORMATS;
+
+function sniffFormat(body: Buffer): Format | null {
+  if (body.length >= 3 && body[0] === 0xff && body[1] === 0xd8 && body[2] === 0xff) return 'jpeg';
+  if (body.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (body.subarray(0, 4).toString('latin1') === 'RIFF' && body.subarray(8, 12).toString('latin1') === 'WEBP') return 'webp';
+  const gif = body.subarray(0, 6).toString('latin1');
+  if (gif === 'GIF87a' || gif === 'GIF89a') return 'gif';
+  return null;
+}
+
+// Markup that makes a file renderable as a page or script if it is ever
+// served or sniffed as something other than an image.
+const MARKUP_RE = /<(?:\?php|!doctype|html|head|body|script|svg|iframe|object|embed)\b/i;
+
+/**
+ * Confirm `body` is a JPEG, PNG, WebP or GIF image within MAX_IMAGE_PIXELS
+ * and return its real format and size. Throws UploadRejectedError otherwise.
+ */
+export async function validateImageUpload(body: Buffer): Promise<ValidatedImage> {
+  const format = sniffFormat(body);
+  if (!format) {
+    throw new UploadRejectedError('Unsupported file type: upload a JPEG, PNG, WebP or GIF image');
+  }
+  if (format === 'gif' && MARKUP_RE.test(body.toString('latin1'))) {
+    throw new UploadRejectedError('File contains markup and is not a plain image');
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(body, { limitInputPixels: false }).metadata();
+  } catch {
+    throw new UploadRejectedError('File is not a readable image', 400);
+  }
+  if (metadata.format !== format || !metadata.width || !metadata.height) {
+    throw new UploadRejectedError('File is not a readable image', 400);
+  }
+  // pageHeight is the frame height of an animated image; height spans all frames.
+  const width = metadata.width;
+  const height = metadata.pageHeight ?? metadata.height;
+  if (width * metadata.height > MAX_IMAGE_PIXELS) {
+    throw new UploadRejectedError(`Image too large (max ${MAX_IMAGE_PIXELS / 1_000_000} megapixels)`, 413);
+  }
+
+  // The header can be valid on a truncated or corrupt file; decoding the
+  // whole image is the only proof. Shrunk, so it stays cheap.
+  try {
+    await sharp(body, { failOn: 'truncated', animated: format === 'gif' || format === 'webp' })
+      .resize(64, 64, { fit: 'inside' })
+      .raw()
+      .toBuffer();
+  } catch {
+    throw new UploadRejectedError('File is not a readable image', 400);
+  }
+
+  return { ...FORMATS[format], width, height };
+}
@@ -0,0 +1,97 @@
+import { readFileSync } from 'node:fs';
+import type { EnrichmentProvider, PlaceDetails, PlaceLocation, PlaceMatch } from './provider.js';
+import { specialDayOverrides } from './specialDays.js';
+
+/**
+ * One fixture place, in Google Places API (New) field names. Text Search
+ * matches when the query starts with `displayName` (case- and
+ * whitespace-insensitively), followed by the end of the query or a comma;
+ * the rest of the query is not consulted.
+ */
+export interface FixturePlace {
+  id: string;
+  displayName: string;
+  formattedAddress?: string;
+  regularOpeningHours?: unknown;
+  currentOpeningHours?: unknown;
+  priceLevel?: string | null;
+  businessStatus?: string | null;
+  location?: { latitude: number; longitude: number };
+  /** Simulate a Place Details failure: the id resolves but details/location do not. */
+  unavailable?: boolean;
+}
+
+export interface EnrichmentFixtures {
+  places: FixturePlace[];
+}
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Offline provider backed by in-memory fixtures. Never touches the network. */
+export function createFixtureProvider(fixtures: EnrichmentFixtures): EnrichmentProvider {
+  // Longest name first, so "Veselka Bowery" wins over "Veselka".
+  const byName = fixtures.places
+    .map((p) => ({ name: normalizeName(p.displayName), place: p }))
+    .sort((a, b) => b.name.length - a.name.length);
+  const byId = new Map(fixtures.places.map((p) => [p.id, p]));
+
+  function available(placeId: string): FixturePlace | null {
+    const place = byId.get(placeId);
+    return place && !place.unavailable ? place : null;
+  }
+
+  return {
+    name: 'fixture',
+    delayMs: 0,
+
+    async resolvePlace(query: string, placeName: string): Promise<PlaceMatch | null> {
+      const normalized = normalizeName(query);
+      const hit = byName.find(
+        ({ name }) => normalized === name || normalized.startsWith(`${name},`)
+      );
+      if (!hit) {
+        console.error(`  Fixture: no match for "${placeName}"`);
+        return null;
+      }
+      return {
+        id: hit.place.id,
+        displayName: hit.place.displayName,
+        formattedAddress: hit.place.formattedAddress ?? null,
+      };
+    },
+
+    async fetchDetails(placeId: string, placeName: string): Promise<PlaceDetails | null> {
+      const place = available(placeId);
+      if (!place) {
+        console.error(`  Fixture: no details for "${placeName}" (${placeId})`);
+        return null;
+      }
+      return {
+        regularOpeningHours: place.regularOpeningHours ?? null,
+        specialDays: specialDayOverrides(place.currentOpeningHours),
+        priceLevel: place.priceLevel ?? null,
+        businessStatus: place.businessStatus ?? null,
+      };
+    },
+
+    async fetchLocation(placeId: string, placeName: string): Promise<PlaceLocation | null> {
+      const place = available(placeId);
+      if (!place?.location) {
+        console.error(`  Fixture: no location for "${placeName}" (${placeId})`);
+        return null;
+      }
+      return { lat: place.location.latitude, lng: place.location.longitude };
+    },
+  };
+}
+
+/** Fixture provider from a JSON file shaped like EnrichmentFixtures. */
+export function loadFixtureProvider(path: string): EnrichmentProvider {
+  const fixtures = JSON.parse(readFileSync(path, 'utf8')) as EnrichmentFixtures;
+  if (!Array.isArray(fixtures?.places)) {
+    throw new Error(`Fixture file ${path} has no "places" array`);
+  }
+  return createFixtureProvider(fixtures);
+}
@@ -0,0 +1,133 @@
+import type { EnrichmentProvider, PlaceDetails, PlaceLocation, PlaceMatch } from './provider.js';
+import { specialDayOverrides } from './specialDays.js';
+
+const PLACES_API = 'https://places.googleapis.com/v1';
+
+// Bias Text Search towards the East Village.
+const LOCATION_BIAS = {
+  circle: {
+    center: { latitude: 40.7264, longitude: -73.9818 },
+    radius: 1000.0,
+  },
+};
+
+/**
+ * GET/POST against the Places API with a 10s timeout. Returns the parsed
+ * body, or null after logging a non-2xx status, timeout or network error.
+ */
+async function placesRequest<T>(
+  apiKey: string,
+  label: string,
+  url: string,
+  fieldMask: string,
+  body?: unknown
+): Promise<T | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 10_000);
+
+  try {
+    const response = await fetch(url, {
+      method: body === undefined ? 'GET' : 'POST',
+      signal: controller.signal,
+      headers: {
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+        'X-Goog-Api-Key': apiKey,
+        'X-Goog-FieldMask': fieldMask,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      console.error(`  ${label} HTTP ${response.status}`);
+      return null;
+    }
+
+    return (await response.json()) as T;
+  } catch (err: unknown) {
+    if (err instanceof Error && err.name === 'AbortError') {
+      console.error(`  ${label} timeout`);
+    } else {
+      console.error(`  ${label} error:`, err);
+    }
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/** Google Places API (New). */
+export function createGoogleProvider(apiKey: string): EnrichmentProvider {
+  return {
+    name: 'google',
+    delayMs: 100,
+
+    async resolvePlace(query: string, placeName: string): Promise<PlaceMatch | null> {
+      const data = await placesRequest<{
+        places?: Array<{ id: string; displayName?: { text?: string }; formattedAddress?: string }>;
+      }>(
+        apiKey,
+        `Text Search for "${placeName}"`,
+        `${PLACES_API}/places:searchText`,
+        'places.id,places.displayName,places.formattedAddress',
+        {
+          textQuery: query,
+          locationBias: LOCATION_BIAS,
+        }
+      );
+      if (!data) return null;
+
+      if (!data.places || data.places.length === 0) {
+        console.error(`  Text Search: no results for "${query}"`);
+        return null;
+      }
+
+      const top = data.places[0];
+      return {
+        id: top.id,
+        displayName: top.displayName?.text ?? null,
+        formattedAddress: top.formattedAddress ?? null,
+      };
+    },
+
+    async fetchDetails(placeId: string, placeName: string): Promise<PlaceDetails | null> {
+      const data = await placesRequest<{
+        regularOpeningHours?: unknown;
+        currentOpeningHours?: unknown;
+        priceLevel?: string;
+        businessStatus?: string;
+      }>(
+        apiKey,
+        `Place Details for "${placeName}" (${placeId})`,
+        `${PLACES_API}/${placeId}`,
+        'regularOpeningHours,currentOpeningHours,priceLevel,businessStatus'
+      );
+      if (!data) return null;
+
+      return {
+        regularOpeningHours: data.regularOpeningHours ?? null,
+        specialDays: specialDayOverrides(data.currentOpeningHours),
+        priceLevel: data.priceLevel ?? null,
+        businessStatus: data.businessStatus ?? null,
+      };
+    },
+
+    async fetchLocation(placeId: string, placeName: string): Promise<PlaceLocation | null> {
+      const data = await placesRequest<{ location?: { latitude?: number; longitude?: number } }>(
+        apiKey,
+        `Place Details for "${placeName}" (${placeId})`,
+        `${PLACES_API}/${placeId}`,
+        'location'
+      );
+      if (!data) return null;
+
+      const lat = data.location?.latitude;
+      const lng = data.location?.longitude;
+      if (typeof lat !== 'number' || typeof lng !== 'number') {
+        console.error(`  Place Details: no location for "${placeName}"`);
+        return null;
+      }
+
+      return { lat, lng };
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import type { HoursOverride } from '@eve/shared-types';
+
+/**
+ * Source of place data for scripts/enrich-places.ts.
+ *
+ * Shapes follow the Google Places API (New) responses the script stores, so
+ * hours land in `places.hours_json` unchanged whichever provider produced
+ * them. Every method returns null on failure (after logging) rather than
+ * throwing; the runner records the failure and moves on to the next place.
+ */
+
+export interface PlaceDetails {
+  /** Google `regularOpeningHours`, stored in `hours_json`. */
+  regularOpeningHours: unknown;
+  /** Special days from Google `currentOpeningHours`, stored as `hours_json.overrides`. */
+  specialDays: HoursOverride[];
+  /** Google `priceLevel` enum string, e.g. 'PRICE_LEVEL_MODERATE'. */
+  priceLevel: string | null;
+  /** Google `businessStatus` enum string, e.g. 'CLOSED_TEMPORARILY'. */
+  businessStatus: string | null;
+}
+
+/** A Text Search hit, with what Google calls it so an admin can check the match. */
+export interface PlaceMatch {
+  /** Place id like "places/ChIJ...". */
+  id: string;
+  displayName: string | null;
+  formattedAddress: string | null;
+}
+
+export interface PlaceLocation {
+  lat: number;
+  lng: number;
+}
+
+export interface EnrichmentProvider {
+  /** Shown in the run log. */
+  readonly name: string;
+  /** Pause after each call, to stay under remote rate limits. */
+  readonly delayMs: number;
+
+  /** Run Text Search for `query` and return the top hit. */
+  resolvePlace(query: string, placeName: string): Promise<PlaceMatch | null>;
+  fetchDetails(placeId: string, placeName: string): Promise<PlaceDetails | null>;
+  fetchLocation(placeId: string, placeName: string): Promise<PlaceLocation | null>;
+}
@@ -0,0 +1,403 @@
+import type { Pool } from 'pg';
+import type { PlaceStatus } from '@eve/shared-types';
+import type { EnrichmentProvider, PlaceDetails, PlaceMatch } from './provider.js';
+import { hoursJsonWithSpecialDays } from './specialDays.js';
+
+/**
+ * The enrichment modes of scripts/enrich-places.ts, independent of where the
+ * data comes from (provider) and which database it goes to (db), so they can
+ * run against a fixture provider and a throwaway database in tests.
+ */
+
+export interface EnrichmentContext {
+  db: Pool;
+  provider: EnrichmentProvider;
+}
+
+export interface EnrichmentSummary {
+  processed: number;
+  ok: number;
+  failed: number;
+  skipped: number;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface BackfillPlace {
+  id: string;
+  name: string;
+  address: string | null;
+  enrichment_query: string | null;
+}
+
+interface RefreshPlace {
+  id: string;
+  name: string;
+  google_place_id: string;
+}
+
+interface GeocodePlace {
+  id: string;
+  name: string;
+  google_place_id: string;
+}
+
+// ---------------------------------------------------------------------------
+// Google Places price level mapping
+// ---------------------------------------------------------------------------
+
+const PRICE_LEVEL_MAP: Record<string, number> = {
+  PRICE_LEVEL_FREE: 0,
+  PRICE_LEVEL_INEXPENSIVE: 1,
+  PRICE_LEVEL_MODERATE: 2,
+  PRICE_LEVEL_EXPENSIVE: 3,
+  PRICE_LEVEL_VERY_EXPENSIVE: 4,
+};
+
+// ---------------------------------------------------------------------------
+// Google Places business status mapping
+// ---------------------------------------------------------------------------
+
+const BUSINESS_STATUS_MAP: Record<string, PlaceStatus> = {
+  OPERATIONAL: 'open',
+  CLOSED_TEMPORARILY: 'temporarily_closed',
+  CLOSED_PERMANENTLY: 'permanently_closed',
+};
+
+// ---------------------------------------------------------------------------
+// Utilities
+// ---------------------------------------------------------------------------
+
+function sleep(ms: number): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ---------------------------------------------------------------------------
+// Database helpers
+// ---------------------------------------------------------------------------
+
+function toNumericPrice(priceLevel: string | null): number | null {
+  return priceLevel !== null ? (PRICE_LEVEL_MAP[priceLevel] ?? null) : null;
+}
+
+/** The `hours_json` value for fetched details, special days included, as a JSON string. */
+function hoursJsonFor(details: PlaceDetails): string | null {
+  const hoursJson = hoursJsonWithSpecialDays(details.regularOpeningHours, details.specialDays);
+  return hoursJson ? JSON.stringify(hoursJson) : null;
+}
+
+/**
+ * Text Search query for a place: the admin's re-match text when there is one,
+ * otherwise name + address in the East Village.
+ */
+function searchQueryFor(place: BackfillPlace): string {
+  return place.enrichment_query ?? `${place.name.trim()}, ${place.address}, East Village, New York, NY`;
+}
+
+/**
+ * Stage a match for review in the admin enrichment queue instead of writing
+ * it onto the place. Any older pending proposal for the place is superseded.
+ */
+async function stageProposal(
+  db: Pool,
+  placeId: string,
+  searchQuery: string,
+  match: PlaceMatch,
+  details: PlaceDetails
+): Promise<void> {
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE enrichment_proposals
+       SET status = 'superseded', reviewed_at = NOW()
+       WHERE place_id = $1 AND status = 'pending'`,
+      [placeId]
+    );
+    await client.query(
+      `INSERT INTO enrichment_proposals
+         (place_id, search_query, google_place_id, matched_name, matched_address,
+          hours_json, google_price_level)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        placeId,
+        searchQuery,
+        match.id,
+        match.displayName,
+        match.formattedAddress,
+        hoursJsonFor(details),
+        toNumericPrice(details.priceLevel),
+      ]
+    );
+    await client.query(
+      `UPDATE places SET enrichment_status = 'pending_review' WHERE id = $1`,
+      [placeId]
+    );
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Store refreshed details. A change in Google's business status that
+ * disagrees with the place's status is proposed for an admin to apply, never
+ * applied here; an unchanged one leaves the proposal (or its dismissal)
+ * alone, and one that agrees with the status clears it.
+ *
+ * New hours or price bump updated_at and version, as writeLocation does, so
+ * they reach /api/places/changes clients. That takes its own statement: the
+ * change_xid trigger fires whenever updated_at is SET, changed or not.
+ */
+async function refreshEnriched(db: Pool, id: string, details: PlaceDetails): Promise<void> {
+  const businessStatus = details.businessStatus !== null && details.businessStatus in BUSINESS_STATUS_MAP
+    ? details.businessStatus
+    : null;
+  const hoursJson = hoursJsonFor(details);
+  const priceLevel = toNumericPrice(details.priceLevel);
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE places
+       SET updated_at = NOW(),
+           version = version + 1
+       WHERE id = $3
+         AND (hours_json IS DISTINCT FROM $1::jsonb OR google_price_level IS DISTINCT FROM $2)`,
+      [hoursJson, priceLevel, id]
+    );
+    await client.query(
+      `UPDATE places
+       SET hours_json = $1,
+           google_price_level = $2,
+           enrichment_status = 'ok',
+           enriched_at = NOW(),
+           proposed_status = CASE
+             WHEN $5::text IS NULL THEN proposed_status
+             WHEN status = $5::text THEN NULL
+             WHEN google_business_status IS DISTINCT FROM $4::text THEN $5::text
+             ELSE proposed_status
+           END,
+           google_business_status = COALESCE($4::text, google_business_status)
+       WHERE id = $3`,
+      [
+        hoursJson,
+        priceLevel,
+        id,
+        businessStatus,
+        businessStatus !== null ? BUSINESS_STATUS_MAP[businessStatus] : null,
+      ]
+    );
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Write geocoded coordinates. The location_source guard is repeated here (not
+ * just in the SELECT) so an admin edit made while the run is in flight still
+ * wins. Returns false when the row was skipped for that reason.
+ *
+ * updated_at is bumped so the change reaches /api/places/changes clients, and
+ * version so an admin editing the place meanwhile gets a conflict instead of
+ * saving the old coordinates back over these.
+ */
+async function writeLocation(db: Pool, id: string, lat: number, lng: number): Promise<boolean> {
+  const result = await db.query(
+    `UPDATE places
+     SET lat = $1,
+         lng = $2,
+         location_source = 'google',
+         updated_at = NOW(),
+         version = version + 1
+     WHERE id = $3
+       AND location_source IS DISTINCT FROM 'manual'
+       AND (lat IS DISTINCT FROM $1 OR lng IS DISTINCT FROM $2 OR location_source IS NULL)`,
+    [lat, lng, id]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+async function markFailed(db: Pool, id: string): Promise<void> {
+  await db.query(
+    `UPDATE places SET enrichment_status = 'failed' WHERE id = $1`,
+    [id]
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Modes
+// ---------------------------------------------------------------------------
+
+/**
+ * Runs Text Search, then fetches hours + price for places that have an
+ * address (or an admin re-match query) but no google_place_id yet, and stages
+ * each result as a proposal for admin review. Places already awaiting review
+ * or whose match an admin rejected are left alone.
+ */
+export async function runBackfill({ db, provider }: EnrichmentContext): Promise<EnrichmentSummary> {
+  const result = await db.query<BackfillPlace>(
+    `SELECT id, name, address, enrichment_query
+     FROM places
+     WHERE google_place_id IS NULL
+       AND deleted_at IS NULL
+       AND (address IS NOT NULL OR enrichment_query IS NOT NULL)
+       AND COALESCE(enrichment_status, '') NOT IN ('pending_review', 'rejected')`
+  );
+
+  const places = result.rows;
+  console.log(`Backfill: found ${places.length} place(s) to enrich`);
+
+  let ok = 0;
+  let failed = 0;
+  const skipped = 0;
+
+  for (const place of places) {
+    console.log(`Processing: "${place.name}"`);
+    const searchQuery = searchQueryFor(place);
+
+    // Step 1: Match the place via Text Search
+    const match = await provider.resolvePlace(searchQuery, place.name);
+    await sleep(provider.delayMs);
+
+    if (!match) {
+      console.error(`  Failed to resolve place_id for "${place.name}"`);
+      await markFailed(db, place.id);
+      failed++;
+      continue;
+    }
+
+    // Step 2: Fetch details using the matched place_id
+    const details = await provider.fetchDetails(match.id, place.name);
+    await sleep(provider.delayMs);
+
+    if (!details) {
+      console.error(`  Failed to fetch details for "${place.name}"`);
+      await markFailed(db, place.id);
+      failed++;
+      continue;
+    }
+
+    // Step 3: Stage for review
+    try {
+      await stageProposal(db, place.id, searchQuery, match, details);
+      console.log(`  Staged: ${match.id} ("${match.displayName ?? '?'}")`);
+      ok++;
+    } catch (err) {
+      console.error(`  DB write failed for "${place.name}":`, err);
+      await markFailed(db, place.id);
+      failed++;
+    }
+  }
+
+  return { processed: places.length, ok, failed, skipped };
+}
+
+/**
+ * Re-fetches hours + price for places with a google_place_id that are stale
+ * (>7 days). Google's special days only cover the coming week, so each
+ * refresh replaces the ones stored in hours_json.overrides.
+ */
+export async function runRefresh({ db, provider }: EnrichmentContext): Promise<EnrichmentSummary> {
+  const result = await db.query<RefreshPlace>(
+    `SELECT id, name, google_place_id
+     FROM places
+     WHERE google_place_id IS NOT NULL
+       AND deleted_at IS NULL
+       AND (enriched_at IS NULL OR enriched_at < NOW() - INTERVAL '7 days')`
+  );
+
+  const places = result.rows;
+  console.log(`Refresh: found ${places.length} stale place(s) to re-enrich`);
+
+  let ok = 0;
+  let failed = 0;
+  const skipped = 0;
+
+  for (const place of places) {
+    console.log(`Refreshing: "${place.name}" (${place.google_place_id})`);
+
+    const details = await provider.fetchDetails(place.google_place_id, place.name);
+    await sleep(provider.delayMs);
+
+    if (!details) {
+      console.error(`  Failed to fetch details for "${place.name}"`);
+      await markFailed(db, place.id);
+      failed++;
+      continue;
+    }
+
+    try {
+      await refreshEnriched(db, place.id, details);
+      console.log(`  OK`);
+      ok++;
+    } catch (err) {
+      console.error(`  DB write failed for "${place.name}":`, err);
+      await markFailed(db, place.id);
+      failed++;
+    }
+  }
+
+  return { processed: places.length, ok, failed, skipped };
+}
+
+/**
+ * Fetches location for every place with a google_place_id and writes lat/lng
+ * with location_source = 'google'. Coordinates an admin set manually are
+ * never overwritten.
+ */
+export async function runGeocode({ db, provider }: EnrichmentContext): Promise<EnrichmentSummary> {
+  const result = await db.query<GeocodePlace>(
+    `SELECT id, name, google_place_id
+     FROM places
+     WHERE google_place_id IS NOT NULL
+       AND deleted_at IS NULL
+       AND location_source IS DISTINCT FROM 'manual'`
+  );
+
+  const places = result.rows;
+  console.log(`Geocode: found ${places.length} place(s) to locate`);
+
+  let ok = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  for (const place of places) {
+    console.log(`Locating: "${place.name}" (${place.google_place_id})`);
+
+    const location = await provider.fetchLocation(place.google_place_id, place.name);
+    await sleep(provider.delayMs);
+
+    // A failed lookup leaves enrichment_status alone — that tracks hours/price.
+    if (!location) {
+      console.error(`  Failed to fetch location for "${place.name}"`);
+      failed++;
+      continue;
+    }
+
+    try {
+      if (await writeLocation(db, place.id, location.lat, location.lng)) {
+        console.log(`  OK: ${location.lat}, ${location.lng}`);
+        ok++;
+      } else {
+        console.log(`  Skipped: unchanged or set manually`);
+        skipped++;
+      }
+    } catch (err) {
+      console.error(`  DB write failed for "${place.name}":`, err);
+      failed++;
+    }
+  }
+
+  return { processed: places.length, ok, failed, skipped };
+}
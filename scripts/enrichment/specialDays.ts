@@ -0,0 +1,67 @@
+import type { HoursOverride } from '@eve/shared-types';
+
+interface GoogleDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface GooglePoint {
+  hour?: number;
+  minute?: number;
+  date?: GoogleDate;
+}
+
+/** The parts of Google `currentOpeningHours` that describe special days. */
+interface CurrentOpeningHours {
+  periods?: Array<{ open?: GooglePoint; close?: GooglePoint }>;
+  specialDays?: Array<{ date?: GoogleDate }>;
+}
+
+function isoDate(date: GoogleDate): string {
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
+
+function clock(point: GooglePoint): string {
+  return `${String(point.hour ?? 0).padStart(2, '0')}:${String(point.minute ?? 0).padStart(2, '0')}`;
+}
+
+/**
+ * Hours overrides for the special days (holidays, one-off closures) in a
+ * Google `currentOpeningHours`, which covers the next seven days. A special
+ * day with no period opening on it is closed; otherwise its first period
+ * becomes the override. A period with no close runs the whole day.
+ */
+export function specialDayOverrides(currentOpeningHours: unknown): HoursOverride[] {
+  const current = currentOpeningHours as CurrentOpeningHours | null;
+  if (!current || !Array.isArray(current.specialDays)) return [];
+
+  const overrides: HoursOverride[] = [];
+  for (const special of current.specialDays) {
+    if (!special.date) continue;
+    const date = isoDate(special.date);
+    const period = (current.periods ?? []).find((p) => p.open?.date && isoDate(p.open.date) === date);
+    overrides.push(
+      period?.open
+        ? {
+            date,
+            closed: false,
+            open_time: clock(period.open),
+            close_time: period.close ? clock(period.close) : clock(period.open),
+            note: null,
+          }
+        : { date, closed: true, open_time: null, close_time: null, note: null }
+    );
+  }
+  return overrides;
+}
+
+/**
+ * What enrichment stores in `hours_json`: the weekly `regularOpeningHours`
+ * with any special-day overrides attached.
+ */
+export function hoursJsonWithSpecialDays(regularOpeningHours: unknown, overrides: HoursOverride[]): unknown {
+  if (overrides.length === 0) return regularOpeningHours;
+  const regular = (regularOpeningHours ?? {}) as Record<string, unknown>;
+  return { periods: [], weekdayDescriptions: [], ...regular, overrides };
+}
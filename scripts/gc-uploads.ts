@@ -0,0 +1,109 @@
+/**
+ * Orphaned upload garbage collection
+ *
+ *   npx tsx scripts/gc-uploads.ts [--dry-run]
+ *   Deletes stored uploads that no place's photo_url (live, trashed or in a
+ *   pending draft) references and that are older than the grace period,
+ *   together with their resized/WebP variants and their uploads row. With
+ *   --dry-run it only reports what it would delete. Also clears direct
+ *   uploads left in the staging area for over a day (never finalized).
+ *   Meant to run daily (cron), after trash:purge.
+ *
+ * Environment variables:
+ *   DATABASE_URL          — PostgreSQL connection string (required)
+ *   STORAGE_*             — the storage backend, as for the server
+ *   UPLOAD_GC_GRACE_DAYS  — days an unreferenced upload is kept (default 7)
+ */
+
+import { UploadModel, pool } from '@eve/db';
+import { deleteObject, listObjects, storage, type StagedObject, type StoredObject } from '@eve/storage';
+import { planUploadGc, staleStagedUploads, uploadGcGraceDays, type OrphanGroup } from './uploads/gc.js';
+
+if (!process.env.DATABASE_URL) {
+  console.error('Error: DATABASE_URL environment variable is required');
+  process.exit(1);
+}
+
+const dryRun = process.argv.includes('--dry-run');
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describe(group: OrphanGroup): string {
+  const extra = group.objects.length > 1 ? ` (+${group.objects.length - 1} variant(s))` : '';
+  const missing = group.objects.length === 0 ? ' (row only; objects already gone)' : '';
+  const place = group.upload?.place_id ? `, last used by place ${group.upload.place_id}` : '';
+  const untracked = group.upload ? '' : ', untracked';
+  return `${group.key}${extra}${missing}  ${formatBytes(group.size)}  uploaded ${group.uploadedAt.toISOString().slice(0, 10)}${place}${untracked}`;
+}
+
+async function main(): Promise<void> {
+  const graceDays = uploadGcGraceDays();
+
+  // Read references last: an upload saved to a place while the bucket is
+  // being listed is then still seen as referenced.
+  const objects: StoredObject[] = [];
+  for await (const object of listObjects()) objects.push(object);
+  const uploads = await UploadModel.findAll();
+  const referencedUrls = await UploadModel.referencedUrls();
+
+  const plan = planUploadGc(objects, uploads, referencedUrls, { now: new Date(), graceDays });
+
+  let deleted = 0;
+  let freed = 0;
+  for (const group of plan.orphans) {
+    if (dryRun) {
+      console.log(`would delete ${describe(group)}`);
+      continue;
+    }
+    try {
+      for (const object of group.objects) await deleteObject(object.key);
+      // The row goes last, so a failed object delete is retried next run.
+      if (group.upload) await UploadModel.delete(group.upload.key);
+      console.log(`deleted ${describe(group)}`);
+      deleted++;
+      freed += group.size;
+    } catch (err) {
+      console.error(`Failed to delete ${group.key}:`, err);
+    }
+  }
+
+  const staged: StagedObject[] = [];
+  for await (const object of storage.listStagedUploads()) staged.push(object);
+  const stale = staleStagedUploads(staged, new Date());
+  for (const object of stale) {
+    if (dryRun) {
+      console.log(`would delete staged upload ${object.key}  ${formatBytes(object.size)}`);
+      continue;
+    }
+    try {
+      await storage.deleteStagedUpload(object.key);
+      console.log(`deleted staged upload ${object.key}  ${formatBytes(object.size)}`);
+    } catch (err) {
+      console.error(`Failed to delete staged upload ${object.key}:`, err);
+    }
+  }
+
+  const orphanBytes = plan.orphans.reduce((sum, group) => sum + group.size, 0);
+  console.log(
+    `${plan.referenced} upload(s) in use, ${plan.recent} unreferenced but newer than ${graceDays} day(s), ` +
+      `${plan.orphans.length} orphaned (${formatBytes(orphanBytes)}), ${stale.length} abandoned staged upload(s)`
+  );
+  console.log(
+    dryRun
+      ? 'Dry run: nothing deleted'
+      : `Deleted ${deleted} of ${plan.orphans.length} orphaned upload(s), freeing ${formatBytes(freed)}`
+  );
+}
+
+main()
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  })
+  .finally(() => {
+    pool.end();
+  });
@@ -1,5 +1,6 @@
 import { readFileSync } from 'fs';
 import pg from 'pg';
+import { slugify, uniqueSlug } from '@eve/db';
 
 const { Pool } = pg;
 
@@ -49,10 +50,11 @@ async function importData() {
 
     // Import places
     for (const place of placesData) {
-      // Insert or update place
+      // Insert or update place. A re-import keeps the slug the place already has.
+      const slug = await uniqueSlug(pool, slugify(place.name || ''), place.key);
       const result = await pool.query(
-        `INSERT INTO places (id, name, address, phone, url, specials, categories, notes)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `INSERT INTO places (id, name, address, phone, url, specials, categories, notes, slug, published_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
          ON CONFLICT (id) DO UPDATE SET
            name = $2, address = $3, phone = $4, url = $5,
            specials = $6, categories = $7, notes = $8
@@ -65,7 +67,8 @@ async function importData() {
           place.url || '',
           place.specials || '',
           place.categories || '',
-          place.notes || ''
+          place.notes || '',
+          slug
         ]
       );
 
@@ -12,6 +12,7 @@
 
 import { Redis } from 'ioredis';
 import { Pool } from 'pg';
+import { slugify, uniqueSlug } from '@eve/db';
 
 interface RedisPlace {
   key: string;
@@ -108,9 +109,10 @@ async function migrate() {
       // Insert places
       console.log('\nInserting places...');
       for (const place of places) {
+        const slug = await uniqueSlug(client, slugify(place.name), null);
         const result = await client.query(
-          `INSERT INTO places (name, address, phone, url, specials, categories, notes, created_at, updated_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          `INSERT INTO places (name, address, phone, url, specials, categories, notes, created_at, updated_at, published_at, slug)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $8, $10)
            RETURNING id`,
           [
             place.name,
@@ -121,7 +123,8 @@ async function migrate() {
             place.categories || null,
             place.notes || null,
             place.created_at ? new Date(place.created_at) : new Date(),
-            place.updated_at ? new Date(place.updated_at) : new Date()
+            place.updated_at ? new Date(place.updated_at) : new Date(),
+            slug
           ]
         );
 
@@ -0,0 +1,79 @@
+/**
+ * Storage backend migration
+ *
+ *   npx tsx scripts/migrate-storage.ts [--dry-run]
+ *   Copies every object a place references — photo_url of live, trashed and
+ *   draft places, plus each upload's resized/WebP variants — from the
+ *   backend configured by STORAGE_* to the one configured by
+ *   TARGET_STORAGE_*, reads each copy back to compare SHA-256 checksums, and
+ *   then rewrites the URLs in places and uploads in one transaction. Nothing
+ *   in the database changes unless every copy verified. Source objects are
+ *   left in place; switch STORAGE_* to the target and redeploy, then remove
+ *   the old location when satisfied. Safe to re-run: URLs already moved are
+ *   no longer on the source and are skipped.
+ *
+ *   Locally, with two filesystem roots:
+ *     TARGET_STORAGE_BACKEND=local TARGET_STORAGE_LOCAL_DIR=/tmp/uploads-next \
+ *       TARGET_STORAGE_LOCAL_URL_PREFIX=/uploads-next npx tsx scripts/migrate-storage.ts
+ *
+ *   Or against an S3-compatible stand-in such as MinIO:
+ *     TARGET_STORAGE_BACKEND=s3 TARGET_STORAGE_S3_ENDPOINT=http://localhost:9000 \
+ *       TARGET_STORAGE_S3_BUCKET=eve TARGET_STORAGE_S3_URL_PATTERN=http://localhost:9000/eve/{key} \
+ *       AWS_ACCESS_KEY_ID=minioadmin AWS_SECRET_ACCESS_KEY=minioadmin npx tsx scripts/migrate-storage.ts
+ *
+ * Environment variables:
+ *   DATABASE_URL        — PostgreSQL connection string (required)
+ *   STORAGE_*           — the source backend, as for the server
+ *   TARGET_STORAGE_*    — the target backend, same variables with a TARGET_ prefix
+ */
+
+import { UploadModel, pool } from '@eve/db';
+import { createStorage, storage as source, storageConfigFromEnv } from '@eve/storage';
+import { copyObjects, planStorageMove } from './uploads/migrate.js';
+
+if (!process.env.DATABASE_URL) {
+  console.error('Error: DATABASE_URL environment variable is required');
+  process.exit(1);
+}
+
+if (!process.env.TARGET_STORAGE_BACKEND) {
+  console.error('Error: TARGET_STORAGE_BACKEND environment variable is required');
+  process.exit(1);
+}
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function main(): Promise<void> {
+  const target = createStorage(storageConfigFromEnv(process.env, 'TARGET_'));
+  if (target.description === source.description) {
+    throw new Error(`Source and target are the same backend (${source.description})`);
+  }
+
+  const move = planStorageMove(source, target, await UploadModel.referencedUrls(), await UploadModel.findAll());
+  console.log(`Moving ${move.keys.length} object(s) from ${source.description} to ${target.description}`);
+  for (const url of move.skipped) console.log(`skipped ${url} (not on ${source.description})`);
+
+  if (dryRun) {
+    for (const [from, to] of move.urls) console.log(`would copy ${from} -> ${to}`);
+    console.log('Dry run: nothing copied or rewritten');
+    return;
+  }
+
+  const bytes = await copyObjects(source, target, move.keys, (key, size) => {
+    console.log(`copied ${key} (${size} bytes, checksum ok)`);
+  });
+  const rewritten = await UploadModel.rewriteUrls(move.urls);
+  console.log(
+    `Copied ${move.keys.length} object(s), ${bytes} bytes; rewrote ${rewritten.places} place(s) ` +
+      `and ${rewritten.uploads} upload row(s). Now set STORAGE_* to the target backend.`
+  );
+}
+
+main()
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  })
+  .finally(() => {
+    pool.end();
+  });
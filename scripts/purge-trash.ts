@@ -0,0 +1,34 @@
+/**
+ * Trash purge
+ *
+ *   npx tsx scripts/purge-trash.ts
+ *   Hard-deletes places that have been in the trash longer than the retention
+ *   period, along with their tag assignments. The server already does this
+ *   hourly (src/scheduler.ts); this is for a purge on demand.
+ *
+ * Environment variables:
+ *   DATABASE_URL                — PostgreSQL connection string (required)
+ *   PLACE_TRASH_RETENTION_DAYS  — days to keep trashed places (default 30)
+ */
+
+import { PlaceModel, pool, trashRetentionDays } from '@eve/db';
+
+if (!process.env.DATABASE_URL) {
+  console.error('Error: DATABASE_URL environment variable is required');
+  process.exit(1);
+}
+
+async function main(): Promise<void> {
+  const days = trashRetentionDays();
+  const purged = await PlaceModel.purgeExpired(days);
+  console.log(`Purged ${purged} place(s) trashed more than ${days} day(s) ago`);
+}
+
+main()
+  .catch((err) => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  })
+  .finally(() => {
+    pool.end();
+  });
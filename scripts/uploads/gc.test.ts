@@ -0,0 +1,113 @@
+/**
+ * planUploadGc — which stored objects the upload GC deletes.
+ *
+ * Test framework: Node built-in `node:test` + `node:assert`, loaded through
+ * tsx. Pure: no database or storage backend needed.
+ *
+ * Run:
+ *   npm run test:uploads
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Upload } from '@eve/shared-types';
+import type { StoredObject } from '@eve/storage';
+import { planUploadGc, staleStagedUploads } from './gc.js';
+
+const now = new Date('2026-10-19T12:00:00Z');
+const old = new Date('2026-09-01T12:00:00Z');
+const fresh = new Date('2026-10-18T12:00:00Z');
+
+function object(key: string, lastModified = old, size = 100): StoredObject {
+  return { key, url: `/uploads/${key}`, size, lastModified };
+}
+
+function upload(key: string, variantKeys: string[], createdAt = old): Upload {
+  return {
+    key,
+    url: `/uploads/${key}`,
+    content_type: 'image/jpeg',
+    width: 1000,
+    height: 800,
+    blurhash: 'L5JgEV}FfQ}F',
+    variants: variantKeys.map((variantKey) => ({
+      key: variantKey,
+      url: `/uploads/${variantKey}`,
+      width: 320,
+      height: 256,
+      content_type: 'image/webp',
+    })),
+    place_id: null,
+    created_at: createdAt,
+  };
+}
+
+const options = { now, graceDays: 7 };
+
+describe('planUploadGc', () => {
+  it('deletes an unreferenced upload with all of its variants', () => {
+    const plan = planUploadGc(
+      [object('place/a.jpg'), object('place/a-320.webp'), object('place/a.webp')],
+      [upload('place/a.jpg', ['place/a-320.webp', 'place/a.webp'])],
+      [],
+      options
+    );
+    assert.equal(plan.orphans.length, 1);
+    assert.equal(plan.orphans[0].key, 'place/a.jpg');
+    assert.deepEqual(plan.orphans[0].objects.map((o) => o.key).sort(), ['place/a-320.webp', 'place/a.jpg', 'place/a.webp']);
+    assert.equal(plan.orphans[0].size, 300);
+  });
+
+  it('keeps an upload a place references, variants included', () => {
+    const plan = planUploadGc(
+      [object('place/a.jpg'), object('place/a-320.webp')],
+      [upload('place/a.jpg', ['place/a-320.webp'])],
+      ['/uploads/place/a.jpg'],
+      options
+    );
+    assert.equal(plan.orphans.length, 0);
+    assert.equal(plan.referenced, 1);
+  });
+
+  it('matches references by key when the URL prefix has changed', () => {
+    const plan = planUploadGc(
+      [object('place/a.jpg')],
+      [],
+      ['https://bucket.s3.us-east-1.amazonaws.com/public/place/a.jpg'],
+      options
+    );
+    assert.equal(plan.orphans.length, 0);
+  });
+
+  it('keeps unreferenced uploads inside the grace period', () => {
+    const plan = planUploadGc(
+      [object('place/new.jpg', fresh), object('place/old.png')],
+      [upload('place/new.jpg', [], fresh)],
+      [],
+      options
+    );
+    assert.deepEqual(plan.orphans.map((g) => g.key), ['place/old.png']);
+    assert.equal(plan.recent, 1);
+  });
+
+  it('treats untracked objects as their own uploads', () => {
+    const plan = planUploadGc([object('tag/legacy.gif')], [], [], options);
+    assert.equal(plan.orphans.length, 1);
+    assert.equal(plan.orphans[0].upload, null);
+  });
+
+  it('plans to delete a row whose objects are already gone', () => {
+    const plan = planUploadGc([], [upload('place/gone.jpg', ['place/gone.webp'])], [], options);
+    assert.equal(plan.orphans.length, 1);
+    assert.deepEqual(plan.orphans[0].objects, []);
+  });
+});
+
+describe('staleStagedUploads', () => {
+  it('picks staged uploads older than a day', () => {
+    const staged = [
+      { key: 'incoming/place/old', size: 100, lastModified: new Date('2026-10-18T11:00:00Z') },
+      { key: 'incoming/place/new', size: 100, lastModified: new Date('2026-10-19T11:00:00Z') },
+    ];
+    assert.deepEqual(staleStagedUploads(staged, now).map((o) => o.key), ['incoming/place/old']);
+  });
+});
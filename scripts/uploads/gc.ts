@@ -0,0 +1,113 @@
+import type { Upload } from '@eve/shared-types';
+import type { StagedObject, StoredObject } from '@eve/storage';
+
+/**
+ * Which stored objects the upload GC deletes.
+ *
+ * Objects are grouped by the upload they belong to: a tracked upload (a row
+ * in `uploads`) owns its original and every variant key, so a photo goes
+ * with all of its copies. Objects with no row — uploaded before uploads
+ * were tracked — are each their own group.
+ *
+ * A group is kept when a place references its original, or when it is
+ * younger than the grace period (an admin may have uploaded a photo and not
+ * saved the place yet). References are matched on the key at the end of the
+ * URL's path rather than on the whole URL, so a photo stays referenced when
+ * STORAGE_S3_URL_PATTERN or the local URL prefix has changed since it was
+ * saved.
+ */
+
+const DEFAULT_GRACE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function uploadGcGraceDays(): number {
+  const days = parseInt(process.env.UPLOAD_GC_GRACE_DAYS ?? '', 10);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_GRACE_DAYS;
+}
+
+export interface OrphanGroup {
+  /** Key of the original (for an untracked object, the object itself). */
+  key: string;
+  /** The tracked upload, whose row is deleted with its objects. */
+  upload: Upload | null;
+  /** Objects present in storage; can be empty when only the row is left. */
+  objects: StoredObject[];
+  /** Bytes across `objects`. */
+  size: number;
+  uploadedAt: Date;
+}
+
+export interface UploadGcPlan {
+  orphans: OrphanGroup[];
+  /** Groups kept because a place references them. */
+  referenced: number;
+  /** Unreferenced groups kept because they are inside the grace period. */
+  recent: number;
+}
+
+// Every trailing run of path segments of each URL: "/uploads/place/a.jpg"
+// gives "a.jpg", "place/a.jpg" and "uploads/place/a.jpg".
+function referencedKeys(urls: string[]): Set<string> {
+  const keys = new Set<string>();
+  for (const url of urls) {
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(url, 'http://localhost').pathname);
+    } catch {
+      continue;
+    }
+    const segments = pathname.split('/').filter(Boolean);
+    for (let i = 0; i < segments.length; i++) {
+      keys.add(segments.slice(i).join('/'));
+    }
+  }
+  return keys;
+}
+
+export function planUploadGc(
+  objects: StoredObject[],
+  uploads: Upload[],
+  referencedUrls: string[],
+  options: { now: Date; graceDays: number }
+): UploadGcPlan {
+  const groups = new Map<string, OrphanGroup>();
+  const ownerKey = new Map<string, string>();
+  for (const upload of uploads) {
+    groups.set(upload.key, {
+      key: upload.key,
+      upload,
+      objects: [],
+      size: 0,
+      uploadedAt: new Date(upload.created_at),
+    });
+    ownerKey.set(upload.key, upload.key);
+    for (const variant of upload.variants) ownerKey.set(variant.key, upload.key);
+  }
+  for (const object of objects) {
+    const key = ownerKey.get(object.key) ?? object.key;
+    const group = groups.get(key) ?? { key, upload: null, objects: [], size: 0, uploadedAt: object.lastModified };
+    group.objects.push(object);
+    group.size += object.size;
+    groups.set(key, group);
+  }
+
+  const references = referencedKeys(referencedUrls);
+  const cutoff = options.now.getTime() - options.graceDays * DAY_MS;
+  const plan: UploadGcPlan = { orphans: [], referenced: 0, recent: 0 };
+  for (const group of groups.values()) {
+    if (references.has(group.key)) plan.referenced++;
+    else if (group.uploadedAt.getTime() > cutoff) plan.recent++;
+    else plan.orphans.push(group);
+  }
+  plan.orphans.sort((a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime());
+  return plan;
+}
+
+/**
+ * Direct uploads still in the staging area a day after they were made. Their
+ * upload target expired minutes after it was issued, so the admin who made
+ * them is not coming back to finalize them.
+ */
+export function staleStagedUploads(staged: StagedObject[], now: Date): StagedObject[] {
+  return staged.filter((object) => object.lastModified.getTime() <= now.getTime() - DAY_MS);
+}
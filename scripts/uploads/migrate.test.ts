@@ -0,0 +1,104 @@
+/**
+ * planStorageMove / copyObjects — moving uploads between storage backends.
+ *
+ * Test framework: Node built-in `node:test` + `node:assert`, loaded through
+ * tsx. Uses two local backends in temporary directories; no database needed.
+ *
+ * Run:
+ *   npm run test:uploads
+ */
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { Upload } from '@eve/shared-types';
+import { createStorage, type Storage } from '@eve/storage';
+import { copyObjects, planStorageMove } from './migrate.js';
+
+let root: string;
+let source: Storage;
+let target: Storage;
+
+before(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'eve-migrate-'));
+  source = createStorage({ backend: 'local', localDir: path.join(root, 'a'), urlPrefix: '/uploads' });
+  target = createStorage({ backend: 'local', localDir: path.join(root, 'b'), urlPrefix: '/uploads-b' });
+});
+
+after(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+function upload(key: string, variantKeys: string[]): Upload {
+  return {
+    key,
+    url: `/uploads/${key}`,
+    content_type: 'image/jpeg',
+    width: 1000,
+    height: 800,
+    blurhash: null,
+    variants: variantKeys.map((variantKey) => ({
+      key: variantKey,
+      url: `/uploads/${variantKey}`,
+      width: 320,
+      height: 256,
+      content_type: 'image/webp',
+    })),
+    place_id: null,
+    created_at: new Date('2026-09-01T12:00:00Z'),
+  };
+}
+
+describe('planStorageMove', () => {
+  it('includes variants of referenced uploads and maps every URL', () => {
+    const move = planStorageMove(
+      source,
+      target,
+      ['/uploads/place/a.jpg'],
+      [upload('place/a.jpg', ['place/a-320.webp']), upload('place/orphan.jpg', [])]
+    );
+    assert.deepEqual(move.keys, ['place/a.jpg', 'place/a-320.webp']);
+    assert.deepEqual([...move.urls], [
+      ['/uploads/place/a.jpg', '/uploads-b/place/a.jpg'],
+      ['/uploads/place/a-320.webp', '/uploads-b/place/a-320.webp'],
+    ]);
+    assert.deepEqual(move.skipped, []);
+  });
+
+  it('skips URLs that are not on the source backend', () => {
+    const move = planStorageMove(
+      source,
+      target,
+      ['https://example.com/photo.jpg', '/uploads-b/place/moved.jpg'],
+      []
+    );
+    assert.deepEqual(move.keys, []);
+    assert.deepEqual(move.skipped, ['https://example.com/photo.jpg', '/uploads-b/place/moved.jpg']);
+  });
+});
+
+describe('copyObjects', () => {
+  it('copies objects byte for byte', async () => {
+    const body = Buffer.from('not really a jpeg');
+    await source.putObject(body, { key: 'place/a.jpg', contentType: 'image/jpeg', process: false });
+
+    const bytes = await copyObjects(source, target, ['place/a.jpg']);
+    assert.equal(bytes, body.length);
+    assert.deepEqual(await readFile(path.join(root, 'b', 'place/a.jpg')), body);
+    assert.equal((await target.getObject('place/a.jpg')).contentType, 'image/jpeg');
+  });
+
+  it('fails when a copy reads back different', async () => {
+    await source.putObject(Buffer.from('original'), { key: 'place/b.jpg', contentType: 'image/jpeg', process: false });
+    const corrupting: Storage = {
+      ...target,
+      getObject: async (key) => ({ ...(await target.getObject(key)), body: Buffer.from('corrupted') }),
+    };
+    await assert.rejects(copyObjects(source, corrupting, ['place/b.jpg']), /Checksum mismatch for place\/b\.jpg/);
+  });
+
+  it('fails when a referenced object is missing from the source', async () => {
+    await assert.rejects(copyObjects(source, target, ['place/missing.jpg']));
+  });
+});
@@ -0,0 +1,74 @@
+import { createHash } from 'node:crypto';
+import type { Upload } from '@eve/shared-types';
+import type { Storage } from '@eve/storage';
+
+/**
+ * Moving referenced uploads from one storage backend to another.
+ *
+ * Keys are backend-relative (`place/<uuid>.jpg`), so an object keeps its key
+ * and only its URL changes. Objects are copied byte for byte — they were
+ * processed when first uploaded — and every copy is read back and compared
+ * by SHA-256 before any URL in the database is rewritten.
+ */
+
+export interface StorageMove {
+  /** Source keys to copy: each referenced original and its variants. */
+  keys: string[];
+  /** Old URL → new URL, for UploadModel.rewriteUrls. */
+  urls: Map<string, string>;
+  /** Referenced URLs that are not on the source backend (external links, already moved). */
+  skipped: string[];
+}
+
+export function planStorageMove(
+  source: Storage,
+  target: Storage,
+  referencedUrls: string[],
+  uploads: Upload[]
+): StorageMove {
+  const byKey = new Map(uploads.map((upload) => [upload.key, upload]));
+  const keys = new Set<string>();
+  const skipped: string[] = [];
+  for (const url of referencedUrls) {
+    const key = source.keyFromUrl(url);
+    if (!key) {
+      skipped.push(url);
+      continue;
+    }
+    keys.add(key);
+    for (const variant of byKey.get(key)?.variants ?? []) keys.add(variant.key);
+  }
+
+  const urls = new Map<string, string>();
+  for (const key of keys) urls.set(source.urlFor(key), target.urlFor(key));
+  return { keys: [...keys], urls, skipped };
+}
+
+function sha256(body: Buffer): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+/**
+ * Copy `keys` from `source` to `target` and verify each copy. Throws on the
+ * first object that is missing from the source or reads back different.
+ * Returns the bytes copied.
+ */
+export async function copyObjects(
+  source: Storage,
+  target: Storage,
+  keys: string[],
+  onCopied: (key: string, bytes: number) => void = () => {}
+): Promise<number> {
+  let total = 0;
+  for (const key of keys) {
+    const { body, contentType } = await source.getObject(key);
+    await target.putObject(body, { key, contentType, process: false });
+    const copy = await target.getObject(key);
+    if (sha256(copy.body) !== sha256(body)) {
+      throw new Error(`Checksum mismatch for ${key} after copying to ${target.description}`);
+    }
+    total += body.length;
+    onCopied(key, body.length);
+  }
+  return total;
+}
@@ -1,23 +1,12 @@
 import multer from 'multer';
 
 const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // 10 MB
-const ALLOWED_MIME = new Set([
-  'image/jpeg',
-  'image/png',
-  'image/webp',
-  'image/gif',
-]);
 
+// No MIME filter here: the declared type is the client's claim. The route
+// checks the bytes with validateImageUpload from @eve/storage.
 export const uploadSingle = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
-  fileFilter: (_req, file, cb) => {
-    if (!ALLOWED_MIME.has(file.mimetype)) {
-      cb(new Error(`Unsupported MIME type: ${file.mimetype}`));
-      return;
-    }
-    cb(null, true);
-  },
 }).single('file');
 
-export { MAX_UPLOAD_BYTES, ALLOWED_MIME };
+export { MAX_UPLOAD_BYTES };
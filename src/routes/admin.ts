@@ -1,10 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { randomUUID } from 'node:crypto';
-import { PlaceModel, TagModel, UserModel } from '@eve/db';
+import { PlaceModel, TagModel, TagParentError, UploadModel, UserModel, type RevisionContext } from '@eve/db';
 import { requireAuth } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/asyncHandler.js';
 import { uploadSingle } from '../middleware/upload.js';
-import { putObject } from '@eve/storage';
+import { putObject, UploadRejectedError, validateImageUpload, type ValidatedImage } from '@eve/storage';
 
 const router = Router();
 
@@ -14,6 +14,11 @@ function getParamId(param: string | string[] | undefined): string {
   return param || '';
 }
 
+// Attributes model writes to the signed-in admin in the revision history.
+function revisionContext(req: Request): RevisionContext {
+  return { actorId: req.session?.userId ?? null };
+}
+
 function queryParamIsOn(value: unknown): boolean {
   return value === 'on' || (Array.isArray(value) && value.some((item) => item === 'on'));
 }
@@ -154,7 +159,7 @@ router.post('/places', asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
-  await PlaceModel.create({
+  const place = await PlaceModel.create({
     name: name.trim(),
     address: address?.trim(),
     phone: phone?.trim(),
@@ -173,7 +178,9 @@ router.post('/places', asyncHandler(async (req: Request, res: Response) => {
     cross_street: cross_street?.trim() || undefined,
     photo_url: photo_url?.trim() || undefined,
     photo_credit: photo_credit?.trim() || undefined,
-  });
+  }, revisionContext(req));
+  // This admin has no draft workflow: places go live as they are saved.
+  await PlaceModel.publish(place.id, undefined, revisionContext(req));
 
   res.redirect('/admin/places');
 }));
@@ -242,7 +249,7 @@ router.post('/places/:id', asyncHandler(async (req: Request, res: Response) => {
     cross_street: cross_street?.trim() || undefined,
     photo_url: photo_url?.trim() || undefined,
     photo_credit: photo_credit?.trim() || undefined,
-  });
+  }, revisionContext(req));
 
   if (!updated) {
     return res.status(404).send('Place not found');
@@ -253,7 +260,7 @@ router.post('/places/:id', asyncHandler(async (req: Request, res: Response) => {
 
 // Delete place
 router.post('/places/:id/delete', asyncHandler(async (req: Request, res: Response) => {
-  await PlaceModel.delete(getParamId(req.params.id));
+  await PlaceModel.delete(getParamId(req.params.id), revisionContext(req));
   res.redirect('/admin/places');
 }));
 
@@ -275,6 +282,7 @@ router.get('/tags', asyncHandler(async (req: Request, res: Response) => {
 router.get('/tags/new', asyncHandler(async (req: Request, res: Response) => {
   res.render('admin/tags/form', {
     tag: null,
+    potentialParents: await TagModel.getPotentialParents(),
     user: req.user,
     errors: []
   });
@@ -284,6 +292,7 @@ router.get('/tags/new', asyncHandler(async (req: Request, res: Response) => {
 router.post('/tags', asyncHandler(async (req: Request, res: Response) => {
   const { value, display } = req.body;
   const normalizedValue = String(value ?? '').trim();
+  const parentTagId = String(req.body.parent_tag_id ?? '').trim() || null;
 
   const errors: string[] = [];
   if (!display || display.trim() === '') {
@@ -305,6 +314,7 @@ router.post('/tags', asyncHandler(async (req: Request, res: Response) => {
   if (errors.length > 0) {
     return res.render('admin/tags/form', {
       tag: req.body,
+      potentialParents: await TagModel.getPotentialParents(),
       user: req.user,
       errors
     });
@@ -315,12 +325,14 @@ router.post('/tags', asyncHandler(async (req: Request, res: Response) => {
       value: normalizedValue,
       display: display.trim(),
       sort_order: 0,
-    });
+      parent_tag_id: parentTagId,
+    }, revisionContext(req));
     res.redirect('/admin/tags');
   } catch (err) {
-    if (err instanceof Error && err.message.startsWith('Nesting limited')) {
+    if (err instanceof TagParentError) {
       return res.status(400).render('admin/tags/form', {
         tag: req.body,
+        potentialParents: await TagModel.getPotentialParents(),
         user: req.user,
         errors: [err.message],
       });
@@ -339,6 +351,7 @@ router.get('/tags/:id/edit', asyncHandler(async (req: Request, res: Response) =>
 
   res.render('admin/tags/form', {
     tag,
+    potentialParents: await TagModel.getPotentialParents(tag.id),
     user: req.user,
     errors: []
   });
@@ -349,6 +362,7 @@ router.post('/tags/:id', asyncHandler(async (req: Request, res: Response) => {
   const { value, display } = req.body;
   const tagId = getParamId(req.params.id);
   const normalizedValue = String(value ?? '').trim();
+  const parentTagId = String(req.body.parent_tag_id ?? '').trim() || null;
 
   const errors: string[] = [];
   if (!display || display.trim() === '') {
@@ -370,6 +384,7 @@ router.post('/tags/:id', asyncHandler(async (req: Request, res: Response) => {
   if (errors.length > 0) {
     return res.render('admin/tags/form', {
       tag: { id: tagId, ...req.body },
+      potentialParents: await TagModel.getPotentialParents(tagId),
       user: req.user,
       errors
     });
@@ -380,11 +395,13 @@ router.post('/tags/:id', asyncHandler(async (req: Request, res: Response) => {
     updated = await TagModel.update(tagId, {
       value: normalizedValue,
       display: display.trim(),
-    });
+      parent_tag_id: parentTagId,
+    }, revisionContext(req));
   } catch (err) {
-    if (err instanceof Error && err.message.startsWith('Nesting limited')) {
+    if (err instanceof TagParentError) {
       return res.status(400).render('admin/tags/form', {
         tag: { id: tagId, ...req.body },
+        potentialParents: await TagModel.getPotentialParents(tagId),
         user: req.user,
         errors: [err.message],
       });
@@ -418,7 +435,7 @@ router.get('/tags/:id/delete', asyncHandler(async (req: Request, res: Response)
 
 // Delete tag (confirmed)
 router.post('/tags/:id/delete', asyncHandler(async (req: Request, res: Response) => {
-  await TagModel.delete(getParamId(req.params.id));
+  await TagModel.delete(getParamId(req.params.id), revisionContext(req));
   res.redirect('/admin/tags');
 }));
 
@@ -426,12 +443,21 @@ router.post('/tags/:id/delete', asyncHandler(async (req: Request, res: Response)
 // CSRF-protected via the token round-tripped through the EJS template
 // (`<%= csrfToken %>`) and sent as `x-csrf-token` header by the fetch caller.
 router.patch('/api/tags/:id', asyncHandler(async (req: Request, res: Response) => {
-  const { value, display, sort_order } = req.body;
-  const tag = await TagModel.update(getParamId(req.params.id), {
-    ...(value !== undefined && { value }),
-    ...(display !== undefined && { display }),
-    ...(sort_order !== undefined && { sort_order: parseInt(sort_order, 10) || 0 }),
-  });
+  const { value, display, sort_order, parent_tag_id } = req.body;
+  let tag;
+  try {
+    tag = await TagModel.update(getParamId(req.params.id), {
+      ...(value !== undefined && { value }),
+      ...(display !== undefined && { display }),
+      ...(sort_order !== undefined && { sort_order: parseInt(sort_order, 10) || 0 }),
+      ...(parent_tag_id !== undefined && { parent_tag_id: parent_tag_id || null }),
+    }, revisionContext(req));
+  } catch (err) {
+    if (err instanceof TagParentError) {
+      return res.status(400).json({ error: err.message });
+    }
+    throw err;
+  }
   if (!tag) {
     return res.status(404).json({ error: 'Tag not found' });
   }
@@ -451,15 +477,20 @@ router.patch('/api/tags/:id', asyncHandler(async (req: Request, res: Response) =
  * (e.g. 'tag', 'place'). Defaults to 'misc'. Stored filename is randomized;
  * client never controls the stored name.
  *
- * Response: 200 JSON { url, key }.
+ * The file's declared type and name are ignored: validateImageUpload reads
+ * the format from its bytes (415 for anything but a real JPEG, PNG, WebP or
+ * GIF, 400 when it does not decode, 413 past the pixel cap) and the stored
+ * extension and content type come from that.
+ *
+ * Images are oriented, stripped of EXIF and resized by putObject; what it
+ * produced is recorded in the uploads table for the place API.
+ *
+ * Response: 200 JSON { url, key, width?, height?, blurhash?, variants? }.
  */
 router.post('/uploads', requireAuth, (req, res) => {
   uploadSingle(req, res, async (err) => {
     if (err) {
-      const status =
-        err.message?.startsWith('Unsupported MIME type') ? 415 :
-        (err as { code?: string }).code === 'LIMIT_FILE_SIZE' ? 413 :
-        400;
+      const status = (err as { code?: string }).code === 'LIMIT_FILE_SIZE' ? 413 : 400;
       return res.status(status).json({ error: err.message ?? 'Upload failed' });
     }
 
@@ -468,20 +499,25 @@ router.post('/uploads', requireAuth, (req, res) => {
       return res.status(400).json({ error: 'No file uploaded under field "file"' });
     }
 
+    let image: ValidatedImage;
+    try {
+      image = await validateImageUpload(file.buffer);
+    } catch (validationErr: unknown) {
+      const status = validationErr instanceof UploadRejectedError ? validationErr.status : 400;
+      return res.status(status).json({ error: (validationErr as Error).message });
+    }
+
     const prefixRaw = typeof req.body.prefix === 'string' ? req.body.prefix : 'misc';
     const prefix = prefixRaw.replace(/[^a-z0-9_-]/gi, '').toLowerCase().slice(0, 16) || 'misc';
 
-    const ext = file.originalname.includes('.')
-      ? file.originalname.split('.').pop()!.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 8)
-      : (file.mimetype.split('/')[1] ?? 'bin');
-
-    const key = `${prefix}/${randomUUID()}.${ext}`;
+    const key = `${prefix}/${randomUUID()}.${image.extension}`;
 
     try {
       const result = await putObject(file.buffer, {
         key,
-        contentType: file.mimetype,
+        contentType: image.contentType,
       });
+      await UploadModel.record({ ...result, contentType: image.contentType });
       return res.json(result);
     } catch (writeErr: unknown) {
       console.error('upload: storage write failed', writeErr);
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
-import { PlaceModel, TagModel, NeighborhoodModel } from '@eve/db';
-import type { PlacesListResponse, PlaceDetailResponse, TagsFlatResponse, TagsStructuredResponse, TagSummary, NeighborhoodSummary } from '@eve/shared-types';
+import { createHash } from 'node:crypto';
+import { PlaceModel, TagModel, NeighborhoodModel, CatalogModel, EventModel } from '@eve/db';
+import { isOpenNow, withHoursOverrides } from '@eve/hours';
+import type { Place, PlaceResponse, PlacesListResponse, PlaceChangesResponse, PlaceDetailResponse, EventsListResponse, TagsFlatResponse, TagsStructuredResponse, TagSummary, NeighborhoodSummary } from '@eve/shared-types';
 
 const router = Router();
 
@@ -9,7 +11,102 @@ const router = Router();
  * These endpoints are consumed by the public website
  */
 
-// GET /api/places - List all places, optionally filtered by tag
+/**
+ * Send a JSON body with conditional-GET validators.
+ *
+ * The ETag is a strong validator — a hash of the exact serialised body — so
+ * it also catches changes `Last-Modified` cannot see (e.g. a deleted row).
+ * `Last-Modified` comes from CatalogModel.lastModified(). Express's
+ * `req.fresh` answers 304 only when every validator the client sent holds:
+ * If-None-Match is checked first and a mismatch means 200 at once; when it
+ * matches, If-Modified-Since, if sent too, must also be at or after
+ * Last-Modified. A request with `Cache-Control: no-cache` always gets 200.
+ */
+function sendWithValidators(req: Request, res: Response, body: unknown, lastModified: Date | null) {
+  const json = JSON.stringify(body);
+  res.set('ETag', `"${createHash('sha1').update(json).digest('base64url')}"`);
+  if (lastModified) {
+    res.set('Last-Modified', lastModified.toUTCString());
+  }
+  // Allow caching but require revalidation on every use.
+  res.set('Cache-Control', 'no-cache');
+
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+  return res.type('json').send(json);
+}
+
+/**
+ * Project a place row to the list shape shared by GET /api/places and
+ * GET /api/places/changes. Field names match the Rails API response format.
+ */
+function toPlaceListItem(place: Place): PlaceResponse {
+  return {
+    key: place.id,
+    slug: place.slug,
+    name: place.name,
+    address: place.address,
+    phone: place.phone,
+    url: place.url,
+    specials: place.specials,
+    specials_schedule: place.specials_schedule ?? [],
+    categories: place.categories,
+    notes: place.notes,
+    tags: place.tags,
+    status: place.status ?? 'open',
+    reopens_on: place.reopens_on ?? null,
+    lat: place.lat,
+    lng: place.lng,
+    created_at: place.created_at instanceof Date ? place.created_at.toISOString() : String(place.created_at),
+    updated_at: place.updated_at instanceof Date ? place.updated_at.toISOString() : String(place.updated_at),
+    pitch: place.pitch ?? null,
+    crowd_level: place.crowd_level ?? null,
+    price_tier: place.price_tier ?? null,
+    photo_url: place.photo_url ?? null,
+    photo: place.photo ?? null,
+    hours_json: withHoursOverrides(place.hours_json ?? null, place.hours_overrides),
+    cross_street: place.cross_street ?? null,
+    neighborhood_id: place.neighborhood_id,
+    ...(place.distance_m !== undefined ? { distance_m: Math.round(place.distance_m) } : {}),
+  };
+}
+
+// ISO 8601 date-time with an explicit zone, for `open_at` and the events
+// window. A zone-less time would be read in the server's local zone, which is
+// never what callers mean.
+const TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/;
+
+// Upper bound for radius_m — well past the whole service area.
+const MAX_RADIUS_M = 50_000;
+
+/**
+ * Parse `near=lat,lng` and `radius_m`. Returns undefined when `near` is
+ * absent, or an error message for a 400.
+ */
+function parseNear(query: Request['query']): { lat: number; lng: number; radiusM?: number } | undefined | string {
+  const nearRaw = typeof query.near === 'string' && query.near !== '' ? query.near : undefined;
+  const radiusRaw = typeof query.radius_m === 'string' && query.radius_m !== '' ? query.radius_m : undefined;
+  if (nearRaw === undefined) {
+    return radiusRaw === undefined ? undefined : 'radius_m requires near';
+  }
+
+  const parts = nearRaw.split(',');
+  const [lat, lng] = parts.map((part) => (part.trim() === '' ? NaN : Number(part)));
+  if (parts.length !== 2 || !Number.isFinite(lat) || !Number.isFinite(lng)
+    || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return 'Invalid near coordinates';
+  }
+
+  if (radiusRaw === undefined) return { lat, lng };
+  const radiusM = Number(radiusRaw);
+  if (!Number.isFinite(radiusM) || radiusM <= 0 || radiusM > MAX_RADIUS_M) {
+    return 'Invalid radius_m';
+  }
+  return { lat, lng, radiusM };
+}
+
+// GET /api/places - List all places, optionally filtered by tag, opening hours and distance
 router.get('/places', async (req: Request, res: Response) => {
   const tag = typeof req.query.tag === 'string' ? req.query.tag : undefined;
   const limitRaw = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : NaN;
@@ -17,57 +114,114 @@ router.get('/places', async (req: Request, res: Response) => {
   const limit = Number.isFinite(limitRaw) ? limitRaw : undefined;
   const offset = Number.isFinite(offsetRaw) ? offsetRaw : undefined;
 
+  // Only `open_now=1` opts in, matching `structured=1` on /api/tags.
+  const openNow = req.query.open_now === '1';
+  const openAtRaw = typeof req.query.open_at === 'string' && req.query.open_at !== '' ? req.query.open_at : undefined;
+  if (openNow && openAtRaw !== undefined) {
+    return res.status(400).json({ error: 'Use either open_now or open_at, not both' });
+  }
+  if (openAtRaw !== undefined && (!TIMESTAMP_RE.test(openAtRaw) || Number.isNaN(Date.parse(openAtRaw)))) {
+    return res.status(400).json({ error: 'Invalid open_at timestamp' });
+  }
+  const openAt = openNow ? new Date() : openAtRaw !== undefined ? new Date(openAtRaw) : undefined;
+
+  const near = parseNear(req.query);
+  if (typeof near === 'string') {
+    return res.status(400).json({ error: near });
+  }
+
   try {
-    const places = await PlaceModel.findAll({ tag, limit, offset });
+    // Hours are evaluated in JS, so an hours filter reads the whole (tag-filtered)
+    // list and paginates after filtering rather than in SQL. Closed places
+    // keep their hours but are never open.
+    const [places, lastModified] = await Promise.all([
+      openAt
+        ? PlaceModel.findAll({ publishedOnly: true, status: 'open', tag, near })
+        : PlaceModel.findAll({ publishedOnly: true, tag, near, limit, offset }),
+      CatalogModel.lastModified(),
+    ]);
 
-    // Transform to match the Rails API response format
-    const response: PlacesListResponse = places.map(place => ({
-      key: place.id,
-      name: place.name,
-      address: place.address,
-      phone: place.phone,
-      url: place.url,
-      specials: place.specials,
-      categories: place.categories,
-      notes: place.notes,
-      tags: place.tags,
-      lat: place.lat,
-      lng: place.lng,
-      created_at: place.created_at instanceof Date ? place.created_at.toISOString() : String(place.created_at),
-      updated_at: place.updated_at instanceof Date ? place.updated_at.toISOString() : String(place.updated_at),
-      pitch: place.pitch ?? null,
-      crowd_level: place.crowd_level ?? null,
-      price_tier: place.price_tier ?? null,
-      photo_url: place.photo_url ?? null,
-      hours_json: place.hours_json ?? null,
-      cross_street: place.cross_street ?? null,
-      neighborhood_id: place.neighborhood_id,
-    }));
+    let rows = places;
+    if (openAt) {
+      rows = places.filter((place) => isOpenNow(withHoursOverrides(place.hours_json ?? null, place.hours_overrides), openAt));
+      if (limit !== undefined) {
+        // Same clamping as PlaceModel.findAll.
+        const start = Math.max(0, offset ?? 0);
+        rows = rows.slice(start, start + Math.min(Math.max(1, limit), 200));
+      }
+    }
 
-    res.json(response);
+    const response: PlacesListResponse = rows.map(toPlaceListItem);
+
+    // An open_now body changes with the clock, not with the data, so it must
+    // not be validated by Last-Modified; the ETag still covers it.
+    sendWithValidators(req, res, response, openNow ? null : lastModified);
   } catch (error) {
     console.error('Error fetching places:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// GET /api/places/:id - Get a single place by ID
+// A transaction id in decimal — the format CatalogModel.syncCursor() hands
+// out — short enough to fit Postgres's xid8.
+const SYNC_CURSOR_RE = /^\d{1,19}$/;
+
+// GET /api/places/changes?since=<cursor> - Places changed or deleted since a cursor
+router.get('/places/changes', async (req: Request, res: Response) => {
+  const since = typeof req.query.since === 'string' && req.query.since !== '' ? req.query.since : undefined;
+  if (since !== undefined && !SYNC_CURSOR_RE.test(since)) {
+    return res.status(400).json({ error: 'Invalid since cursor' });
+  }
+
+  try {
+    // Cursor first — see CatalogModel.syncCursor.
+    const cursor = await CatalogModel.syncCursor(since);
+    const [places, deleted] = await Promise.all([
+      PlaceModel.findAll({ publishedOnly: true, changedSince: since }),
+      since ? PlaceModel.findDeletedSince(since) : Promise.resolve([]),
+    ]);
+
+    const response: PlaceChangesResponse = {
+      places: places.map(toPlaceListItem),
+      deleted,
+      cursor,
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching place changes:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/places/:id - Get a single place by ID or slug
 router.get('/places/:id', async (req: Request, res: Response) => {
   try {
-    const place = await PlaceModel.findById(req.params.id as string);
-    if (!place) {
+    const [found, lastModified] = await Promise.all([
+      PlaceModel.findByKey(req.params.id as string, { publishedOnly: true }),
+      CatalogModel.lastModified(),
+    ]);
+    if (!found) {
       return res.status(404).json({ error: 'Place not found' });
     }
+    // A slug from before a rename: send the client on to the current one.
+    if (found.redirected) {
+      return res.redirect(301, `${req.baseUrl}/places/${encodeURIComponent(found.place.slug)}`);
+    }
+    const place = found.place;
     const response: PlaceDetailResponse = {
       key: place.id,
+      slug: place.slug,
       name: place.name,
       address: place.address,
       phone: place.phone,
       url: place.url,
       specials: place.specials,
+      specials_schedule: place.specials_schedule ?? [],
       categories: place.categories,
       notes: place.notes,
       tags: place.tags ?? [],
+      status: place.status ?? 'open',
+      reopens_on: place.reopens_on ?? null,
       created_at: place.created_at instanceof Date ? place.created_at.toISOString() : String(place.created_at),
       updated_at: place.updated_at instanceof Date ? place.updated_at.toISOString() : String(place.updated_at),
       lat: place.lat ?? null,
@@ -82,14 +236,15 @@ router.get('/places/:id', async (req: Request, res: Response) => {
       cross_street: place.cross_street ?? null,
       neighborhood_id: place.neighborhood_id,
       photo_url: place.photo_url ?? null,
+      photo: place.photo ?? null,
       photo_credit: place.photo_credit ?? null,
       google_place_id: place.google_place_id ?? null,
-      hours_json: place.hours_json ?? null,
+      hours_json: withHoursOverrides(place.hours_json ?? null, place.hours_overrides),
       google_price_level: place.google_price_level ?? null,
       enrichment_status: place.enrichment_status ?? null,
       enriched_at: place.enriched_at instanceof Date ? place.enriched_at.toISOString() : (place.enriched_at ?? null),
     };
-    res.json(response);
+    sendWithValidators(req, res, response, lastModified);
   } catch (err: any) {
     // Postgres invalid uuid throws code 22P02 — treat as 404, not 500
     if (err && err.code === '22P02') {
@@ -100,11 +255,74 @@ router.get('/places/:id', async (req: Request, res: Response) => {
   }
 });
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EVENTS_SPAN_MS = 7 * DAY_MS;
+const MAX_EVENTS_SPAN_MS = 92 * DAY_MS;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SLUG_RE = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+function parseTimestampParam(value: unknown): Date | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string' || !TIMESTAMP_RE.test(value)) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/events?from=&to=&place= - Event occurrences in a window (default: the next 7 days)
+router.get('/events', async (req: Request, res: Response) => {
+  const fromParam = parseTimestampParam(req.query.from);
+  const toParam = parseTimestampParam(req.query.to);
+  if (fromParam === null || toParam === null) {
+    return res.status(400).json({ error: 'from and to must be ISO 8601 timestamps with a zone' });
+  }
+  const from = fromParam ?? new Date();
+  const to = toParam ?? new Date(from.getTime() + DEFAULT_EVENTS_SPAN_MS);
+  if (to <= from) {
+    return res.status(400).json({ error: 'to must be after from' });
+  }
+  if (to.getTime() - from.getTime() > MAX_EVENTS_SPAN_MS) {
+    return res.status(400).json({ error: 'The window may span at most 92 days' });
+  }
+  const placeKey = typeof req.query.place === 'string' && req.query.place !== '' ? req.query.place : undefined;
+  if (placeKey !== undefined && !UUID_RE.test(placeKey) && !SLUG_RE.test(placeKey)) {
+    return res.status(400).json({ error: 'Invalid place' });
+  }
+
+  try {
+    let placeId = placeKey;
+    if (placeKey !== undefined && !UUID_RE.test(placeKey)) {
+      const found = await PlaceModel.findByKey(placeKey, { publishedOnly: true });
+      // An unknown slug has no events, like an unknown id.
+      if (!found) return sendWithValidators(req, res, [], null);
+      placeId = found.place.id;
+    }
+    const occurrences = await EventModel.findOccurrences({ from, to, placeId });
+    const response: EventsListResponse = occurrences.map((e) => ({
+      key: e.id,
+      place_key: e.place_id,
+      title: e.title,
+      description: e.description,
+      starts_at: e.occurrence_starts_at.toISOString(),
+      ends_at: e.occurrence_ends_at ? e.occurrence_ends_at.toISOString() : null,
+      recurrence: e.recurrence,
+      tags: e.tags,
+    }));
+    // Occurrences depend on the window, not just on edits — ETag only.
+    sendWithValidators(req, res, response, null);
+  } catch (error) {
+    console.error('Error fetching events:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // GET /api/tags - List all tags; ?structured=1 returns hierarchical shape
 router.get('/tags', async (req: Request, res: Response) => {
   try {
     if (req.query.structured === '1') {
-      const structuredRows = await TagModel.findAllStructured();
+      const [structuredRows, lastModified] = await Promise.all([
+        TagModel.findAllStructured(),
+        CatalogModel.lastModified(),
+      ]);
       const response: TagsStructuredResponse = {
         parents: structuredRows.parents.map(p => ({
           value: p.value,
@@ -122,27 +340,33 @@ router.get('/tags', async (req: Request, res: Response) => {
           order: String(s.sort_order),
         })),
       };
-      return res.json(response);
+      return sendWithValidators(req, res, response, lastModified);
     }
 
     // Project to trimmed API shape — existing consumers depend on { value, display, order } exactly
-    const rows = await TagModel.findAll();
+    const [rows, lastModified] = await Promise.all([
+      TagModel.findAll(),
+      CatalogModel.lastModified(),
+    ]);
     const response: TagsFlatResponse = rows.map((t): TagSummary => ({
       value: t.value,
       display: t.display,
       order: String(t.sort_order),
     }));
 
-    res.json(response);
+    sendWithValidators(req, res, response, lastModified);
   } catch (error) {
     console.error('Error fetching tags:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-router.get('/neighborhoods', async (_req: Request, res: Response) => {
+router.get('/neighborhoods', async (req: Request, res: Response) => {
   try {
-    const rows = await NeighborhoodModel.findAll();
+    const [rows, lastModified] = await Promise.all([
+      NeighborhoodModel.findAll(),
+      CatalogModel.lastModified(),
+    ]);
     const response: NeighborhoodSummary[] = rows.map((n) => ({
       id: n.id,
       value: n.value,
@@ -150,7 +374,7 @@ router.get('/neighborhoods', async (_req: Request, res: Response) => {
       is_default: n.is_default,
       order: String(n.sort_order),
     }));
-    res.json(response);
+    sendWithValidators(req, res, response, lastModified);
   } catch (err) {
     console.error('GET /api/neighborhoods failed', err);
     res.status(500).json({ error: 'Internal error' });
@@ -1,15 +1,196 @@
 import { Router, Request, Response } from 'express';
-import { PlaceModel, TagModel } from '@eve/db';
+import { NeighborhoodModel, PlaceModel, TagModel } from '@eve/db';
+import { isAlwaysOpen, isOpenNow, withHoursOverrides } from '@eve/hours';
+import { EVE_TIMEZONE } from '@eve/shared-types';
+import type { HoursJson, HoursOverride, Place, PlaceSpecial } from '@eve/shared-types';
 
 const router = Router();
 
-// Public home page - displays all places with tag filtering
+const SITE_NAME = 'East Village Everything';
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const SCHEMA_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Phone is stored as 10 digits
+function displayPhone(phone: string | null): string {
+  return phone ? `(${phone.substr(0,3)}) ${phone.substr(3,3)}-${phone.substr(6,4)}` : '';
+}
+
+// "16:00" -> "4pm", "21:30" -> "9:30pm"
+function formatClock(value: string): string {
+  const [h, m] = value.split(':').map(Number);
+  const hour = h % 12 === 0 ? 12 : h % 12;
+  return `${hour}${m ? `:${String(m).padStart(2, '0')}` : ''}${h < 12 ? 'am' : 'pm'}`;
+}
+
+// "Mon–Fri 4pm–7pm: Half-price drafts ($5)"
+function formatSpecial(special: PlaceSpecial): string {
+  const { days } = special;
+  const consecutive = days.every((d, i) => i === 0 || d === days[i - 1] + 1);
+  const dayText = days.length === 7 ? 'Daily'
+    : days.length > 2 && consecutive ? `${DAY_NAMES[days[0]]}–${DAY_NAMES[days[days.length - 1]]}`
+    : days.map((d) => DAY_NAMES[d]).join(', ');
+  const end = special.until_close ? 'close' : formatClock(special.end_time ?? '00:00');
+  const price = special.price !== null ? ` ($${special.price})` : '';
+  return `${dayText} ${formatClock(special.start_time)}–${end}: ${special.description}${price}`;
+}
+
+// Calendar dates ("2026-11-26") formatted without shifting across zones
+function formatDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+// "Thu, Nov 26: Closed (Thanksgiving)"
+function formatOverride(override: HoursOverride): string {
+  const hours = override.closed
+    ? 'Closed'
+    : `${formatClock(override.open_time ?? '00:00')}–${formatClock(override.close_time ?? '00:00')}`;
+  const note = override.note ? ` (${override.note})` : '';
+  return `${formatDate(override.date, { weekday: 'short', month: 'short', day: 'numeric' })}: ${hours}${note}`;
+}
+
+function statusNotice(place: Place): string | null {
+  if (place.status === 'permanently_closed') return 'Permanently closed';
+  if (place.status !== 'temporarily_closed') return null;
+  return place.reopens_on
+    ? `Temporarily closed, reopening ${formatDate(place.reopens_on, { month: 'long', day: 'numeric' })}`
+    : 'Temporarily closed';
+}
+
+// Canonical, Open Graph and sitemap URLs must be absolute; local uploads are
+// stored as site paths. They are built on PUBLIC_SITE_URL, not the Host
+// header, which a client can forge into cached pages. Only development may
+// leave it unset (server.ts insists in production) and get the request's host.
+function absoluteUrl(req: Request, url: string): string {
+  return new URL(url, process.env.PUBLIC_SITE_URL || `${req.protocol}://${req.get('host')}`).toString();
+}
+
+// 16, 5 -> "16:05"
+function clock(hour: number, minute: number): string {
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+// schema.org openingHoursSpecification: weekly periods with the same hours
+// share one entry; overrides from today on become dated entries, and a
+// closed day is opens = closes = 00:00 as schema.org prescribes.
+function openingHoursSpecification(hoursJson: HoursJson, today: string): object[] {
+  if (isAlwaysOpen(hoursJson)) {
+    return [{ '@type': 'OpeningHoursSpecification', dayOfWeek: SCHEMA_DAYS, opens: '00:00', closes: '23:59' }];
+  }
+
+  const weekly = new Map<string, { opens: string; closes: string; days: string[] }>();
+  for (const period of hoursJson.periods) {
+    const opens = clock(period.open.hour, period.open.minute);
+    const closes = period.close ? clock(period.close.hour, period.close.minute) : '23:59';
+    const entry = weekly.get(`${opens}-${closes}`) ?? { opens, closes, days: [] };
+    entry.days.push(SCHEMA_DAYS[period.open.day]);
+    weekly.set(`${opens}-${closes}`, entry);
+  }
+
+  return [
+    ...[...weekly.values()].map(({ opens, closes, days }) => (
+      { '@type': 'OpeningHoursSpecification', dayOfWeek: days, opens, closes }
+    )),
+    ...(hoursJson.overrides ?? []).filter((o) => o.date >= today).map((o) => ({
+      '@type': 'OpeningHoursSpecification',
+      validFrom: o.date,
+      validThrough: o.date,
+      opens: o.closed ? '00:00' : o.open_time,
+      closes: o.closed ? '00:00' : o.close_time,
+    })),
+  ];
+}
+
+// schema.org JSON-LD for a place page. The East Village is a bar
+// neighborhood, so anything not tagged as a restaurant is a BarOrPub.
+function placeJsonLd(place: Place, hoursJson: HoursJson | null, today: string, url: string, image: string | null): object {
+  const priceRange = place.price_tier
+    || (place.google_price_level ? '$'.repeat(place.google_price_level) : undefined);
+  return {
+    '@context': 'https://schema.org',
+    '@type': place.tags.includes('restaurant') ? 'Restaurant' : 'BarOrPub',
+    name: place.name,
+    url,
+    ...(image && { image }),
+    ...(place.phone && { telephone: `+1${place.phone}` }),
+    ...(place.url && { sameAs: place.url }),
+    ...(place.address && {
+      address: {
+        '@type': 'PostalAddress',
+        streetAddress: place.address,
+        addressLocality: 'New York',
+        addressRegion: 'NY',
+        addressCountry: 'US',
+      },
+    }),
+    ...(place.lat != null && place.lng != null && {
+      geo: { '@type': 'GeoCoordinates', latitude: place.lat, longitude: place.lng },
+    }),
+    ...(priceRange && { priceRange }),
+    ...(hoursJson && { openingHoursSpecification: openingHoursSpecification(hoursJson, today) }),
+  };
+}
+
+// srcset strings for the place photo: the WebP copies for a <picture>
+// <source>, and the copies in the upload's own format plus the original for
+// the <img>. Null when the photo did not go through the upload pipeline.
+function photoSrcsets(place: Place): { webp: string; fallback: string; width: number; height: number } | null {
+  const photo = place.photo;
+  if (!photo || !place.photo_url) return null;
+  const entry = (url: string, width: number) => `${url} ${width}w`;
+  const webp = photo.variants.filter((v) => v.content_type === 'image/webp');
+  const other = photo.variants.filter((v) => v.content_type !== 'image/webp');
+  // A WebP original has no full-size WebP copy; it is its own widest entry.
+  const webpEntries = webp.map((v) => entry(v.url, v.width));
+  if (!webp.some((v) => v.width === photo.width)) webpEntries.push(entry(place.photo_url, photo.width));
+  return {
+    webp: webpEntries.join(', '),
+    fallback: [...other.map((v) => entry(v.url, v.width)), entry(place.photo_url, photo.width)].join(', '),
+    width: photo.width,
+    height: photo.height,
+  };
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// ?tag=a&tag=b arrives as an array, ?tag=a as a string
+function queryValues(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map((v) => v.trim());
+}
+
+// Public home page - displays all places. The filters are read from the query
+// string (?tag=a&tag=b&neighborhood=&open_now=1&q=) and applied on the server,
+// so a filtered view can be bookmarked, shared and crawled; the tag select
+// still filters in the browser when the page has not been narrowed by tag.
 router.get('/', async (req: Request, res: Response) => {
+  const filters = {
+    // "none" is the tag select's "Anything" option.
+    tags: queryValues(req.query.tag).filter((tag) => tag !== 'none'),
+    neighborhood: queryValues(req.query.neighborhood)[0] ?? '',
+    openNow: req.query.open_now === '1',
+    q: queryValues(req.query.q)[0] ?? '',
+  };
+
   try {
-    const [places, structuredTags] = await Promise.all([
-      PlaceModel.findAll(),
-      TagModel.findAllStructured()
+    const [matching, structuredTags, neighborhoods] = await Promise.all([
+      // Hours are evaluated in JS, as in GET /api/places; closed places are
+      // never open.
+      PlaceModel.findAll({
+        publishedOnly: true,
+        tags: filters.tags,
+        neighborhood: filters.neighborhood || undefined,
+        q: filters.q || undefined,
+        ...(filters.openNow && { status: 'open' as const }),
+      }),
+      TagModel.findAllStructured(),
+      NeighborhoodModel.findAll()
     ]);
+    const now = new Date();
+    const places = filters.openNow
+      ? matching.filter((place) => isOpenNow(withHoursOverrides(place.hours_json ?? null, place.hours_overrides), now))
+      : matching;
 
     // Build a map of tag value -> parent tag value for CSS class inheritance
     const tagToParentValue = new Map<string, string>();
@@ -34,16 +215,17 @@ router.get('/', async (req: Request, res: Response) => {
 
       return {
         ...place,
-        displayPhone: place.phone
-          ? `(${place.phone.substr(0,3)}) ${place.phone.substr(3,3)}-${place.phone.substr(6,4)}`
-          : '',
+        displayPhone: displayPhone(place.phone),
         tagClasses: tagClasses.join(' ')
       };
     });
 
     res.render('public/index', {
       places: formattedPlaces,
-      structuredTags
+      structuredTags,
+      neighborhoods,
+      filters,
+      filtered: filters.tags.length > 0 || filters.neighborhood !== '' || filters.openNow || filters.q !== ''
     });
   } catch (error) {
     console.error('Error loading public page:', error);
@@ -51,4 +233,93 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+// Public place page. Ids, and slugs from before a rename, redirect to the
+// current slug so each place has one canonical URL.
+router.get('/places/:slug', async (req: Request, res: Response) => {
+  try {
+    const key = req.params.slug as string;
+    const found = await PlaceModel.findByKey(key, { publishedOnly: true });
+    if (!found) {
+      return res.status(404).send('Place not found');
+    }
+    const place = found.place;
+    if (place.slug !== key) {
+      return res.redirect(301, `/places/${encodeURIComponent(place.slug)}`);
+    }
+
+    const hoursJson = withHoursOverrides(place.hours_json ?? null, place.hours_overrides);
+    const today = new Date().toLocaleDateString('en-CA', { timeZone: EVE_TIMEZONE });
+    const notice = statusNotice(place);
+    const description = (place.pitch || place.specials || place.address || `${place.name} in the East Village`)
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 200);
+    const url = absoluteUrl(req, `/places/${place.slug}`);
+    const image = place.photo_url ? absoluteUrl(req, place.photo_url) : null;
+
+    res.render('public/place', {
+      siteName: SITE_NAME,
+      place,
+      notice,
+      displayPhone: displayPhone(place.phone),
+      openNow: !notice && hoursJson ? isOpenNow(hoursJson, new Date()) : null,
+      weekdayHours: hoursJson?.weekdayDescriptions ?? [],
+      upcomingOverrides: (hoursJson?.overrides ?? []).filter((o) => o.date >= today).map(formatOverride),
+      specialsSchedule: (place.specials_schedule ?? []).map(formatSpecial),
+      photoSrcsets: photoSrcsets(place),
+      og: {
+        title: `${place.name} · ${SITE_NAME}`,
+        description,
+        url,
+        image,
+      },
+      // Inlined in a <script>; escaping "<" keeps "</script>" in a field
+      // from ending it early.
+      jsonLd: JSON.stringify(placeJsonLd(place, hoursJson, today, url, image)).replace(/</g, '\\u003c'),
+    });
+  } catch (error) {
+    console.error('Error loading place page:', error);
+    res.status(500).send('Error loading page');
+  }
+});
+
+// Every published place, with lastmod from its last edit. Permanently
+// closed places stay listed: their pages still answer with the notice.
+router.get('/sitemap.xml', async (req: Request, res: Response) => {
+  try {
+    const places = await PlaceModel.findAll({ publishedOnly: true });
+    const lastEdit = places.reduce<Date | null>(
+      (latest, place) => (!latest || place.updated_at > latest ? place.updated_at : latest),
+      null
+    );
+    const entries = [
+      { loc: absoluteUrl(req, '/'), lastmod: lastEdit },
+      ...places.map((place) => ({ loc: absoluteUrl(req, `/places/${place.slug}`), lastmod: place.updated_at })),
+    ];
+
+    res.type('application/xml').send([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      ...entries.map(({ loc, lastmod }) =>
+        `  <url><loc>${escapeXml(loc)}</loc>${lastmod ? `<lastmod>${new Date(lastmod).toISOString()}</lastmod>` : ''}</url>`
+      ),
+      '</urlset>',
+      '',
+    ].join('\n'));
+  } catch (error) {
+    console.error('Error building sitemap:', error);
+    res.status(500).send('Error building sitemap');
+  }
+});
+
+router.get('/robots.txt', (req: Request, res: Response) => {
+  res.type('text/plain').send([
+    'User-agent: *',
+    'Disallow: /admin',
+    'Disallow: /api/',
+    `Sitemap: ${absoluteUrl(req, '/sitemap.xml')}`,
+    '',
+  ].join('\n'));
+});
+
 export default router;
@@ -0,0 +1,91 @@
+import { PlaceModel, trashRetentionDays } from '@eve/db';
+
+/**
+ * Scheduled work for places: publishing and the trash purge.
+ *
+ * The admin picks a publish time to the minute in Eastern Time and stores it
+ * as an absolute instant (places.publish_at), so the scheduler only compares
+ * instants. It wakes at the top of every minute rather than on a drifting
+ * interval: a place scheduled for 9:00 AM goes live within a second of
+ * 9:00:00 ET. Each place is published in its own transaction, so one bad
+ * draft does not hold up the rest, and several servers running this at once
+ * still publish each place only once.
+ *
+ * The trash purge runs hourly. Purging is idempotent, so it needs no
+ * coordination between servers either.
+ */
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Run `task` now, then again `nextDelay()` after each run finishes, until the
+ * returned stop function is called. Runs never overlap.
+ */
+function repeat(task: () => Promise<void>, nextDelay: () => number): () => void {
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  const tick = async () => {
+    await task();
+    if (!stopped) {
+      timer = setTimeout(tick, nextDelay());
+    }
+  };
+
+  void tick();
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+/** Publish every place whose scheduled time has passed; returns how many. */
+export async function publishDuePlaces(): Promise<number> {
+  let published = 0;
+  for (const id of await PlaceModel.findDuePublishes()) {
+    try {
+      if (await PlaceModel.publishScheduled(id)) published++;
+    } catch (err) {
+      console.error(`Scheduled publish of place ${id} failed:`, err);
+    }
+  }
+  return published;
+}
+
+/**
+ * Run publishDuePlaces now — catching up on anything that came due while the
+ * server was down — and then at the start of every minute. Returns a stop
+ * function.
+ */
+export function startPublishScheduler(): () => void {
+  return repeat(async () => {
+    try {
+      const published = await publishDuePlaces();
+      if (published > 0) {
+        console.log(`Published ${published} scheduled place(s)`);
+      }
+    } catch (err) {
+      console.error('Publish scheduler error:', err);
+    }
+  }, () => MINUTE_MS - (Date.now() % MINUTE_MS));
+}
+
+/**
+ * Hard-delete places trashed longer than the retention period
+ * (PLACE_TRASH_RETENTION_DAYS) now and then every hour. Returns a stop
+ * function.
+ */
+export function startTrashPurgeScheduler(): () => void {
+  return repeat(async () => {
+    try {
+      const days = trashRetentionDays();
+      const purged = await PlaceModel.purgeExpired(days);
+      if (purged > 0) {
+        console.log(`Purged ${purged} place(s) trashed more than ${days} day(s) ago`);
+      }
+    } catch (err) {
+      console.error('Trash purge error:', err);
+    }
+  }, () => HOUR_MS);
+}
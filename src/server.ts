@@ -10,6 +10,7 @@ import rateLimit from 'express-rate-limit';
 import apiRoutes from './routes/api.js';
 import adminRoutes from './routes/admin.js';
 import publicRoutes from './routes/public.js';
+import { startPublishScheduler, startTrashPurgeScheduler } from './scheduler.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -51,6 +52,11 @@ const sessionSecret = process.env.SESSION_SECRET;
 if (!sessionSecret) {
   throw new Error('SESSION_SECRET environment variable is required');
 }
+
+// Public page URLs are built on it (see absoluteUrl in routes/public.ts).
+if (process.env.NODE_ENV === 'production' && !process.env.PUBLIC_SITE_URL) {
+  throw new Error('PUBLIC_SITE_URL environment variable is required in production');
+}
 app.use(session({
   store: new RedisStore({ client: redisClient }),
   secret: sessionSecret,
@@ -146,6 +152,8 @@ app.listen(PORT, () => {
   console.log(`  Public site: http://localhost:${PORT}`);
   console.log(`  Admin site:  http://admin.localhost:${PORT}`);
   console.log(`  Public API:  http://localhost:${PORT}/api`);
+  startPublishScheduler();
+  startTrashPurgeScheduler();
 });
 
 // Extend Express Request type
@@ -12,6 +12,9 @@ const TINY_PNG = Buffer.from(
   'base64'
 );
 
+// 1x1 GIF — stored byte for byte, unlike the re-encoded formats
+const TINY_GIF = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
 async function loginAndGetCsrf(page: any) {
   await page.goto(`${APP}/admin/login`);
   await page.fill('input[name="email"]', ADMIN_EMAIL);
@@ -53,17 +56,28 @@ test.describe('POST /admin/uploads', () => {
     expect(body).toHaveProperty('key');
     expect(body.url).toMatch(/^\/uploads\/tag\/[a-f0-9-]+\.png$/);
 
+    // Images are re-encoded without metadata, so the bytes differ from the
+    // upload; the pipeline reports the size and a full-size WebP copy.
+    expect(body.width).toBe(1);
+    expect(body.height).toBe(1);
+    expect(typeof body.blurhash).toBe('string');
+    expect(body.variants).toEqual([
+      expect.objectContaining({ url: body.url.replace(/\.png$/, '.webp'), width: 1, contentType: 'image/webp' }),
+    ]);
+
     // The URL is fetchable (uses the unauthenticated request fixture)
     const fetched = await request.get(`${APP}${body.url}`);
     expect(fetched.status()).toBe(200);
     const buf = Buffer.from(await fetched.body());
-    expect(buf.length).toBe(TINY_PNG.length);
+    expect(buf.subarray(1, 4).toString('ascii')).toBe('PNG');
 
-    // Cleanup: remove the uploaded file
-    try {
-      await fs.unlink(path.resolve(`public/uploads/${body.key}`));
-    } catch {
-      // non-fatal
+    // Cleanup: remove the uploaded file and its copies
+    for (const key of [body.key, ...body.variants.map((v: { key: string }) => v.key)]) {
+      try {
+        await fs.unlink(path.resolve(`public/uploads/${key}`));
+      } catch {
+        // non-fatal
+      }
     }
   });
 
@@ -92,4 +106,75 @@ test.describe('POST /admin/uploads', () => {
     });
     expect(res.status()).toBe(415);
   });
+
+  test('derives the extension from the bytes, not the declared type or name', async ({ page }) => {
+    const csrf = await loginAndGetCsrf(page);
+    const res = await page.request.post(`${APP}/admin/uploads`, {
+      headers: { 'x-csrf-token': csrf },
+      multipart: {
+        file: { name: 'photo.jpg', mimeType: 'application/octet-stream', buffer: TINY_PNG },
+        prefix: 'tag',
+      },
+    });
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect(body.url).toMatch(/\.png$/);
+
+    for (const key of [body.key, ...body.variants.map((v: { key: string }) => v.key)]) {
+      try {
+        await fs.unlink(path.resolve(`public/uploads/${key}`));
+      } catch {
+        // non-fatal
+      }
+    }
+  });
+
+  test('rejects an SVG disguised as a PNG with 415', async ({ page }) => {
+    const csrf = await loginAndGetCsrf(page);
+    const res = await page.request.post(`${APP}/admin/uploads`, {
+      headers: { 'x-csrf-token': csrf },
+      multipart: {
+        file: {
+          name: 'cat.png',
+          mimeType: 'image/png',
+          buffer: Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>'),
+        },
+        prefix: 'tag',
+      },
+    });
+    expect(res.status()).toBe(415);
+  });
+
+  test('rejects a GIF with markup appended with 415', async ({ page }) => {
+    const csrf = await loginAndGetCsrf(page);
+    const res = await page.request.post(`${APP}/admin/uploads`, {
+      headers: { 'x-csrf-token': csrf },
+      multipart: {
+        file: { name: 'tiny.gif', mimeType: 'image/gif', buffer: Buffer.concat([TINY_GIF, Buffer.from('<html><script>alert(1)</script>')]) },
+        prefix: 'tag',
+      },
+    });
+    expect(res.status()).toBe(415);
+  });
+
+  test('accepts a PNG whose bytes contain markup-like text, since it is re-encoded', async ({ page }) => {
+    const csrf = await loginAndGetCsrf(page);
+    const res = await page.request.post(`${APP}/admin/uploads`, {
+      headers: { 'x-csrf-token': csrf },
+      multipart: {
+        file: { name: 'tiny.png', mimeType: 'image/png', buffer: Buffer.concat([TINY_PNG, Buffer.from('<body>')]) },
+        prefix: 'tag',
+      },
+    });
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+
+    // The stored original is the re-encoded image, without the trailing text.
+    const fetched = Buffer.from(await (await page.request.get(`${APP}${body.url}`)).body());
+    expect(fetched.includes(Buffer.from('<body>'))).toBe(false);
+
+    for (const key of [body.key, ...body.variants.map((v: { key: string }) => v.key)]) {
+      await fs.unlink(path.resolve(`public/uploads/${key}`)).catch(() => {});
+    }
+  });
 });
@@ -0,0 +1,78 @@
+/**
+ * Conditional GET (ETag / Last-Modified) acceptance tests for the public API.
+ *
+ * REQUIRES: Server running locally. Run with:
+ *
+ *   npm run docker:dev   # in one terminal
+ *   npx playwright test tests/e2e/api/conditional-get.spec.ts --project=desktop-chrome
+ */
+import { test, expect } from '@playwright/test';
+
+const BASE_URL = process.env.BASE_URL ?? 'http://localhost:3000';
+
+const ROUTES = ['/api/places', '/api/tags', '/api/tags?structured=1', '/api/neighborhoods'];
+
+test.describe('Conditional GET on public /api routes', () => {
+  for (const route of ROUTES) {
+    test(`${route} emits a strong ETag and Last-Modified`, async ({ request }) => {
+      const res = await request.get(`${BASE_URL}${route}`);
+      expect(res.status()).toBe(200);
+      const headers = res.headers();
+      expect(headers['etag']).toMatch(/^"[^"]+"$/);
+      expect(headers['etag']).not.toMatch(/^W\//);
+      expect(headers['cache-control']).toBe('no-cache');
+    });
+
+    test(`${route} answers a matching If-None-Match with 304`, async ({ request }) => {
+      const first = await request.get(`${BASE_URL}${route}`);
+      const etag = first.headers()['etag'];
+      const second = await request.get(`${BASE_URL}${route}`, {
+        headers: { 'If-None-Match': etag },
+      });
+      expect(second.status()).toBe(304);
+      expect(await second.body()).toHaveLength(0);
+    });
+  }
+
+  test('a stale If-None-Match gets the full body', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/places`, {
+      headers: { 'If-None-Match': '"not-the-current-etag"' },
+    });
+    expect(res.status()).toBe(200);
+    expect(Array.isArray(await res.json())).toBe(true);
+  });
+
+  test('If-Modified-Since at Last-Modified returns 304', async ({ request }) => {
+    const first = await request.get(`${BASE_URL}/api/tags`);
+    const lastModified = first.headers()['last-modified'];
+    test.skip(!lastModified, 'Empty catalog has no Last-Modified');
+    const second = await request.get(`${BASE_URL}/api/tags`, {
+      headers: { 'If-Modified-Since': lastModified },
+    });
+    expect(second.status()).toBe(304);
+  });
+
+  test('a matching If-None-Match with an older If-Modified-Since gets the full body', async ({ request }) => {
+    const first = await request.get(`${BASE_URL}/api/tags`);
+    const lastModified = first.headers()['last-modified'];
+    test.skip(!lastModified, 'Empty catalog has no Last-Modified');
+    const second = await request.get(`${BASE_URL}/api/tags`, {
+      headers: {
+        'If-None-Match': first.headers()['etag'],
+        'If-Modified-Since': new Date(Date.parse(lastModified) - 1000).toUTCString(),
+      },
+    });
+    expect(second.status()).toBe(200);
+  });
+
+  test('tag-filtered list has a different ETag from the full list', async ({ request }) => {
+    const tags = await (await request.get(`${BASE_URL}/api/tags`)).json();
+    test.skip(tags.length === 0, 'Need at least one tag in DB');
+    const all = await request.get(`${BASE_URL}/api/places`);
+    const filtered = await request.get(`${BASE_URL}/api/places?tag=${encodeURIComponent(tags[0].value)}`);
+    const allBody = await all.json();
+    const filteredBody = await filtered.json();
+    test.skip(allBody.length === filteredBody.length, 'Tag matches every place');
+    expect(filtered.headers()['etag']).not.toBe(all.headers()['etag']);
+  });
+});
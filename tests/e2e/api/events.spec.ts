@@ -0,0 +1,45 @@
+/**
+ * GET /api/events — event occurrences in a time window.
+ *
+ * REQUIRES: Server running locally (npm run dev) with a seeded database.
+ */
+import { test, expect } from '@playwright/test';
+
+const BASE_URL = process.env.BASE_URL ?? 'http://localhost:3000';
+
+test.describe('GET /api/events', () => {
+  test('accepts the window the mobile app sends', async ({ request }) => {
+    const res = await request.get(
+      `${BASE_URL}/api/events?from=2026-10-20T00:00:00.000Z&to=2026-11-03T00:00:00.000Z`
+    );
+    expect(res.status()).toBe(200);
+    expect(Array.isArray(await res.json())).toBe(true);
+  });
+
+  test('rejects a timestamp without a zone with 400', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/events?from=2026-10-20T00:00:00&to=2026-10-27T00:00:00Z`);
+    expect(res.status()).toBe(400);
+    expect(await res.json()).toEqual({ error: 'from and to must be ISO 8601 timestamps with a zone' });
+  });
+
+  test('rejects a reversed or overlong window with 400', async ({ request }) => {
+    const reversed = await request.get(`${BASE_URL}/api/events?from=2026-10-27T00:00:00Z&to=2026-10-20T00:00:00Z`);
+    expect(reversed.status()).toBe(400);
+    const overlong = await request.get(`${BASE_URL}/api/events?from=2026-10-20T00:00:00Z&to=2027-02-01T00:00:00Z`);
+    expect(overlong.status()).toBe(400);
+  });
+
+  test('every occurrence overlaps the window, earliest first', async ({ request }) => {
+    const from = '2026-10-20T00:00:00.000Z';
+    const to = '2026-11-17T00:00:00.000Z';
+    const res = await request.get(`${BASE_URL}/api/events?from=${from}&to=${to}`);
+    const events: Array<{ starts_at: string; ends_at: string | null }> = await res.json();
+
+    for (const event of events) {
+      expect(event.starts_at < to).toBe(true);
+      expect(event.ends_at === null ? event.starts_at >= from : event.ends_at > from).toBe(true);
+    }
+    const starts = events.map((event) => event.starts_at);
+    expect(starts).toEqual([...starts].sort());
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * GET /api/places?open_now=1 / ?open_at=<ISO> — server-side opening-hours filter.
+ *
+ * REQUIRES: Server running locally (npm run dev) with a seeded database.
+ *
+ * Filtered results are checked against the unfiltered list: every place in a
+ * filtered response must also appear unfiltered and must have hours_json.
+ */
+import { test, expect } from '@playwright/test';
+
+const BASE_URL = process.env.BASE_URL ?? 'http://localhost:3000';
+
+test.describe('GET /api/places — opening-hours filter', () => {
+  test('open_at returns a subset of places that all have hours', async ({ request }) => {
+    const [allRes, openRes] = await Promise.all([
+      request.get(`${BASE_URL}/api/places`),
+      request.get(`${BASE_URL}/api/places?open_at=${encodeURIComponent('2026-05-08T23:30:00-04:00')}`),
+    ]);
+    expect(openRes.status()).toBe(200);
+    const all: Array<{ key: string }> = await allRes.json();
+    const open: Array<{ key: string; hours_json: unknown }> = await openRes.json();
+
+    const allKeys = new Set(all.map((p) => p.key));
+    for (const place of open) {
+      expect(allKeys.has(place.key)).toBe(true);
+      expect(place.hours_json).not.toBeNull();
+    }
+  });
+
+  test('the same instant in a different zone gives the same result', async ({ request }) => {
+    const [eastern, utc] = await Promise.all([
+      request.get(`${BASE_URL}/api/places?open_at=${encodeURIComponent('2026-05-09T01:30:00-04:00')}`),
+      request.get(`${BASE_URL}/api/places?open_at=2026-05-09T05:30:00Z`),
+    ]);
+    const easternKeys = (await eastern.json()).map((p: { key: string }) => p.key);
+    const utcKeys = (await utc.json()).map((p: { key: string }) => p.key);
+    expect(utcKeys).toEqual(easternKeys);
+  });
+
+  test('open_now=1 returns 200 without Last-Modified', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/places?open_now=1`);
+    expect(res.status()).toBe(200);
+    expect(Array.isArray(await res.json())).toBe(true);
+    expect(res.headers()['etag']).toBeTruthy();
+    expect(res.headers()['last-modified']).toBeUndefined();
+  });
+
+  test('open_at without a zone returns 400', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/places?open_at=2026-05-08T23:30:00`);
+    expect(res.status()).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Invalid open_at timestamp' });
+  });
+
+  test('open_now and open_at together return 400', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/places?open_now=1&open_at=2026-05-08T23:30:00Z`);
+    expect(res.status()).toBe(400);
+  });
+});
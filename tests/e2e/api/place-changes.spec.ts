@@ -0,0 +1,45 @@
+/**
+ * Delta sync acceptance tests for GET /api/places/changes.
+ *
+ * REQUIRES: Server running locally. Run with:
+ *
+ *   npm run docker:dev   # in one terminal
+ *   npx playwright test tests/e2e/api/place-changes.spec.ts --project=desktop-chrome
+ */
+import { test, expect } from '@playwright/test';
+
+const BASE_URL = process.env.BASE_URL ?? 'http://localhost:3000';
+
+test.describe('GET /api/places/changes', () => {
+  test('without since returns the full list and a cursor', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/places/changes`);
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    const all = await (await request.get(`${BASE_URL}/api/places`)).json();
+    expect(body.places.map((p: any) => p.key)).toEqual(all.map((p: any) => p.key));
+    expect(body.deleted).toEqual([]);
+    expect(body.cursor).toMatch(/^\d+$/);
+  });
+
+  test('polling with the returned cursor yields an empty delta when nothing changed', async ({ request }) => {
+    const first = await (await request.get(`${BASE_URL}/api/places/changes`)).json();
+    const res = await request.get(`${BASE_URL}/api/places/changes?since=${encodeURIComponent(first.cursor)}`);
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+    expect(body.places).toEqual([]);
+    expect(body.deleted).toEqual([]);
+    // Writes to unrelated tables may move it on, never back.
+    expect(BigInt(body.cursor) >= BigInt(first.cursor)).toBe(true);
+  });
+
+  test('rejects a malformed cursor with 400', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/places/changes?since=yesterday`);
+    expect(res.status()).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Invalid since cursor' });
+  });
+
+  test('is not shadowed by GET /api/places/:id', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/places/changes`);
+    expect(res.status()).not.toBe(404);
+  });
+});
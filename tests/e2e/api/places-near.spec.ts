@@ -0,0 +1,59 @@
+/**
+ * GET /api/places?near=lat,lng&radius_m= — distance-ordered place list.
+ *
+ * REQUIRES: Server running locally (npm run dev) with a seeded database and
+ * migrations applied through 1706457600011 (earthdistance + GiST index).
+ */
+import { test, expect } from '@playwright/test';
+
+const BASE_URL = process.env.BASE_URL ?? 'http://localhost:3000';
+
+// Tompkins Square Park.
+const NEAR = '40.7265,-73.9815';
+
+test.describe('GET /api/places — near', () => {
+  test('returns located places nearest first with distance_m', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/places?near=${NEAR}`);
+    expect(res.status()).toBe(200);
+    const places: Array<{ lat: number | null; lng: number | null; distance_m: number }> = await res.json();
+
+    for (const place of places) {
+      expect(place.lat).not.toBeNull();
+      expect(place.lng).not.toBeNull();
+      expect(Number.isInteger(place.distance_m)).toBe(true);
+    }
+    const distances = places.map((p) => p.distance_m);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  test('radius_m cuts the list to places within the radius', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/places?near=${NEAR}&radius_m=400`);
+    expect(res.status()).toBe(200);
+    const places: Array<{ distance_m: number }> = await res.json();
+    for (const place of places) {
+      expect(place.distance_m).toBeLessThanOrEqual(400);
+    }
+  });
+
+  test('plain list responses have no distance_m', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/places?limit=5`);
+    for (const place of await res.json()) {
+      expect(place).not.toHaveProperty('distance_m');
+    }
+  });
+
+  for (const [query, error] of [
+    ['near=abc', 'Invalid near coordinates'],
+    ['near=91,0', 'Invalid near coordinates'],
+    ['near=40.7', 'Invalid near coordinates'],
+    [`near=${NEAR}&radius_m=-5`, 'Invalid radius_m'],
+    [`near=${NEAR}&radius_m=100000`, 'Invalid radius_m'],
+    ['radius_m=500', 'radius_m requires near'],
+  ]) {
+    test(`?${query} returns 400`, async ({ request }) => {
+      const res = await request.get(`${BASE_URL}/api/places?${query}`);
+      expect(res.status()).toBe(400);
+      expect(await res.json()).toEqual({ error });
+    });
+  }
+});
@@ -0,0 +1,52 @@
+/**
+ * Tag hierarchy — GET /api/tags?structured=1 built from tags.parent_tag_id.
+ *
+ * REQUIRES: Server running locally (npm run dev) with a seeded database.
+ *
+ * Invariants checked against whatever tags the database holds:
+ *   - every parent has at least one child (childless top-level tags are standalone)
+ *   - nesting is one level deep: children never carry children of their own
+ *   - each tag appears exactly once across parents, children and standalone
+ */
+import { test, expect } from '@playwright/test';
+
+const BASE_URL = process.env.BASE_URL ?? 'http://localhost:3000';
+
+test.describe('GET /api/tags?structured=1 — hierarchy', () => {
+  test('groups come from parent_tag_id and nest one level deep', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/api/tags?structured=1`);
+    expect(res.status()).toBe(200);
+    const body = await res.json();
+
+    const seen: string[] = [];
+    for (const parent of body.parents) {
+      expect(parent.children.length).toBeGreaterThan(0);
+      seen.push(parent.value);
+      for (const child of parent.children) {
+        expect(child).not.toHaveProperty('children');
+        seen.push(child.value);
+      }
+    }
+    for (const s of body.standalone) {
+      expect(s).not.toHaveProperty('children');
+      seen.push(s.value);
+    }
+
+    expect(new Set(seen).size).toBe(seen.length);
+  });
+
+  test('structured and flat responses list the same tags', async ({ request }) => {
+    const [flatRes, structuredRes] = await Promise.all([
+      request.get(`${BASE_URL}/api/tags`),
+      request.get(`${BASE_URL}/api/tags?structured=1`),
+    ]);
+    const flat: Array<{ value: string }> = await flatRes.json();
+    const structured = await structuredRes.json();
+
+    const structuredValues = [
+      ...structured.parents.flatMap((p: any) => [p.value, ...p.children.map((c: any) => c.value)]),
+      ...structured.standalone.map((s: any) => s.value),
+    ];
+    expect(structuredValues.sort()).toEqual(flat.map((t) => t.value).sort());
+  });
+});
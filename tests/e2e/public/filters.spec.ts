@@ -0,0 +1,52 @@
+/**
+ * Server-side filters on the public index — GET /?tag=&neighborhood=&open_now=1&q=.
+ *
+ * REQUIRES: Server running locally with at least one published, tagged place. Run with:
+ *
+ *   npm run docker:dev   # in one terminal
+ *   npx playwright test tests/e2e/public/filters.spec.ts --project=desktop-chrome
+ */
+import { test, expect } from '@playwright/test';
+
+const BASE_URL = process.env.BASE_URL ?? 'http://localhost:3000';
+
+test.describe('Public index filters', () => {
+  test('?tag= renders only places with that tag', async ({ request, page }) => {
+    const places = await (await request.get(`${BASE_URL}/api/places`)).json();
+    const tagged = places.find((p: { tags: string[] }) => p.tags.length > 0);
+    test.skip(!tagged, 'no tagged places');
+
+    const tag = tagged.tags[0];
+    await page.goto(`${BASE_URL}/?tag=${encodeURIComponent(tag)}`);
+    await expect(page.locator('#tag-list')).toHaveValue(tag);
+    const expected = places.filter((p: { tags: string[] }) => p.tags.includes(tag)).length;
+    // Parent tags also match their children's places, so at least these.
+    expect(await page.locator('div.bar').count()).toBeGreaterThanOrEqual(expected);
+    await expect(page.locator(`a.place-name[href="/places/${tagged.slug}"]`)).toBeVisible();
+  });
+
+  test('?q= narrows the list and fills the search box', async ({ request, page }) => {
+    const [place] = await (await request.get(`${BASE_URL}/api/places?limit=1`)).json();
+    test.skip(!place, 'no published places');
+
+    await page.goto(`${BASE_URL}/?q=${encodeURIComponent(place.name)}`);
+    await expect(page.locator('#search')).toHaveValue(place.name);
+    await expect(page.locator(`a.place-name[href="/places/${place.slug}"]`)).toBeVisible();
+  });
+
+  test('filters that match nothing show a way back', async ({ page }) => {
+    await page.goto(`${BASE_URL}/?q=no-such-place-anywhere`);
+    await expect(page.locator('div.bar')).toHaveCount(0);
+    await expect(page.getByText('No places match these filters.')).toBeVisible();
+  });
+
+  test('choosing a tag in the browser updates the URL', async ({ page }) => {
+    await page.goto(`${BASE_URL}/`);
+    const select = page.locator('#tag-list');
+    const value = await select.locator('option').nth(1).getAttribute('value');
+    test.skip(!value, 'no tags');
+
+    await select.selectOption(value!);
+    await expect(page).toHaveURL(`${BASE_URL}/?tag=${encodeURIComponent(value!)}`);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Public place pages — GET /places/:slug.
+ *
+ * REQUIRES: Server running locally with at least one published place. Run with:
+ *
+ *   npm run docker:dev   # in one terminal
+ *   npx playwright test tests/e2e/public/place-page.spec.ts --project=desktop-chrome
+ */
+import { test, expect } from '@playwright/test';
+
+const BASE_URL = process.env.BASE_URL ?? 'http://localhost:3000';
+
+test.describe('Public place page', () => {
+  test('renders the place with Open Graph tags', async ({ request, page }) => {
+    const [place] = await (await request.get(`${BASE_URL}/api/places?limit=1`)).json();
+    test.skip(!place, 'no published places');
+
+    await page.goto(`${BASE_URL}/places/${place.slug}`);
+    await expect(page.locator('h2.place-title')).toHaveText(place.name);
+    await expect(page.locator('meta[property="og:title"]')).toHaveAttribute('content', place.name);
+    await expect(page.locator('meta[property="og:url"]')).toHaveAttribute('content', `${BASE_URL}/places/${place.slug}`);
+    await expect(page.locator('link[rel="canonical"]')).toHaveAttribute('href', `${BASE_URL}/places/${place.slug}`);
+  });
+
+  test('redirects an id to the slug URL', async ({ request }) => {
+    const [place] = await (await request.get(`${BASE_URL}/api/places?limit=1`)).json();
+    test.skip(!place, 'no published places');
+
+    const res = await request.get(`${BASE_URL}/places/${place.key}`, { maxRedirects: 0 });
+    expect(res.status()).toBe(301);
+    expect(res.headers()['location']).toBe(`/places/${place.slug}`);
+  });
+
+  test('answers 404 for an unknown slug', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/places/no-such-place-anywhere`);
+    expect(res.status()).toBe(404);
+  });
+
+  test('index cards link to the place pages', async ({ request, page }) => {
+    const [place] = await (await request.get(`${BASE_URL}/api/places?limit=1`)).json();
+    test.skip(!place, 'no published places');
+
+    await page.goto(`${BASE_URL}/`);
+    await expect(page.locator(`a.place-name[href="/places/${place.slug}"]`)).toHaveText(place.name);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Structured data, sitemap.xml and robots.txt on the public site.
+ *
+ * REQUIRES: Server running locally with at least one published place. Run with:
+ *
+ *   npm run docker:dev   # in one terminal
+ *   npx playwright test tests/e2e/public/seo.spec.ts --project=desktop-chrome
+ */
+import { test, expect } from '@playwright/test';
+
+const BASE_URL = process.env.BASE_URL ?? 'http://localhost:3000';
+// What the server was started with; absolute URLs in pages are built on it.
+const SITE_URL = process.env.PUBLIC_SITE_URL ?? BASE_URL;
+
+test.describe('Public site SEO', () => {
+  test('place pages carry schema.org JSON-LD', async ({ request, page }) => {
+    const [place] = await (await request.get(`${BASE_URL}/api/places?limit=1`)).json();
+    test.skip(!place, 'no published places');
+
+    await page.goto(`${BASE_URL}/places/${place.slug}`);
+    const jsonLd = JSON.parse(await page.locator('script[type="application/ld+json"]').textContent() ?? '{}');
+    expect(jsonLd['@context']).toBe('https://schema.org');
+    expect(['BarOrPub', 'Restaurant']).toContain(jsonLd['@type']);
+    expect(jsonLd.name).toBe(place.name);
+    expect(jsonLd.url).toBe(`${SITE_URL}/places/${place.slug}`);
+    if (place.hours_json) {
+      expect(jsonLd.openingHoursSpecification.length).toBeGreaterThan(0);
+    }
+  });
+
+  test('sitemap.xml lists the place pages', async ({ request }) => {
+    const [place] = await (await request.get(`${BASE_URL}/api/places?limit=1`)).json();
+    test.skip(!place, 'no published places');
+
+    const res = await request.get(`${BASE_URL}/sitemap.xml`);
+    expect(res.status()).toBe(200);
+    expect(res.headers()['content-type']).toContain('application/xml');
+    const body = await res.text();
+    expect(body).toContain(`<loc>${SITE_URL}/places/${place.slug}</loc>`);
+    expect(body).toMatch(/<lastmod>\d{4}-\d{2}-\d{2}T/);
+  });
+
+  test('robots.txt points at the sitemap', async ({ request }) => {
+    const res = await request.get(`${BASE_URL}/robots.txt`);
+    expect(res.status()).toBe(200);
+    const body = await res.text();
+    expect(body).toContain('Disallow: /admin');
+    expect(body).toContain(`Sitemap: ${SITE_URL}/sitemap.xml`);
+  });
+
+  test('absolute URLs ignore a forged Host header', async ({ request }) => {
+    test.skip(!process.env.PUBLIC_SITE_URL, 'PUBLIC_SITE_URL not set; development falls back to the Host header');
+    const res = await request.get(`${BASE_URL}/robots.txt`, { headers: { Host: 'attacker.example' } });
+    const body = await res.text();
+    expect(body).toContain(`Sitemap: ${SITE_URL}/sitemap.xml`);
+    expect(body).not.toContain('attacker.example');
+  });
+});